@@ -0,0 +1,94 @@
+/**
+ * Kernel benchmark: steps per second of the direct and the shared-memory
+ * tiled compute kernels on the same grids
+ *
+ * Open /benchmark.html with the dev server running. `?steps=N` changes the
+ * number of timed steps per measurement (default 200).
+ */
+
+import { GPUEngine } from './engine/GPUEngine';
+import { GPUKernel, GPUSimulation } from './engine/GPUSimulation';
+import { parseRule } from './engine/rules';
+
+interface BenchmarkCase {
+  gridSize: number[];
+  rule: string;
+}
+
+const CASES: BenchmarkCase[] = [
+  { gridSize: [1024, 1024], rule: 'B3/S23' },
+  { gridSize: [128, 128, 128], rule: 'B6/S5-7' },
+  { gridSize: [256, 256, 256], rule: 'B6/S5-7' },
+  { gridSize: [256, 256, 256], rule: '9-26/5-7,12-13,15/5/M' },
+  { gridSize: [32, 32, 32, 32], rule: 'B6-9/S7-10' },
+  { gridSize: [64, 64, 64, 64], rule: 'B6-9/S7-10' },
+  { gridSize: [16, 16, 16, 16, 16], rule: 'B11-14/S12-18' },
+];
+
+const WARMUP_STEPS = 5;
+
+async function measure(
+  gpuEngine: GPUEngine,
+  benchmark: BenchmarkCase,
+  kernel: GPUKernel,
+  steps: number
+): Promise<number> {
+  const simulation = new GPUSimulation(gpuEngine, {
+    gridSize: benchmark.gridSize,
+    rules: parseRule(benchmark.rule, benchmark.gridSize.length),
+    kernel,
+  });
+  await simulation.init();
+
+  try {
+    // Warm up (pipeline compilation, first dispatches)
+    simulation.stepMany(WARMUP_STEPS);
+    await simulation.whenIdle();
+
+    const start = performance.now();
+    simulation.stepMany(steps);
+    await simulation.whenIdle();
+
+    return (steps * 1000) / (performance.now() - start);
+  } finally {
+    simulation.destroy();
+  }
+}
+
+async function run(): Promise<void> {
+  const status = document.getElementById('status')!;
+  const tbody = document.querySelector('#results tbody')!;
+  const steps = parseInt(new URLSearchParams(location.search).get('steps') ?? '') || 200;
+
+  const gpuEngine = new GPUEngine();
+  if (!(await gpuEngine.init())) {
+    status.textContent = 'WebGPU is not available in this browser';
+    return;
+  }
+
+  for (const benchmark of CASES) {
+    const label = benchmark.gridSize.join('×');
+    status.textContent = `Running ${label} (${steps} steps per kernel)...`;
+
+    const direct = await measure(gpuEngine, benchmark, 'direct', steps);
+    const tiled = await measure(gpuEngine, benchmark, 'tiled', steps);
+
+    const row = document.createElement('tr');
+    row.innerHTML = `
+      <td>${label}</td>
+      <td>${benchmark.rule}</td>
+      <td>${direct.toFixed(1)}</td>
+      <td>${tiled.toFixed(1)}</td>
+      <td>${(tiled / direct).toFixed(2)}×</td>
+    `;
+    tbody.appendChild(row);
+  }
+
+  status.textContent = `Done (${steps} timed steps per kernel)`;
+  gpuEngine.destroy();
+}
+
+run().catch(error => {
+  console.error('Benchmark failed:', error);
+  document.getElementById('status')!.textContent = `Benchmark failed: ${error}`;
+});
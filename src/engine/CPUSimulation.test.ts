@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { GLIDER_2D, createEngine, createGrid } from '../test/helpers';
+import { coordsToIndex } from '../utils/grid';
+import { countCells, getPackedCell } from '../utils/packing';
+import { parseRule } from './rules';
+
+describe('CPUSimulation', () => {
+  it('flips a blinker every generation', async () => {
+    const engine = await createEngine([5, 5], 'B3/S23', [[0, 0], [1, 0], [2, 0]]);
+    const row = [[1, 2], [2, 2], [3, 2]].map(coords => coordsToIndex(coords, [5, 5]));
+    const column = [[2, 1], [2, 2], [2, 3]].map(coords => coordsToIndex(coords, [5, 5]));
+
+    engine.step();
+    let state = await engine.getState();
+    expect(column.map(index => getPackedCell(state, index))).toEqual([1, 1, 1]);
+    expect(countCells(state, 25)).toBe(3);
+
+    engine.step();
+    state = await engine.getState();
+    expect(row.map(index => getPackedCell(state, index))).toEqual([1, 1, 1]);
+  });
+
+  it('carries a glider across the wrapping edge', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', GLIDER_2D, [6, 6]);
+    engine.stepMany(32);
+    const state = await engine.getState();
+    // Back in place after a full lap
+    expect(GLIDER_2D.map(([x, y]) => getPackedCell(state, coordsToIndex([(x + 6) % 8, (y + 6) % 8], [8, 8]))))
+      .toEqual([1, 1, 1, 1, 1]);
+    expect(countCells(state, 64)).toBe(5);
+  });
+
+  it('steps 4D grids with the rules it was given', async () => {
+    // Each cell of a 2x2x2x2 hypercube has 15 neighbors, every cell around it at most 8
+    const cube = [0, 1].flatMap(w => [0, 1].flatMap(z => [0, 1].flatMap(y => [0, 1].map(x => [x, y, z, w]))));
+    const engine = await createEngine([6, 6, 6, 6], 'B9/S15', cube);
+    engine.step();
+    expect(await engine.getState()).toEqual(createGrid([6, 6, 6, 6], cube));
+
+    engine.updateRules(parseRule('B3/S23', 4));
+    engine.step();
+    expect(countCells(await engine.getState(), 6 ** 4)).toBe(0);
+  });
+
+  it('writes edits into the current generation and its history entry', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', []);
+    engine.stepMany(3);
+    engine.seekHistory(1);
+    await engine.setCells([{ index: 0, state: 1 }]);
+
+    expect(engine.getHistoryLength()).toBe(2);
+    expect(countCells(await engine.getState(), 64)).toBe(1);
+    engine.seekHistory(0);
+    expect(countCells(await engine.getState(), 64)).toBe(0);
+    engine.seekHistory(1);
+    expect(countCells(await engine.getState(), 64)).toBe(1);
+
+    await expect(engine.setCells([{ index: 64, state: 1 }])).rejects.toThrow();
+    await expect(engine.setCells([{ index: 0, state: 2 }])).rejects.toThrow();
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * CPU reference simulation engine
+ * Pure TypeScript mirror of compute-nd.wgsl, used when WebGPU is unavailable
+ * and as ground truth for headless rule/pattern checks
+ */
+
+import {
+  ActivityWindow,
+  CellEdit,
+  SimulationConfig,
+  SimulationEngine,
+  SimulationRules,
+  SimulationStats,
+  getActivityDecay,
+  getMaxNeighbors,
+  resolveConfig,
+  validateCellEdits,
+} from './SimulationEngine';
+import { cloneRules, getRuleMaskWords, hasRuleBit, rulesToMasks } from './rules';
+import { getNeighborOffsets } from './neighborhoods';
+import {
+  AxisBoundary,
+  createNeighborResolver,
+  defaultBoundaries,
+  resolveBoundaries,
+} from './boundaries';
+import { DEFAULT_HISTORY_BUDGET, HistoryRing } from './history';
+import { get3DViewSize, getCellCount, getSliceStart } from '../utils/grid';
+import { LiveCells, MAX_AGE, collectLiveCells } from '../utils/liveCells';
+import { PackedCells, getBitsPerCell, packCells, unpackCells } from '../utils/packing';
+import { SoupParams, createSoup } from '../utils/soup';
+import {
+  STATE_HASH_CAPACITY,
+  StateHash,
+  StateHashes,
+  accumulateStateHash,
+  decodeStateHash,
+} from '../utils/stateHash';
+
+/**
+ * Advance one generation on the CPU, counting the live cells in the rules'
+ * neighborhood under the given per-axis boundaries (toroidal by default).
+ * Works for any number of dimensions; the first axis varies fastest,
+ * matching the index layout of the compute shader. Cells are unpacked, one
+ * byte each: 0 (dead), 1 (alive) or 2..states-1 (dying, Generations rules only).
+ */
+export function stepCells(
+  input: Uint8Array,
+  output: Uint8Array,
+  gridSize: readonly number[],
+  rules: SimulationRules,
+  boundaries: readonly AxisBoundary[] = defaultBoundaries(gridSize.length)
+): void {
+  const dimensions = gridSize.length;
+  const neighborIndex = createNeighborResolver(gridSize, boundaries);
+  const offsets = getNeighborOffsets(rules.neighborhood, dimensions);
+  const maxNeighbors = getMaxNeighbors(dimensions, rules.neighborhood);
+  const masks = rulesToMasks(rules, maxNeighbors);
+  const birthOffset = getRuleMaskWords(maxNeighbors);
+  const coords = new Array<number>(dimensions).fill(0);
+
+  for (let index = 0; index < input.length; index++) {
+    let neighbors = 0;
+
+    for (const offset of offsets) {
+      const neighbor = neighborIndex(coords, offset);
+      // Only fully alive cells count, dying cells are ignored
+      if (neighbor >= 0 && input[neighbor] === 1) {
+        neighbors++;
+      }
+    }
+
+    const state = input[index];
+    if (state === 1) {
+      // Cell is alive - check survival conditions, otherwise start decaying
+      output[index] = hasRuleBit(masks, 0, neighbors) ? 1 : (rules.states > 2 ? 2 : 0);
+    } else if (state === 0) {
+      // Cell is dead - check birth conditions
+      output[index] = hasRuleBit(masks, birthOffset, neighbors) ? 1 : 0;
+    } else {
+      // Cell is dying - advance to the next state until it dies
+      output[index] = state + 1 < rules.states ? state + 1 : 0;
+    }
+
+    // Advance coordinates (x fastest)
+    for (let d = 0; d < dimensions; d++) {
+      if (++coords[d] < gridSize[d]) break;
+      coords[d] = 0;
+    }
+  }
+}
+
+/**
+ * Ages after a step, as in the compute shaders: surviving cells age by one
+ * generation (up to MAX_AGE), newborn, dying and dead cells are 0
+ */
+export function stepAges(
+  before: Uint8Array,
+  after: Uint8Array,
+  ages: Uint8Array,
+  nextAges: Uint8Array
+): void {
+  for (let i = 0; i < after.length; i++) {
+    nextAges[i] = after[i] === 1 && before[i] === 1 ? Math.min(ages[i] + 1, MAX_AGE) : 0;
+  }
+}
+
+/**
+ * Accumulate activity as in activity-nd.wgsl: heat decays by `decay` and
+ * grows by 1 for every cell whose state changed
+ */
+export function stepActivity(
+  before: Uint8Array,
+  after: Uint8Array,
+  heat: Float32Array,
+  decay: number
+): void {
+  for (let i = 0; i < after.length; i++) {
+    heat[i] = heat[i] * decay + (before[i] !== after[i] ? 1 : 0);
+  }
+}
+
+/**
+ * Population, births, deaths and bounding box of unpacked cells, mirroring
+ * stats-nd.wgsl. Without a previous generation births and deaths are 0.
+ */
+export function computeStats(
+  current: Uint8Array,
+  previous: Uint8Array | null,
+  gridSize: readonly number[]
+): SimulationStats {
+  const dimensions = gridSize.length;
+  const min = new Array<number>(dimensions).fill(Infinity);
+  const max = new Array<number>(dimensions).fill(-1);
+  const coords = new Array<number>(dimensions).fill(0);
+  let population = 0;
+  let births = 0;
+  let deaths = 0;
+
+  for (let index = 0; index < current.length; index++) {
+    const before = previous ? previous[index] : current[index];
+    if (current[index] === 1) {
+      population++;
+      if (before !== 1) births++;
+      for (let d = 0; d < dimensions; d++) {
+        min[d] = Math.min(min[d], coords[d]);
+        max[d] = Math.max(max[d], coords[d]);
+      }
+    } else if (before === 1) {
+      deaths++;
+    }
+
+    // Advance coordinates (x fastest)
+    for (let d = 0; d < dimensions; d++) {
+      if (++coords[d] < gridSize[d]) break;
+      coords[d] = 0;
+    }
+  }
+
+  return { population, births, deaths, bounds: population > 0 ? { min, max } : null };
+}
+
+export class CPUSimulation implements SimulationEngine {
+  readonly dimensions: number;
+  private gridSize: number[];
+  private rules: SimulationRules;
+  private soup: SoupParams;
+  private boundaries: AxisBoundary[];
+
+  // Unpacked for speed; states are packed on the way out
+  private current: Uint8Array;
+  private next: Uint8Array;
+  private ages: Uint8Array;
+  private nextAges: Uint8Array;
+  /** Accumulated activity, null while the heatmap is off */
+  private heat: Float32Array | null = null;
+  private activityDecay = 1;
+  private gridDataSize: number;
+  /** Whether `next` holds the generation before `current` */
+  private hasPrevious = false;
+  private history = new HistoryRing();
+  /** Recorded generations, indexed by history slot */
+  private snapshots: Uint8Array[] = [];
+  private historyBudget = DEFAULT_HISTORY_BUDGET;
+  /** Hashes not yet taken, null while hashing is off */
+  private stateHashes: StateHash[] | null = null;
+  private hashesRestarted = false;
+
+  constructor(config: SimulationConfig) {
+    const { rules, soup, boundaries } = resolveConfig(config);
+    this.gridSize = [...config.gridSize];
+    this.dimensions = this.gridSize.length;
+    this.rules = rules;
+    this.soup = soup;
+    this.boundaries = boundaries;
+
+    this.gridDataSize = getCellCount(this.gridSize);
+    this.current = new Uint8Array(this.gridDataSize);
+    this.next = new Uint8Array(this.gridDataSize);
+    this.ages = new Uint8Array(this.gridDataSize);
+    this.nextAges = new Uint8Array(this.gridDataSize);
+  }
+
+  async init(initialState?: PackedCells): Promise<void> {
+    this.reset(initialState);
+  }
+
+  step(): void {
+    this.history.truncate();
+    stepCells(this.current, this.next, this.gridSize, this.rules, this.boundaries);
+    stepAges(this.current, this.next, this.ages, this.nextAges);
+    if (this.heat) {
+      stepActivity(this.current, this.next, this.heat, this.activityDecay);
+    }
+
+    // Swap buffers
+    [this.current, this.next] = [this.next, this.current];
+    [this.ages, this.nextAges] = [this.nextAges, this.ages];
+    this.hasPrevious = true;
+    this.recordHistory();
+    this.recordStateHash();
+  }
+
+  /**
+   * Copy the current generation into the history
+   */
+  private recordHistory(): void {
+    if (this.history.capacity === 0) return;
+
+    const slot = this.history.push();
+    if (this.snapshots[slot]) {
+      this.snapshots[slot].set(this.current);
+    } else {
+      this.snapshots[slot] = this.current.slice();
+    }
+  }
+
+  /**
+   * Start a new history holding only the current generation
+   */
+  private restartHistory(): void {
+    // One byte per cell, like the grid itself
+    const capacity = Math.floor(this.historyBudget / this.gridDataSize);
+    if (capacity !== this.history.capacity) {
+      this.snapshots = [];
+    }
+    this.history.clear(capacity);
+    this.recordHistory();
+  }
+
+  stepMany(generations: number): void {
+    for (let i = 0; i < generations; i++) {
+      this.step();
+    }
+  }
+
+  async whenIdle(): Promise<void> {
+    // Steps run synchronously, so there is never pending work
+  }
+
+  async getState(): Promise<PackedCells> {
+    return packCells(this.current, getBitsPerCell(this.rules.states));
+  }
+
+  async getStats(): Promise<SimulationStats> {
+    return computeStats(this.current, this.hasPrevious ? this.next : null, this.gridSize);
+  }
+
+  async getLiveCells(sliceCoords: readonly number[]): Promise<LiveCells> {
+    const viewSize = get3DViewSize(this.gridSize);
+    const start = getSliceStart(this.gridSize, sliceCoords);
+    const end = start + getCellCount(viewSize);
+    return collectLiveCells(
+      this.current.subarray(start, end),
+      this.ages.subarray(start, end),
+      viewSize,
+      this.rules.states,
+      this.heat?.subarray(start, end) ?? null
+    );
+  }
+
+  setActivityTracking(window: ActivityWindow | null): void {
+    if (window === null) {
+      this.heat = null;
+      return;
+    }
+    if (!this.heat) {
+      this.heat = new Float32Array(this.gridDataSize);
+    }
+    this.activityDecay = getActivityDecay(window);
+  }
+
+  /**
+   * Hash the current generation, packed like the GPU engine stores it
+   */
+  private recordStateHash(): void {
+    if (!this.stateHashes) return;
+
+    const packed = packCells(this.current, getBitsPerCell(this.rules.states));
+    const words = accumulateStateHash(packed.data, packed.bitsPerCell, this.gridSize);
+    this.stateHashes.push(decodeStateHash(words, 0, this.gridSize.length));
+    if (this.stateHashes.length > STATE_HASH_CAPACITY) {
+      this.stateHashes.shift();
+    }
+  }
+
+  /**
+   * Start a new hash sequence from the current generation
+   */
+  private restartStateHashes(): void {
+    if (!this.stateHashes) return;
+
+    this.stateHashes = [];
+    this.hashesRestarted = true;
+    this.recordStateHash();
+  }
+
+  setStateHashing(enabled: boolean): void {
+    this.stateHashes = enabled ? [] : null;
+    this.restartStateHashes();
+  }
+
+  async takeStateHashes(): Promise<StateHashes> {
+    const taken = { restarted: this.hashesRestarted, hashes: this.stateHashes ?? [] };
+    this.hashesRestarted = false;
+    if (this.stateHashes) {
+      this.stateHashes = [];
+    }
+    return taken;
+  }
+
+  setHistoryBudget(bytes: number): void {
+    this.historyBudget = bytes;
+    this.restartHistory();
+  }
+
+  getHistoryLength(): number {
+    return this.history.length;
+  }
+
+  getHistoryPosition(): number {
+    return this.history.position;
+  }
+
+  seekHistory(position: number): void {
+    this.current.set(this.snapshots[this.history.seek(position)]);
+    this.ages.fill(0);
+    this.hasPrevious = false;
+    this.restartStateHashes();
+  }
+
+  async setCells(edits: readonly CellEdit[]): Promise<void> {
+    validateCellEdits(edits, this.gridDataSize, this.rules.states);
+    for (const { index, state } of edits) {
+      this.current[index] = state;
+      this.ages[index] = 0;
+    }
+    this.hasPrevious = false;
+    this.rewriteHistory();
+    this.restartStateHashes();
+  }
+
+  /**
+   * Record the edited current generation over its history entry, dropping
+   * the generations after it
+   */
+  private rewriteHistory(): void {
+    if (this.history.length === 0) return;
+
+    this.history.truncate();
+    this.snapshots[this.history.seek(this.history.position)].set(this.current);
+  }
+
+  getGridSize(): number[] {
+    return this.gridSize;
+  }
+
+  getRules(): SimulationRules {
+    return cloneRules(this.rules);
+  }
+
+  updateRules(rules: SimulationRules): void {
+    this.rules = cloneRules(rules);
+
+    // Match the GPU engine, which drops states that no longer fit its cell width
+    const limit = 1 << getBitsPerCell(this.rules.states);
+    for (let i = 0; i < this.current.length; i++) {
+      if (this.current[i] >= limit) {
+        this.current[i] = 0;
+      }
+    }
+    this.restartStateHashes();
+  }
+
+  getBoundaries(): AxisBoundary[] {
+    return this.boundaries.map(boundary => ({ ...boundary }));
+  }
+
+  setBoundaries(boundaries: AxisBoundary[]): void {
+    this.boundaries = resolveBoundaries(boundaries, this.dimensions);
+    this.restartStateHashes();
+  }
+
+  reset(initialState?: PackedCells): void {
+    const initData = initialState ?? createSoup(this.gridSize, this.soup);
+    this.current = unpackCells(initData, 0, this.gridDataSize);
+    this.next = new Uint8Array(this.gridDataSize);
+    this.ages = new Uint8Array(this.gridDataSize);
+    this.nextAges = new Uint8Array(this.gridDataSize);
+    this.heat?.fill(0);
+    this.hasPrevious = false;
+    this.restartHistory();
+    this.restartStateHashes();
+  }
+
+  destroy(): void {
+    this.current = new Uint8Array(0);
+    this.next = new Uint8Array(0);
+    this.ages = new Uint8Array(0);
+    this.nextAges = new Uint8Array(0);
+    this.snapshots = [];
+  }
+}
@@ -34,6 +34,8 @@ export class GPUEngine {
         requiredFeatures: [],
         requiredLimits: {
           maxStorageBufferBindingSize: this.adapter.limits.maxStorageBufferBindingSize,
+          // Large rewind histories live in a single buffer
+          maxBufferSize: this.adapter.limits.maxBufferSize,
           maxComputeWorkgroupSizeX: 256,
           maxComputeWorkgroupSizeY: 256,
           maxComputeWorkgroupSizeZ: 64,
@@ -107,14 +109,14 @@ export class GPUEngine {
     return buffer;
   }
 
-  async readBuffer(buffer: GPUBuffer, size: number): Promise<Uint32Array> {
+  async readBuffer(buffer: GPUBuffer, size: number, offset = 0): Promise<Uint32Array> {
     const readBuffer = this.createBuffer(
       size,
       GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ
     );
 
     const commandEncoder = this.device.createCommandEncoder();
-    commandEncoder.copyBufferToBuffer(buffer, 0, readBuffer, 0, size);
+    commandEncoder.copyBufferToBuffer(buffer, offset, readBuffer, 0, size);
     this.device.queue.submit([commandEncoder.finish()]);
 
     await readBuffer.mapAsync(GPUMapMode.READ);
@@ -0,0 +1,1045 @@
+/**
+ * N-dimensional Game of Life Engine using WebGPU compute shaders
+ * A single parameterized shader runs 2D, 3D, 4D and 5D grids, with a
+ * shared-memory tiled variant used whenever the neighborhood's halo fits
+ */
+
+import { GPUEngine } from './GPUEngine';
+import {
+  ActivityWindow,
+  CellEdit,
+  SimulationConfig,
+  SimulationEngine,
+  SimulationRules,
+  SimulationStats,
+  getActivityDecay,
+  getMaxNeighbors,
+  resolveConfig,
+  validateCellEdits,
+} from './SimulationEngine';
+import { cloneRules, getRuleMaskWords, rulesToMasks } from './rules';
+import { getNeighborOffsets, getNeighborhoodReach } from './neighborhoods';
+import { AxisBoundary, BOUNDARY_CODES, resolveBoundaries } from './boundaries';
+import { DEFAULT_HISTORY_BUDGET, HistoryRing } from './history';
+import { get3DViewSize, getCellCount, getSliceStart } from '../utils/grid';
+import {
+  PackedCells,
+  getBitsPerCell,
+  getCellsPerWord,
+  getPackedWordCount,
+  repackCells,
+  setPackedCell,
+} from '../utils/packing';
+import { LIVE_CELL_STRIDE, LiveCells, MAX_LIVE_CELLS, MIN_HEAT } from '../utils/liveCells';
+import { SoupParams, createSoup } from '../utils/soup';
+import { STATE_HASH_CAPACITY, STATE_HASH_WORDS, StateHash, StateHashes, decodeStateHash } from '../utils/stateHash';
+import computeShader from '../shaders/compute-nd.wgsl?raw';
+import tiledComputeShader from '../shaders/compute-nd-tiled.wgsl?raw';
+import statsShader from '../shaders/stats-nd.wgsl?raw';
+import compactShader from '../shaders/compact-nd.wgsl?raw';
+import activityShader from '../shaders/activity-nd.wgsl?raw';
+import hashShader from '../shaders/hash-nd.wgsl?raw';
+
+const WORKGROUP_SIZE = 64;
+const MAX_WORKGROUPS_PER_DIMENSION = 65535;
+/** Workgroup memory of the tiled kernel, in cells (MAX_TILE_CELLS in the shader) */
+const MAX_TILE_CELLS = 4096;
+/** Largest dimension the shaders handle (MAX_DIMENSIONS in the shaders) */
+const MAX_DIMENSIONS = 5;
+/** Stats struct of stats-nd.wgsl: population, births, deaths, min and max per axis */
+const STATS_WORDS = 3 + 2 * MAX_DIMENSIONS;
+
+/**
+ * 'tiled' counts neighbors from a haloed tile in workgroup memory, 'direct'
+ * reads every neighbor from the grid buffer. 'auto' (the default) picks the
+ * tiled kernel whenever the halo fits.
+ */
+export type GPUKernel = 'auto' | 'tiled' | 'direct';
+
+export interface GPUSimulationConfig extends SimulationConfig {
+  kernel?: GPUKernel;
+}
+
+/**
+ * Tile extents for the tiled kernel: WORKGROUP_SIZE cells split by repeated
+ * halving across the axes (8x8 in 2D, 4x4x4 in 3D, 4x4x2x2 in 4D). Returns
+ * null when the tile plus its halo does not fit in workgroup memory.
+ */
+function chooseTileSize(gridSize: readonly number[], halo: number): number[] | null {
+  const tile = gridSize.map(() => 1);
+  let cells = 1;
+  for (let d = 0; cells < WORKGROUP_SIZE; d = (d + 1) % gridSize.length) {
+    tile[d] *= 2;
+    cells *= 2;
+  }
+
+  const haloCells = tile.reduce((total, size) => total * (size + 2 * halo), 1);
+  return haloCells <= MAX_TILE_CELLS ? tile : null;
+}
+
+/**
+ * Initial contents of the stats buffer: zero counts, and an empty bounding
+ * box (lowest coordinate at the u32 maximum) for the atomics to shrink
+ */
+function createStatsResetData(): ArrayBuffer {
+  const data = new ArrayBuffer(STATS_WORDS * 4);
+  new Uint32Array(data).fill(0xffffffff, 3, 3 + MAX_DIMENSIONS);
+  return data;
+}
+
+export class GPUSimulation implements SimulationEngine {
+  readonly dimensions: number;
+  private engine: GPUEngine;
+  private gridSize: number[];
+  private rules: SimulationRules;
+  private soup: SoupParams;
+  private boundaries: AxisBoundary[];
+
+  private bufferA: GPUBuffer | null = null;
+  private bufferB: GPUBuffer | null = null;
+  /** Cell ages, one byte per cell, ping-ponged with bufferA/bufferB */
+  private ageBufferA: GPUBuffer | null = null;
+  private ageBufferB: GPUBuffer | null = null;
+  private uniformBuffer: GPUBuffer | null = null;
+  private ruleBuffer: GPUBuffer | null = null;
+  private offsetBuffer: GPUBuffer | null = null;
+  private statsBuffer: GPUBuffer | null = null;
+  /** Live-cell count followed by the compacted entries */
+  private liveCellBuffer: GPUBuffer | null = null;
+  private sliceParamsBuffer: GPUBuffer | null = null;
+  /** Accumulated activity, one f32 per cell, null while the heatmap is off */
+  private heatBuffer: GPUBuffer | null = null;
+  /** Bound in place of heatBuffer while the heatmap is off */
+  private heatPlaceholder: GPUBuffer | null = null;
+  private activityParamsBuffer: GPUBuffer | null = null;
+  /** Hash words of one generation (see STATE_HASH_WORDS), cleared before each hash pass */
+  private hashAccumulator: GPUBuffer | null = null;
+  /** The last STATE_HASH_CAPACITY hashes, null while hashing is off */
+  private hashRing: GPUBuffer | null = null;
+
+  private computePipeline: GPUComputePipeline | null = null;
+  private tiledPipeline: GPUComputePipeline | null = null;
+  private repackPipeline: GPUComputePipeline | null = null;
+  private statsPipeline: GPUComputePipeline | null = null;
+  private compactPipeline: GPUComputePipeline | null = null;
+  private activityPipeline: GPUComputePipeline | null = null;
+  private hashPipeline: GPUComputePipeline | null = null;
+  private bindGroupA: GPUBindGroup | null = null;
+  private bindGroupB: GPUBindGroup | null = null;
+  /** Activity pass after a step from A to B (and from B to A) */
+  private activityBindGroupA: GPUBindGroup | null = null;
+  private activityBindGroupB: GPUBindGroup | null = null;
+  private activityWindow: ActivityWindow | null = null;
+  /** Hash pass over grid A (and B) */
+  private hashBindGroupA: GPUBindGroup | null = null;
+  private hashBindGroupB: GPUBindGroup | null = null;
+  private stateHashing = false;
+  /** Hashes stored since hashing (re)started, and how many of them are not yet taken */
+  private hashesWritten = 0;
+  private hashesPending = 0;
+  private hashesRestarted = false;
+
+  private currentBuffer: 'A' | 'B' = 'A';
+  /** Whether the other ping-pong buffer holds the previous generation */
+  private hasPrevious = false;
+  private gridDataSize: number;
+  private maxNeighbors: number;
+  private bitsPerCell: number;
+  private wordCount: number;
+  /** Entries that fit in the live-cell list */
+  private liveCellCapacity: number;
+  /** Pending live-cell read; reads share one list buffer, so they run one at a time */
+  private liveCellsRead: Promise<unknown> = Promise.resolve();
+
+  private history = new HistoryRing();
+  /** Recorded generations, one packed grid per history slot; null while recording is off */
+  private historyBuffer: GPUBuffer | null = null;
+  private historyBudget = DEFAULT_HISTORY_BUDGET;
+
+  private kernel: GPUKernel;
+  /** Tile extents while the tiled kernel is in use, null for the direct kernel */
+  private tileSize: number[] | null = null;
+
+  constructor(engine: GPUEngine, config: GPUSimulationConfig) {
+    const { rules, soup, boundaries } = resolveConfig(config);
+    this.engine = engine;
+    this.gridSize = [...config.gridSize];
+    this.dimensions = this.gridSize.length;
+    this.rules = rules;
+    this.soup = soup;
+    this.boundaries = boundaries;
+
+    this.gridDataSize = getCellCount(this.gridSize);
+    this.maxNeighbors = getMaxNeighbors(this.dimensions, this.rules.neighborhood);
+    this.bitsPerCell = getBitsPerCell(this.rules.states);
+    this.wordCount = getPackedWordCount(this.gridDataSize, this.bitsPerCell);
+    this.liveCellCapacity = Math.min(getCellCount(get3DViewSize(this.gridSize)), MAX_LIVE_CELLS);
+    this.kernel = config.kernel ?? 'auto';
+    this.updateTileSize();
+  }
+
+  /**
+   * Pick the kernel for the current neighborhood
+   */
+  private updateTileSize(): void {
+    const halo = getNeighborhoodReach(this.rules.neighborhood, this.dimensions);
+    this.tileSize = this.kernel === 'direct' ? null : chooseTileSize(this.gridSize, halo);
+
+    if (this.kernel === 'tiled' && !this.tileSize) {
+      console.warn(`Neighborhood reach ${halo} is too large for the tiled kernel, using the direct kernel`);
+    }
+  }
+
+  /** Kernel used by step() */
+  get activeKernel(): 'tiled' | 'direct' {
+    return this.tileSize ? 'tiled' : 'direct';
+  }
+
+  async init(initialState?: PackedCells): Promise<void> {
+    const device = this.engine.device;
+
+    this.uniformBuffer = this.engine.createUniformBuffer(this.createUniformData());
+    this.createRuleBuffers();
+
+    // Create packed storage buffers (double buffering)
+    const initData = this.packInitialState(initialState);
+    this.bufferA = this.engine.createStorageBuffer(this.wordCount * 4, initData);
+    this.bufferB = this.engine.createStorageBuffer(this.wordCount * 4);
+    this.ageBufferA = this.engine.createStorageBuffer(this.ageBufferSize);
+    this.ageBufferB = this.engine.createStorageBuffer(this.ageBufferSize);
+    this.statsBuffer = this.engine.createStorageBuffer(STATS_WORDS * 4);
+    this.liveCellBuffer = this.engine.createStorageBuffer(4 + this.liveCellCapacity * LIVE_CELL_STRIDE * 4);
+    this.sliceParamsBuffer = this.engine.createUniformBuffer(new ArrayBuffer(32));
+    this.heatPlaceholder = this.engine.createStorageBuffer(4);
+    this.activityParamsBuffer = this.engine.createUniformBuffer(new ArrayBuffer(16));
+    this.hashAccumulator = this.engine.createStorageBuffer(STATE_HASH_WORDS * 4);
+
+    // Create compute pipeline specialized for this dimension
+    const shaderModule = device.createShaderModule({
+      code: computeShader,
+    });
+
+    // Both step kernels share one layout, so they can share the bind groups
+    const bindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } },
+        { binding: 2, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 3, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } },
+        { binding: 4, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } },
+        { binding: 5, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } },
+        { binding: 6, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },
+      ],
+    });
+    const layout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
+
+    this.computePipeline = device.createComputePipeline({
+      layout,
+      compute: {
+        module: shaderModule,
+        entryPoint: 'main',
+        constants: {
+          DIMENSIONS: this.dimensions,
+        },
+      },
+    });
+
+    this.tiledPipeline = device.createComputePipeline({
+      layout,
+      compute: {
+        module: device.createShaderModule({ code: tiledComputeShader }),
+        entryPoint: 'main',
+        constants: {
+          DIMENSIONS: this.dimensions,
+        },
+      },
+    });
+
+    this.repackPipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: {
+        module: shaderModule,
+        entryPoint: 'repack',
+      },
+    });
+
+    this.statsPipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: {
+        module: device.createShaderModule({ code: statsShader }),
+        entryPoint: 'main',
+        constants: {
+          DIMENSIONS: this.dimensions,
+        },
+      },
+    });
+
+    this.compactPipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: {
+        module: device.createShaderModule({ code: compactShader }),
+        entryPoint: 'main',
+      },
+    });
+
+    this.activityPipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: {
+        module: device.createShaderModule({ code: activityShader }),
+        entryPoint: 'main',
+      },
+    });
+
+    this.hashPipeline = device.createComputePipeline({
+      layout: 'auto',
+      compute: {
+        module: device.createShaderModule({ code: hashShader }),
+        entryPoint: 'main',
+        constants: {
+          DIMENSIONS: this.dimensions,
+        },
+      },
+    });
+
+    // Tracking may have been requested before init
+    if (this.activityWindow !== null) {
+      this.setActivityTracking(this.activityWindow);
+    }
+
+    this.createBindGroups();
+    this.restartHistory();
+    // As may hashing
+    if (this.stateHashing) {
+      this.setStateHashing(true);
+    }
+  }
+
+  /** Bytes of an age buffer: one byte per cell, rounded up to whole words */
+  private get ageBufferSize(): number {
+    return Math.ceil(this.gridDataSize / 4) * 4;
+  }
+
+  /**
+   * Initial state (or a random soup) packed to the current cell width
+   */
+  private packInitialState(initialState?: PackedCells): Uint32Array {
+    const initData = initialState ?? createSoup(this.gridSize, this.soup);
+    return repackCells(initData, this.gridDataSize, this.bitsPerCell).data;
+  }
+
+  /**
+   * Upload the rule masks and the flattened neighbor offsets. Both change
+   * size with the neighborhood, so they are recreated on every rule update.
+   */
+  private createRuleBuffers(): void {
+    this.ruleBuffer?.destroy();
+    this.offsetBuffer?.destroy();
+
+    const masks = rulesToMasks(this.rules, this.maxNeighbors);
+    this.ruleBuffer = this.engine.createStorageBuffer(masks.byteLength, masks);
+
+    // i32 components in the shader, uploaded through a u32 view of the same bits
+    const offsets = Int32Array.from(getNeighborOffsets(this.rules.neighborhood, this.dimensions).flat());
+    const offsetData = new Uint32Array(offsets.buffer);
+    this.offsetBuffer = this.engine.createStorageBuffer(offsetData.byteLength, offsetData);
+  }
+
+  /**
+   * Create bind groups for ping-pong buffers
+   */
+  private createBindGroups(): void {
+    if (!this.computePipeline || !this.uniformBuffer || !this.bufferA || !this.bufferB ||
+        !this.ageBufferA || !this.ageBufferB || !this.ruleBuffer || !this.offsetBuffer) {
+      throw new Error('GPUSimulation not initialized');
+    }
+
+    const device = this.engine.device;
+    const bindGroupLayout = this.computePipeline.getBindGroupLayout(0);
+
+    this.bindGroupA = device.createBindGroup({
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: this.bufferA } },
+        { binding: 2, resource: { buffer: this.bufferB } },
+        { binding: 3, resource: { buffer: this.ruleBuffer } },
+        { binding: 4, resource: { buffer: this.offsetBuffer } },
+        { binding: 5, resource: { buffer: this.ageBufferA } },
+        { binding: 6, resource: { buffer: this.ageBufferB } },
+      ],
+    });
+
+    this.bindGroupB = device.createBindGroup({
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: this.bufferB } },
+        { binding: 2, resource: { buffer: this.bufferA } },
+        { binding: 3, resource: { buffer: this.ruleBuffer } },
+        { binding: 4, resource: { buffer: this.offsetBuffer } },
+        { binding: 5, resource: { buffer: this.ageBufferB } },
+        { binding: 6, resource: { buffer: this.ageBufferA } },
+      ],
+    });
+
+    this.activityBindGroupA = null;
+    this.activityBindGroupB = null;
+    const { activityPipeline, activityParamsBuffer, heatBuffer, uniformBuffer } = this;
+    if (activityPipeline && activityParamsBuffer && heatBuffer) {
+      const createActivityBindGroup = (previous: GPUBuffer, current: GPUBuffer) => device.createBindGroup({
+        layout: activityPipeline.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: { buffer: uniformBuffer } },
+          { binding: 1, resource: { buffer: previous } },
+          { binding: 2, resource: { buffer: current } },
+          { binding: 3, resource: { buffer: activityParamsBuffer } },
+          { binding: 4, resource: { buffer: heatBuffer } },
+        ],
+      });
+      this.activityBindGroupA = createActivityBindGroup(this.bufferA, this.bufferB);
+      this.activityBindGroupB = createActivityBindGroup(this.bufferB, this.bufferA);
+    }
+
+    const { hashPipeline, hashAccumulator } = this;
+    if (hashPipeline && hashAccumulator) {
+      const createHashBindGroup = (grid: GPUBuffer) => device.createBindGroup({
+        layout: hashPipeline.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: { buffer: uniformBuffer } },
+          { binding: 1, resource: { buffer: grid } },
+          { binding: 2, resource: { buffer: hashAccumulator } },
+        ],
+      });
+      this.hashBindGroupA = createHashBindGroup(this.bufferA);
+      this.hashBindGroupB = createHashBindGroup(this.bufferB);
+    }
+  }
+
+  /**
+   * Uniform layout: gridSize as two vec4<u32> (axes beyond the grid's
+   * dimension are 1), the per-axis boundary codes as two vec4<u32> (flip
+   * axis << 8 | mode), then cellCount, the words per rule mask, the
+   * Generations state count, the number of neighbor offsets, the cell width,
+   * the source cell width for the repack pass and the packed word count.
+   * The tiled kernel also reads the halo width, the tile extents and the
+   * tile counts per axis (two vec4<u32> each).
+   */
+  private createUniformData(sourceBits = this.bitsPerCell): ArrayBuffer {
+    const uniformData = new ArrayBuffer(160); // 40 * 4 bytes
+    const uniformView = new Uint32Array(uniformData);
+    for (let d = 0; d < 8; d++) {
+      uniformView[d] = this.gridSize[d] ?? 1;
+    }
+    this.boundaries.forEach((boundary, d) => {
+      uniformView[8 + d] = ((boundary.flipAxis ?? 0) << 8) | BOUNDARY_CODES[boundary.mode];
+    });
+    uniformView[16] = this.gridDataSize;
+    uniformView[17] = getRuleMaskWords(this.maxNeighbors);
+    uniformView[18] = this.rules.states;
+    uniformView[19] = this.maxNeighbors;
+    uniformView[20] = this.bitsPerCell;
+    uniformView[21] = sourceBits;
+    uniformView[22] = this.wordCount;
+    if (this.tileSize) {
+      uniformView[23] = getNeighborhoodReach(this.rules.neighborhood, this.dimensions);
+      for (let d = 0; d < 8; d++) {
+        const tile = this.tileSize[d] ?? 1;
+        uniformView[24 + d] = tile;
+        uniformView[32 + d] = Math.ceil((this.gridSize[d] ?? 1) / tile);
+      }
+    }
+    return uniformData;
+  }
+
+  /**
+   * Dispatch one workgroup per tile, spilling into Y when X runs out
+   */
+  private dispatchTiles(passEncoder: GPUComputePassEncoder, tileSize: number[]): void {
+    const tiles = this.gridSize.reduce((total, size, d) => total * Math.ceil(size / tileSize[d]), 1);
+    const workgroupsX = Math.min(tiles, MAX_WORKGROUPS_PER_DIMENSION);
+    const workgroupsY = Math.ceil(tiles / workgroupsX);
+    passEncoder.dispatchWorkgroups(workgroupsX, workgroupsY);
+  }
+
+  /**
+   * Dispatch one invocation per packed word, spilling into Y when X runs out
+   */
+  private dispatchWords(passEncoder: GPUComputePassEncoder, words = this.wordCount): void {
+    const workgroups = Math.ceil(words / WORKGROUP_SIZE);
+    const workgroupsX = Math.min(workgroups, MAX_WORKGROUPS_PER_DIMENSION);
+    const workgroupsY = Math.ceil(workgroups / workgroupsX);
+    passEncoder.dispatchWorkgroups(workgroupsX, workgroupsY);
+  }
+
+  step(): void {
+    this.stepMany(1);
+  }
+
+  /**
+   * Encode `generations` ping-pong passes into a single command buffer, so a
+   * batch costs one submission instead of one per generation
+   */
+  stepMany(generations: number): void {
+    if (!this.computePipeline || !this.tiledPipeline || !this.bindGroupA || !this.bindGroupB ||
+        !this.bufferA || !this.bufferB || !this.ageBufferA || !this.ageBufferB) {
+      throw new Error('GPUSimulation not initialized');
+    }
+    if (generations < 1) {
+      return;
+    }
+
+    const device = this.engine.device;
+    const commandEncoder = device.createCommandEncoder();
+    // Only the last `capacity` generations of the batch can stay in the history
+    const recordFrom = generations - this.history.capacity;
+    this.history.truncate();
+
+    for (let i = 0; i < generations; i++) {
+      // The tiled kernel ORs live cells and ages into the output, so it starts from zero
+      if (this.tileSize) {
+        commandEncoder.clearBuffer(this.currentBuffer === 'A' ? this.bufferB : this.bufferA);
+        commandEncoder.clearBuffer(this.currentBuffer === 'A' ? this.ageBufferB : this.ageBufferA);
+      }
+      if (this.hashRing && this.hashAccumulator) {
+        commandEncoder.clearBuffer(this.hashAccumulator);
+      }
+
+      const passEncoder = commandEncoder.beginComputePass();
+
+      passEncoder.setPipeline(this.tileSize ? this.tiledPipeline : this.computePipeline);
+
+      // Use the appropriate bind group based on current buffer
+      const bindGroup = this.currentBuffer === 'A' ? this.bindGroupA : this.bindGroupB;
+      passEncoder.setBindGroup(0, bindGroup);
+
+      if (this.tileSize) {
+        this.dispatchTiles(passEncoder, this.tileSize);
+      } else {
+        this.dispatchWords(passEncoder);
+      }
+
+      // Accumulate the heatmap from the generation just written
+      const activityBindGroup = this.currentBuffer === 'A' ? this.activityBindGroupA : this.activityBindGroupB;
+      if (this.activityPipeline && activityBindGroup) {
+        passEncoder.setPipeline(this.activityPipeline);
+        passEncoder.setBindGroup(0, activityBindGroup);
+        this.dispatchWords(passEncoder);
+      }
+
+      // Hash the generation just written
+      const hashBindGroup = this.currentBuffer === 'A' ? this.hashBindGroupB : this.hashBindGroupA;
+      if (this.hashRing && this.hashPipeline && hashBindGroup) {
+        passEncoder.setPipeline(this.hashPipeline);
+        passEncoder.setBindGroup(0, hashBindGroup);
+        this.dispatchWords(passEncoder);
+      }
+
+      passEncoder.end();
+
+      // Swap buffers
+      this.currentBuffer = this.currentBuffer === 'A' ? 'B' : 'A';
+      this.storeStateHash(commandEncoder);
+
+      if (i >= recordFrom) {
+        this.recordHistory(commandEncoder);
+      }
+    }
+    this.hasPrevious = true;
+
+    device.queue.submit([commandEncoder.finish()]);
+  }
+
+  /** Bytes of one recorded generation */
+  private get snapshotSize(): number {
+    return this.wordCount * 4;
+  }
+
+  /**
+   * Copy the current generation into the history
+   */
+  private recordHistory(commandEncoder: GPUCommandEncoder): void {
+    if (!this.historyBuffer) return;
+
+    const slot = this.history.push();
+    commandEncoder.copyBufferToBuffer(
+      this.getCurrentBuffer(), 0, this.historyBuffer, slot * this.snapshotSize, this.snapshotSize
+    );
+  }
+
+  /**
+   * Start a new history holding only the current generation, sized to the
+   * budget (and to the largest buffer the device allows)
+   */
+  private restartHistory(): void {
+    if (!this.bufferA) {
+      // Started by init()
+      return;
+    }
+
+    const device = this.engine.device;
+    const budget = Math.min(this.historyBudget, device.limits.maxBufferSize);
+    const capacity = Math.floor(budget / this.snapshotSize);
+    const size = capacity * this.snapshotSize;
+    if (this.historyBuffer?.size !== size) {
+      this.historyBuffer?.destroy();
+      this.historyBuffer = size > 0
+        ? this.engine.createBuffer(size, GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST)
+        : null;
+    }
+
+    this.history.clear(capacity);
+    const commandEncoder = device.createCommandEncoder();
+    this.recordHistory(commandEncoder);
+    device.queue.submit([commandEncoder.finish()]);
+  }
+
+  /**
+   * Move the hash accumulated for the current generation into the ring
+   */
+  private storeStateHash(commandEncoder: GPUCommandEncoder): void {
+    if (!this.hashRing || !this.hashAccumulator) return;
+
+    const slotSize = STATE_HASH_WORDS * 4;
+    const slot = this.hashesWritten % STATE_HASH_CAPACITY;
+    commandEncoder.copyBufferToBuffer(this.hashAccumulator, 0, this.hashRing, slot * slotSize, slotSize);
+    this.hashesWritten++;
+    this.hashesPending++;
+  }
+
+  /**
+   * Start a new hash sequence from the current generation
+   */
+  private restartStateHashes(): void {
+    const hashBindGroup = this.currentBuffer === 'A' ? this.hashBindGroupA : this.hashBindGroupB;
+    if (!this.hashRing || !this.hashAccumulator || !this.hashPipeline || !hashBindGroup) return;
+
+    this.hashesWritten = 0;
+    this.hashesPending = 0;
+    this.hashesRestarted = true;
+
+    const commandEncoder = this.engine.device.createCommandEncoder();
+    commandEncoder.clearBuffer(this.hashAccumulator);
+    const passEncoder = commandEncoder.beginComputePass();
+    passEncoder.setPipeline(this.hashPipeline);
+    passEncoder.setBindGroup(0, hashBindGroup);
+    this.dispatchWords(passEncoder);
+    passEncoder.end();
+    this.storeStateHash(commandEncoder);
+    this.engine.device.queue.submit([commandEncoder.finish()]);
+  }
+
+  setStateHashing(enabled: boolean): void {
+    this.stateHashing = enabled;
+    if (!this.hashAccumulator) {
+      // Applied by init()
+      return;
+    }
+
+    if (enabled) {
+      if (!this.hashRing) {
+        this.hashRing = this.engine.createStorageBuffer(STATE_HASH_CAPACITY * STATE_HASH_WORDS * 4);
+      }
+      this.restartStateHashes();
+    } else {
+      this.hashRing?.destroy();
+      this.hashRing = null;
+      this.hashesPending = 0;
+    }
+  }
+
+  async takeStateHashes(): Promise<StateHashes> {
+    const restarted = this.hashesRestarted;
+    const count = Math.min(this.hashesPending, STATE_HASH_CAPACITY);
+    const end = this.hashesWritten;
+    this.hashesRestarted = false;
+    this.hashesPending = 0;
+    if (!this.hashRing || count === 0) {
+      return { restarted, hashes: [] };
+    }
+
+    // Submitted in order, so the copy sees every hash counted above
+    const data = await this.engine.readBuffer(this.hashRing, STATE_HASH_CAPACITY * STATE_HASH_WORDS * 4);
+    const hashes: StateHash[] = [];
+    for (let i = end - count; i < end; i++) {
+      hashes.push(decodeStateHash(data, (i % STATE_HASH_CAPACITY) * STATE_HASH_WORDS, this.dimensions));
+    }
+    return { restarted, hashes };
+  }
+
+  setHistoryBudget(bytes: number): void {
+    this.historyBudget = bytes;
+    this.restartHistory();
+  }
+
+  getHistoryLength(): number {
+    return this.history.length;
+  }
+
+  getHistoryPosition(): number {
+    return this.history.position;
+  }
+
+  seekHistory(position: number): void {
+    const slot = this.history.seek(position);
+    if (!this.historyBuffer || !this.ageBufferA || !this.ageBufferB) {
+      throw new Error('GPUSimulation not initialized');
+    }
+
+    const commandEncoder = this.engine.device.createCommandEncoder();
+    commandEncoder.copyBufferToBuffer(
+      this.historyBuffer, slot * this.snapshotSize, this.getCurrentBuffer(), 0, this.snapshotSize
+    );
+    // Ages are not recorded
+    commandEncoder.clearBuffer(this.ageBufferA);
+    commandEncoder.clearBuffer(this.ageBufferB);
+    this.engine.device.queue.submit([commandEncoder.finish()]);
+    this.hasPrevious = false;
+    this.restartStateHashes();
+  }
+
+  async whenIdle(): Promise<void> {
+    await this.engine.device.queue.onSubmittedWorkDone();
+  }
+
+  async setCells(edits: readonly CellEdit[]): Promise<void> {
+    validateCellEdits(edits, this.gridDataSize, this.rules.states);
+    if (edits.length === 0) return;
+
+    // Cells share words, so the span of words the edits touch is read back,
+    // patched and uploaded again in one piece, along with the ages of the
+    // edited cells, which start over
+    let first = edits[0].index;
+    let last = first;
+    for (const { index } of edits) {
+      first = Math.min(first, index);
+      last = Math.max(last, index);
+    }
+    const cellsPerWord = getCellsPerWord(this.bitsPerCell);
+    const firstWord = Math.floor(first / cellsPerWord);
+    const firstAgeWord = Math.floor(first / 4);
+    const buffer = this.getCurrentBuffer();
+    const ageBuffer = this.getCurrentAgeBuffer();
+    const [cellWords, ageWords] = await Promise.all([
+      this.engine.readBuffer(buffer, (Math.floor(last / cellsPerWord) + 1 - firstWord) * 4, firstWord * 4),
+      this.engine.readBuffer(ageBuffer, (Math.floor(last / 4) + 1 - firstAgeWord) * 4, firstAgeWord * 4),
+    ]);
+
+    const cells = { bitsPerCell: this.bitsPerCell, data: new Uint32Array(cellWords) };
+    const ages = new Uint8Array(ageWords.buffer);
+    for (const { index, state } of edits) {
+      setPackedCell(cells, index - firstWord * cellsPerWord, state);
+      // One byte per cell
+      ages[index - firstAgeWord * 4] = 0;
+    }
+    this.engine.device.queue.writeBuffer(buffer, firstWord * 4, cells.data);
+    this.engine.device.queue.writeBuffer(ageBuffer, firstAgeWord * 4, new Uint32Array(ageWords));
+
+    this.hasPrevious = false;
+    this.rewriteHistory();
+    this.restartStateHashes();
+  }
+
+  /**
+   * Record the edited current generation over its history entry, dropping
+   * the generations after it
+   */
+  private rewriteHistory(): void {
+    if (!this.historyBuffer || this.history.length === 0) return;
+
+    this.history.truncate();
+    const slot = this.history.seek(this.history.position);
+    const commandEncoder = this.engine.device.createCommandEncoder();
+    commandEncoder.copyBufferToBuffer(
+      this.getCurrentBuffer(), 0, this.historyBuffer, slot * this.snapshotSize, this.snapshotSize
+    );
+    this.engine.device.queue.submit([commandEncoder.finish()]);
+  }
+
+  async getState(): Promise<PackedCells> {
+    const bitsPerCell = this.bitsPerCell;
+    const data = await this.engine.readBuffer(this.getCurrentBuffer(), this.wordCount * 4);
+    return { bitsPerCell, data };
+  }
+
+  /**
+   * Reduce the grid on the GPU and read back only the small stats buffer
+   */
+  async getStats(): Promise<SimulationStats> {
+    if (!this.statsPipeline || !this.statsBuffer || !this.uniformBuffer || !this.bufferA || !this.bufferB) {
+      throw new Error('GPUSimulation not initialized');
+    }
+
+    const device = this.engine.device;
+    const current = this.getCurrentBuffer();
+    const previous = this.hasPrevious ? (this.currentBuffer === 'A' ? this.bufferB : this.bufferA) : current;
+
+    device.queue.writeBuffer(this.statsBuffer, 0, createStatsResetData());
+    const bindGroup = device.createBindGroup({
+      layout: this.statsPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: current } },
+        { binding: 2, resource: { buffer: previous } },
+        { binding: 3, resource: { buffer: this.statsBuffer } },
+      ],
+    });
+
+    const commandEncoder = device.createCommandEncoder();
+    const passEncoder = commandEncoder.beginComputePass();
+    passEncoder.setPipeline(this.statsPipeline);
+    passEncoder.setBindGroup(0, bindGroup);
+    this.dispatchWords(passEncoder);
+    passEncoder.end();
+    device.queue.submit([commandEncoder.finish()]);
+
+    // Submitted in order, so the copy sees this pass's results
+    const data = await this.engine.readBuffer(this.statsBuffer, STATS_WORDS * 4);
+    const population = data[0];
+    const min = Array.from(data.subarray(3, 3 + this.dimensions));
+    const max = Array.from(data.subarray(3 + MAX_DIMENSIONS, 3 + MAX_DIMENSIONS + this.dimensions));
+    return {
+      population,
+      births: data[1],
+      deaths: data[2],
+      bounds: population > 0 ? { min, max } : null,
+    };
+  }
+
+  getLiveCells(sliceCoords: readonly number[]): Promise<LiveCells> {
+    const read = this.liveCellsRead.then(() => this.readLiveCells(sliceCoords));
+    this.liveCellsRead = read.catch(() => undefined);
+    return read;
+  }
+
+  /**
+   * Compact the slice's non-dead cells on the GPU, then read back the count
+   * and only the entries in use
+   */
+  private async readLiveCells(sliceCoords: readonly number[]): Promise<LiveCells> {
+    if (!this.compactPipeline || !this.liveCellBuffer || !this.sliceParamsBuffer || !this.uniformBuffer ||
+        !this.heatPlaceholder) {
+      throw new Error('GPUSimulation not initialized');
+    }
+
+    const device = this.engine.device;
+    const sliceCells = getCellCount(get3DViewSize(this.gridSize));
+    const sliceStart = getSliceStart(this.gridSize, sliceCoords);
+    // The slice need not start on a word boundary
+    const cellsPerWord = getCellsPerWord(this.bitsPerCell);
+    const firstWord = Math.floor(sliceStart / cellsPerWord);
+    const lastWord = Math.floor((sliceStart + sliceCells - 1) / cellsPerWord);
+
+    // sliceStart, sliceCells, capacity, heatTracked (u32), then minHeat (f32)
+    const params = new ArrayBuffer(32);
+    new Uint32Array(params, 0, 4).set([sliceStart, sliceCells, this.liveCellCapacity, this.heatBuffer ? 1 : 0]);
+    new Float32Array(params, 16, 1)[0] = MIN_HEAT;
+    device.queue.writeBuffer(this.sliceParamsBuffer, 0, params);
+    // Reset the counter
+    device.queue.writeBuffer(this.liveCellBuffer, 0, new Uint32Array(1));
+
+    const bindGroup = device.createBindGroup({
+      layout: this.compactPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: this.getCurrentBuffer() } },
+        { binding: 2, resource: { buffer: this.sliceParamsBuffer } },
+        { binding: 3, resource: { buffer: this.liveCellBuffer } },
+        { binding: 4, resource: { buffer: this.getCurrentAgeBuffer() } },
+        { binding: 5, resource: { buffer: this.heatBuffer ?? this.heatPlaceholder } },
+      ],
+    });
+
+    const commandEncoder = device.createCommandEncoder();
+    const passEncoder = commandEncoder.beginComputePass();
+    passEncoder.setPipeline(this.compactPipeline);
+    passEncoder.setBindGroup(0, bindGroup);
+    this.dispatchWords(passEncoder, lastWord - firstWord + 1);
+    passEncoder.end();
+    device.queue.submit([commandEncoder.finish()]);
+
+    const [total] = await this.engine.readBuffer(this.liveCellBuffer, 4);
+    const count = Math.min(total, this.liveCellCapacity);
+    const list = await this.engine.readBuffer(this.liveCellBuffer, 4 + count * LIVE_CELL_STRIDE * 4);
+    return { count, data: new Float32Array(list.buffer, 4, count * LIVE_CELL_STRIDE) };
+  }
+
+  setActivityTracking(window: ActivityWindow | null): void {
+    this.activityWindow = window;
+    if (!this.activityParamsBuffer) {
+      // Applied by init()
+      return;
+    }
+
+    if (window === null) {
+      this.heatBuffer?.destroy();
+      this.heatBuffer = null;
+    } else {
+      if (!this.heatBuffer) {
+        this.heatBuffer = this.engine.createStorageBuffer(this.gridDataSize * 4);
+      }
+      this.engine.device.queue.writeBuffer(
+        this.activityParamsBuffer, 0, new Float32Array([getActivityDecay(window), 0, 0, 0])
+      );
+    }
+    this.createBindGroups();
+  }
+
+  /**
+   * Buffer holding the latest generation
+   */
+  getCurrentBuffer(): GPUBuffer {
+    const buffer = this.currentBuffer === 'A' ? this.bufferA : this.bufferB;
+    if (!buffer) {
+      throw new Error('Buffers not initialized');
+    }
+    return buffer;
+  }
+
+  /**
+   * Age buffer matching getCurrentBuffer()
+   */
+  private getCurrentAgeBuffer(): GPUBuffer {
+    const buffer = this.currentBuffer === 'A' ? this.ageBufferA : this.ageBufferB;
+    if (!buffer) {
+      throw new Error('Buffers not initialized');
+    }
+    return buffer;
+  }
+
+  getGridSize(): number[] {
+    return this.gridSize;
+  }
+
+  getRules(): SimulationRules {
+    return cloneRules(this.rules);
+  }
+
+  updateRules(rules: SimulationRules): void {
+    this.rules = cloneRules(rules);
+    this.maxNeighbors = getMaxNeighbors(this.dimensions, this.rules.neighborhood);
+    this.updateTileSize();
+
+    const bitsPerCell = getBitsPerCell(this.rules.states);
+    if (bitsPerCell !== this.bitsPerCell) {
+      this.repackGrid(bitsPerCell);
+    }
+
+    if (this.computePipeline) {
+      this.createRuleBuffers();
+      this.createBindGroups();
+    }
+
+    if (this.uniformBuffer) {
+      this.engine.device.queue.writeBuffer(this.uniformBuffer, 0, this.createUniformData());
+    }
+    this.restartStateHashes();
+  }
+
+  getBoundaries(): AxisBoundary[] {
+    return this.boundaries.map(boundary => ({ ...boundary }));
+  }
+
+  setBoundaries(boundaries: AxisBoundary[]): void {
+    this.boundaries = resolveBoundaries(boundaries, this.dimensions);
+
+    if (this.uniformBuffer) {
+      this.engine.device.queue.writeBuffer(this.uniformBuffer, 0, this.createUniformData());
+    }
+    this.restartStateHashes();
+  }
+
+  /**
+   * Switch the grid to a new cell width on the GPU, e.g. when a Generations
+   * rule needs more states than the current packing can hold
+   */
+  private repackGrid(bitsPerCell: number): void {
+    const sourceBits = this.bitsPerCell;
+    this.bitsPerCell = bitsPerCell;
+    this.wordCount = getPackedWordCount(this.gridDataSize, bitsPerCell);
+
+    if (!this.repackPipeline || !this.uniformBuffer || !this.bufferA || !this.bufferB) {
+      return;
+    }
+
+    const device = this.engine.device;
+    const source = this.getCurrentBuffer();
+    const [oldA, oldB] = [this.bufferA, this.bufferB];
+    this.bufferA = this.engine.createStorageBuffer(this.wordCount * 4);
+    this.bufferB = this.engine.createStorageBuffer(this.wordCount * 4);
+
+    device.queue.writeBuffer(this.uniformBuffer, 0, this.createUniformData(sourceBits));
+    const bindGroup = device.createBindGroup({
+      layout: this.repackPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: source } },
+        { binding: 2, resource: { buffer: this.bufferA } },
+      ],
+    });
+
+    const commandEncoder = device.createCommandEncoder();
+    const passEncoder = commandEncoder.beginComputePass();
+    passEncoder.setPipeline(this.repackPipeline);
+    passEncoder.setBindGroup(0, bindGroup);
+    this.dispatchWords(passEncoder);
+    passEncoder.end();
+    // The repacked grid lands in A, so the ages have to follow it there
+    if (this.currentBuffer === 'B' && this.ageBufferA && this.ageBufferB) {
+      commandEncoder.copyBufferToBuffer(this.ageBufferB, 0, this.ageBufferA, 0, this.ageBufferSize);
+    }
+    device.queue.submit([commandEncoder.finish()]);
+
+    // Destruction waits for the submitted pass to finish
+    oldA.destroy();
+    oldB.destroy();
+    this.currentBuffer = 'A';
+    this.hasPrevious = false;
+    // Recorded generations have the old cell width
+    this.restartHistory();
+  }
+
+  reset(initialState?: PackedCells): void {
+    if (this.bufferA && this.bufferB) {
+      // Ensure we have a proper ArrayBuffer (not SharedArrayBuffer)
+      const bufferData = new Uint32Array(this.packInitialState(initialState));
+      this.engine.device.queue.writeBuffer(this.bufferA, 0, bufferData);
+      // Clear buffer B
+      const emptyData = new Uint32Array(this.wordCount);
+      this.engine.device.queue.writeBuffer(this.bufferB, 0, emptyData);
+      // Every cell starts at age 0, and the heatmap starts over
+      const emptyAges = new Uint32Array(this.ageBufferSize / 4);
+      if (this.ageBufferA && this.ageBufferB) {
+        this.engine.device.queue.writeBuffer(this.ageBufferA, 0, emptyAges);
+        this.engine.device.queue.writeBuffer(this.ageBufferB, 0, emptyAges);
+      }
+      if (this.heatBuffer) {
+        const commandEncoder = this.engine.device.createCommandEncoder();
+        commandEncoder.clearBuffer(this.heatBuffer);
+        this.engine.device.queue.submit([commandEncoder.finish()]);
+      }
+      this.currentBuffer = 'A';
+      this.hasPrevious = false;
+      this.restartHistory();
+      this.restartStateHashes();
+    }
+  }
+
+  destroy(): void {
+    this.bufferA?.destroy();
+    this.bufferB?.destroy();
+    this.ageBufferA?.destroy();
+    this.ageBufferB?.destroy();
+    this.uniformBuffer?.destroy();
+    this.ruleBuffer?.destroy();
+    this.offsetBuffer?.destroy();
+    this.statsBuffer?.destroy();
+    this.liveCellBuffer?.destroy();
+    this.sliceParamsBuffer?.destroy();
+    this.heatBuffer?.destroy();
+    this.heatPlaceholder?.destroy();
+    this.activityParamsBuffer?.destroy();
+    this.historyBuffer?.destroy();
+    this.hashAccumulator?.destroy();
+    this.hashRing?.destroy();
+  }
+}
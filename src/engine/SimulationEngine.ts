@@ -0,0 +1,211 @@
+/**
+ * Simulation engine interface shared by the WebGPU and CPU implementations
+ */
+
+import { rulesFromRanges } from './rules';
+import { MOORE_NEIGHBORHOOD, Neighborhood, getNeighborhoodSize } from './neighborhoods';
+import { AxisBoundary, resolveBoundaries } from './boundaries';
+import type { PackedCells } from '../utils/packing';
+import type { LiveCells } from '../utils/liveCells';
+import type { SoupParams } from '../utils/soup';
+import type { StateHashes } from '../utils/stateHash';
+import { randomSeed } from '../utils/random';
+
+export type Dimension = 2 | 3 | 4 | 5;
+
+export const SUPPORTED_DIMENSIONS: Dimension[] = [2, 3, 4, 5];
+
+/**
+ * Outer-totalistic rule: the neighbor counts that give birth to a dead cell
+ * and the counts that keep a live cell alive. With more than two states
+ * (Generations), a live cell that fails survival decays through states
+ * 2..states-1 before it dies; only state 1 counts as a live neighbor.
+ * Counts range from 0 to the size of the neighborhood.
+ */
+export interface SimulationRules {
+  birth: number[];
+  survive: number[];
+  states: number;
+  neighborhood: Neighborhood;
+}
+
+export interface SimulationConfig {
+  gridSize: number[];
+  rules?: SimulationRules;
+  /** Soup rolled on a reset without a state; unset fields use the dimension's defaults */
+  soup?: Partial<SoupParams>;
+  /** Boundary condition per axis, periodic where omitted */
+  boundaries?: AxisBoundary[];
+}
+
+/**
+ * Summary of the latest generation. Births and deaths compare it with the
+ * previous generation and are 0 right after a reset.
+ */
+export interface SimulationStats {
+  /** Live cells (state 1); dying Generations cells are not counted */
+  population: number;
+  /** Cells that came alive in the last step */
+  births: number;
+  /** Cells that stopped being alive in the last step, decaying ones included */
+  deaths: number;
+  /** Inclusive per-axis coordinate range of the live cells, null when none are alive */
+  bounds: { min: number[]; max: number[] } | null;
+}
+
+/**
+ * New state of one cell, by its index in the grid (x fastest)
+ */
+export interface CellEdit {
+  index: number;
+  state: number;
+}
+
+/**
+ * Window of the activity heatmap: 'cumulative' counts every state change
+ * since tracking started (or the last reset); a number N weighs changes
+ * over roughly the last N generations (exponential decay)
+ */
+export type ActivityWindow = 'cumulative' | number;
+
+/**
+ * Per-generation decay of the accumulated activity for a window
+ */
+export function getActivityDecay(window: ActivityWindow): number {
+  return window === 'cumulative' ? 1 : 1 - 1 / Math.max(1, window);
+}
+
+/**
+ * States are exchanged bit-packed (see utils/packing). Initial states may use
+ * any cell width and are repacked to the width the rules need.
+ */
+export interface SimulationEngine {
+  readonly dimensions: number;
+  init(initialState?: PackedCells): Promise<void>;
+  step(): void;
+  /** Advance several generations at once; the GPU engine submits them together */
+  stepMany(generations: number): void;
+  /** Resolves once every submitted step has finished */
+  whenIdle(): Promise<void>;
+  getState(): Promise<PackedCells>;
+  /** Population, births, deaths and bounding box, without reading back the grid */
+  getStats(): Promise<SimulationStats>;
+  /**
+   * Non-dead cells of the 3D slice at the given coordinates of the axes
+   * beyond Z, with their colors, without reading back the grid
+   */
+  getLiveCells(sliceCoords: readonly number[]): Promise<LiveCells>;
+  /**
+   * Start (or, with null, stop) accumulating per-cell activity for the
+   * heatmap. Changing the window keeps the heat gathered so far.
+   */
+  setActivityTracking(window: ActivityWindow | null): void;
+  /**
+   * Keep up to `bytes` of past generations for rewinding; 0 turns recording
+   * off. Drops the generations recorded so far.
+   */
+  setHistoryBudget(bytes: number): void;
+  /** Recorded generations, the current one included */
+  getHistoryLength(): number;
+  /** Position of the current generation in the history, 0 being the oldest */
+  getHistoryPosition(): number;
+  /**
+   * Show the recorded generation at `position`. Cell ages restart from 0,
+   * and stepping on from an earlier position drops the newer generations.
+   */
+  seekHistory(position: number): void;
+  /**
+   * Start (or stop) hashing every generation for cycle detection. Hashing
+   * starts with the current generation.
+   */
+  setStateHashing(enabled: boolean): void;
+  /**
+   * Hashes of the generations stepped since the previous call, at most
+   * STATE_HASH_CAPACITY of them; none while hashing is off
+   */
+  takeStateHashes(): Promise<StateHashes>;
+  /**
+   * Write cells into the current generation, e.g. when drawing by hand.
+   * Edited cells start at age 0 and the others keep theirs. The history
+   * records the edited generation in place of the current one, dropping
+   * newer ones, and hashing starts over from it. Nothing should be stepped
+   * until it resolves.
+   */
+  setCells(edits: readonly CellEdit[]): Promise<void>;
+  getGridSize(): number[];
+  getRules(): SimulationRules;
+  updateRules(rules: SimulationRules): void;
+  getBoundaries(): AxisBoundary[];
+  setBoundaries(boundaries: AxisBoundary[]): void;
+  reset(initialState?: PackedCells): void;
+  destroy(): void;
+}
+
+export const DEFAULT_RULES: Record<Dimension, SimulationRules> = {
+  2: rulesFromRanges(2, 3, 3, 3),
+  3: rulesFromRanges(5, 7, 6, 6),
+  4: rulesFromRanges(7, 10, 6, 9),
+  5: rulesFromRanges(12, 18, 11, 14),
+};
+
+export const DEFAULT_DENSITY: Record<Dimension, number> = {
+  2: 0.3,
+  3: 0.05,
+  4: 0.03,
+  5: 0.02,
+};
+
+/**
+ * Soup filling the whole grid at the dimension's default density, with a fresh seed
+ */
+export function createDefaultSoup(dimensions: Dimension): SoupParams {
+  return { seed: randomSeed(), density: DEFAULT_DENSITY[dimensions], region: 1, symmetry: 'none' };
+}
+
+/**
+ * Largest possible neighbor count for the given dimension, e.g. 3^n - 1 for
+ * the default Moore neighborhood
+ */
+export function getMaxNeighbors(
+  dimensions: number,
+  neighborhood: Neighborhood = MOORE_NEIGHBORHOOD
+): number {
+  return getNeighborhoodSize(neighborhood, dimensions);
+}
+
+export function isSupportedDimension(dimensions: number): dimensions is Dimension {
+  return (SUPPORTED_DIMENSIONS as number[]).includes(dimensions);
+}
+
+/**
+ * Throw unless every edit names a cell of the grid and a state of the rules
+ */
+export function validateCellEdits(edits: readonly CellEdit[], cellCount: number, states: number): void {
+  for (const { index, state } of edits) {
+    if (!Number.isInteger(index) || index < 0 || index >= cellCount) {
+      throw new Error(`Cell ${index} is outside the grid (${cellCount} cells)`);
+    }
+    if (!Number.isInteger(state) || state < 0 || state >= states) {
+      throw new Error(`State ${state} is not one of the rule's ${states} states`);
+    }
+  }
+}
+
+/**
+ * Resolve a config against the per-dimension defaults
+ */
+export function resolveConfig(
+  config: SimulationConfig
+): { rules: SimulationRules; soup: SoupParams; boundaries: AxisBoundary[] } {
+  const dimensions = config.gridSize.length;
+  if (!isSupportedDimension(dimensions)) {
+    throw new Error(`Unsupported dimension: ${dimensions}`);
+  }
+
+  return {
+    rules: config.rules ?? DEFAULT_RULES[dimensions],
+    soup: { ...createDefaultSoup(dimensions), ...config.soup },
+    boundaries: resolveBoundaries(config.boundaries, dimensions),
+  };
+}
+
@@ -0,0 +1,107 @@
+/**
+ * Per-axis boundary conditions
+ *
+ *   periodic    neighbors wrap around to the opposite face (torus)
+ *   dead        cells beyond the face are permanently dead
+ *   reflective  the grid is mirrored at the face
+ *   twisted     wraps like periodic, but crossing the face mirrors another
+ *               axis (Klein bottle for two axes)
+ */
+
+export type BoundaryMode = 'periodic' | 'dead' | 'reflective' | 'twisted';
+
+export const BOUNDARY_MODES: BoundaryMode[] = ['periodic', 'dead', 'reflective', 'twisted'];
+
+export interface AxisBoundary {
+  mode: BoundaryMode;
+  /** Axis mirrored when a neighbor wraps across this one (twisted only) */
+  flipAxis?: number;
+}
+
+/** Numeric mode codes shared with compute-nd.wgsl */
+export const BOUNDARY_CODES: Record<BoundaryMode, number> = {
+  periodic: 0,
+  dead: 1,
+  reflective: 2,
+  twisted: 3,
+};
+
+export function defaultBoundaries(dimensions: number): AxisBoundary[] {
+  return Array.from({ length: dimensions }, () => ({ mode: 'periodic' as BoundaryMode }));
+}
+
+/**
+ * Fill in missing axes with periodic boundaries and default twisted axes to
+ * flipping the next axis. Throws on unknown modes or invalid flip axes.
+ */
+export function resolveBoundaries(
+  boundaries: readonly AxisBoundary[] | undefined,
+  dimensions: number
+): AxisBoundary[] {
+  return Array.from({ length: dimensions }, (_, axis) => {
+    const boundary = boundaries?.[axis] ?? { mode: 'periodic' };
+    if (!BOUNDARY_MODES.includes(boundary.mode)) {
+      throw new Error(`Unknown boundary mode "${boundary.mode}"`);
+    }
+    if (boundary.mode !== 'twisted') {
+      return { mode: boundary.mode };
+    }
+
+    const flipAxis = boundary.flipAxis ?? (axis + 1) % dimensions;
+    if (!Number.isInteger(flipAxis) || flipAxis < 0 || flipAxis >= dimensions || flipAxis === axis) {
+      throw new Error(`Invalid flip axis ${flipAxis} for twisted axis ${axis}`);
+    }
+    return { mode: 'twisted', flipAxis };
+  });
+}
+
+/**
+ * Build a function mapping a cell's coordinates plus a neighbor offset to the
+ * neighbor's index, or -1 when the neighbor lies beyond a dead boundary.
+ * Mirrors countNeighbors in compute-nd.wgsl.
+ */
+export function createNeighborResolver(
+  gridSize: readonly number[],
+  boundaries: readonly AxisBoundary[]
+): (coords: readonly number[], offset: readonly number[]) => number {
+  const dimensions = gridSize.length;
+  const resolved = new Array<number>(dimensions).fill(0);
+  const flips = new Array<boolean>(dimensions).fill(false);
+
+  return (coords, offset) => {
+    flips.fill(false);
+
+    for (let d = 0; d < dimensions; d++) {
+      const size = gridSize[d];
+      const c = coords[d] + offset[d];
+      const boundary = boundaries[d];
+
+      if (c >= 0 && c < size) {
+        resolved[d] = c;
+      } else if (boundary.mode === 'dead') {
+        return -1;
+      } else if (boundary.mode === 'reflective') {
+        const period = 2 * size;
+        const m = ((c % period) + period) % period;
+        resolved[d] = m >= size ? period - 1 - m : m;
+      } else {
+        // Offsets may reach past a whole axis when the radius exceeds its size
+        resolved[d] = ((c % size) + size) % size;
+        // An odd number of wraps mirrors the flip axis
+        if (boundary.mode === 'twisted' && Math.abs((c - resolved[d]) / size) % 2 === 1) {
+          const flipAxis = boundary.flipAxis!;
+          flips[flipAxis] = !flips[flipAxis];
+        }
+      }
+    }
+
+    let index = 0;
+    let stride = 1;
+    for (let d = 0; d < dimensions; d++) {
+      const c = flips[d] ? gridSize[d] - 1 - resolved[d] : resolved[d];
+      index += c * stride;
+      stride *= gridSize[d];
+    }
+    return index;
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { GLIDER_2D } from '../test/helpers';
+import { PatternND } from '../patterns';
+import { identityTransform } from '../patterns/transforms';
+import {
+  CollisionLab,
+  CollisionProduct,
+  CollisionResult,
+  CollisionSettings,
+  countCollisions,
+  formatProducts,
+} from './collisionLab';
+import { GPUEngine } from './GPUEngine';
+import { parseRule } from './rules';
+
+const BLOCK: PatternND = { name: 'Block', description: '', size: [2, 2], cells: [[0, 0], [1, 0], [0, 1], [1, 1]] };
+const GLIDER: PatternND = { name: 'Glider', description: '', size: [3, 3], cells: GLIDER_2D };
+
+function settings(second: PatternND, offsets: [number, number][]): CollisionSettings {
+  return {
+    dimensions: 2,
+    rules: parseRule('B3/S23', 2),
+    first: { pattern: BLOCK, transform: identityTransform(2) },
+    second: { pattern: second, transform: identityTransform(2) },
+    offsets,
+    phases: 1,
+    generations: 64,
+  };
+}
+
+describe('countCollisions', () => {
+  it('multiplies the offsets of every axis by the phases', () => {
+    expect(countCollisions([[0, 2], [-1, 1]], 4)).toBe(36);
+    expect(countCollisions([[0, 2], [1, 0]], 4)).toBe(0);
+  });
+});
+
+describe('formatProducts', () => {
+  it('counts alike products', () => {
+    const block: CollisionProduct = { kind: 'stillLife', period: 1, displacement: [0, 0], signature: 'b', population: 4 };
+    const products: CollisionProduct[] = [
+      block,
+      { kind: 'oscillator', period: 2, displacement: [0, 0], signature: 'o', population: 3 },
+      { kind: 'spaceship', period: 4, displacement: [1, -1], signature: 'g', population: 5 },
+      block,
+      { kind: 'active', population: 12 },
+    ];
+    expect(formatProducts(products)).toBe('2× 4-cell still life, p2 oscillator, c/4 spaceship (1, -1), 12 active cells');
+    expect(formatProducts([])).toBe('nothing');
+  });
+});
+
+describe('CollisionLab', () => {
+  // Without WebGPU the collisions run on the CPU engine
+  const createLab = () => new CollisionLab(new GPUEngine());
+
+  async function sweep(collision: CollisionSettings): Promise<CollisionResult[]> {
+    const results: CollisionResult[] = [];
+    const count = await createLab().run(collision, (result, index) => (results[index] = result));
+    expect(results).toHaveLength(count);
+    return results;
+  }
+
+  it('tells patterns that miss from patterns that react', async () => {
+    // Apart, or close enough for the blocks to grow into each other
+    const [apart] = await sweep(settings(BLOCK, [[8, 8], [0, 0]]));
+    expect(apart.outcome).toBe('noReaction');
+    expect(formatProducts(apart.products)).toBe('2× 4-cell still life');
+
+    const [merged] = await sweep(settings(BLOCK, [[1, 1], [0, 0]]));
+    expect(merged.outcome).not.toBe('noReaction');
+    expect(merged.reaction).not.toBe(apart.reaction);
+  });
+
+  it('runs every offset of a sweep', async () => {
+    // A glider coming down onto the block along four lanes
+    const results = await sweep(settings(GLIDER, [[-3, 0], [-6, -6]]));
+    expect(results.map(result => result.offset)).toEqual([[-3, -6], [-2, -6], [-1, -6], [0, -6]]);
+    expect(results.map(result => result.outcome)).toEqual(['annihilation', 'active', 'stable', 'stable']);
+    expect(formatProducts(results[3].products)).toBe('4-cell still life');
+    for (const result of results) {
+      expect(result.cells).toHaveLength(9);
+    }
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Collision lab: collides two patterns at every relative offset and phase of
+ * a sweep and catalogues what comes out
+ * Both patterns are oriented first (see patterns/transforms.ts); the second
+ * is also advanced through the phases of its period, found exactly (see
+ * recurrence.ts). One engine runs every collision in a wrapping grid with
+ * room around the largest, until the run settles or the generations run
+ * out. The objects left are then told apart by running each on its own:
+ * still lifes, oscillators, spaceships, and ones still changing.
+ */
+
+import { GPUEngine } from './GPUEngine';
+import { Dimension, SimulationEngine, SimulationRules } from './SimulationEngine';
+import { createSimulation } from './createSimulation';
+import { Recurrence, findRecurrence, unwrapCells } from './recurrence';
+import { PatternND, createPatternGridND } from '../patterns';
+import { PatternTransform, transformPattern } from '../patterns/transforms';
+import { labelObjects } from '../utils/components';
+import { CycleDetector, formatSpeed } from '../utils/cycles';
+import { getCellCount, indexToCoords } from '../utils/grid';
+import { PackedCells, countCells, unpackCells } from '../utils/packing';
+import { nextTask } from '../utils/performance';
+
+export type CollisionOutcome = 'noReaction' | 'annihilation' | 'stable' | 'emits' | 'active';
+
+export const COLLISION_OUTCOME_LABELS: Record<CollisionOutcome, string> = {
+  noReaction: 'no reaction',
+  annihilation: 'annihilation',
+  stable: 'stable',
+  emits: 'emits spaceships',
+  active: 'still active',
+};
+
+/** Largest sweep run in one go */
+export const MAX_COLLISIONS = 2000;
+
+/** Most phases of the second pattern a sweep tries */
+export const MAX_COLLISION_PHASES = 16;
+
+/** Longest period the inputs and products are recognized with */
+const MAX_PRODUCT_PERIOD = 16;
+
+/** Generations between state hash reads */
+const COLLISION_BATCH = 16;
+
+/** Empty cells around the largest collision per side, per dimension */
+const COLLISION_MARGINS: Record<Dimension, number> = {
+  2: 24,
+  3: 10,
+  4: 6,
+  5: 4,
+};
+
+export interface CollisionPattern {
+  pattern: PatternND;
+  transform: PatternTransform;
+}
+
+export interface CollisionSettings {
+  dimensions: Dimension;
+  rules: SimulationRules;
+  first: CollisionPattern;
+  second: CollisionPattern;
+  /** Range per axis of the second pattern's lowest corner relative to the first's */
+  offsets: [number, number][];
+  /** Phases of the second pattern tried, from its own generation 0 */
+  phases: number;
+  /** Longest run of a collision */
+  generations: number;
+}
+
+/** What a product is, whatever phase it was found in */
+type Classification =
+  | {
+      kind: 'stillLife' | 'oscillator' | 'spaceship';
+      period: number;
+      /** Offset per period; all zero for still lifes and oscillators */
+      displacement: number[];
+      /** Smallest phase key, the same for every phase */
+      signature: string;
+    }
+  | { kind: 'active' };
+
+export type CollisionProduct = Classification & {
+  /** Live cells when the run ended */
+  population: number;
+};
+
+export interface CollisionResult {
+  /** Offset of the second pattern's lowest corner from the first's */
+  offset: number[];
+  /** Generations the second pattern was advanced by */
+  phase: number;
+  outcome: CollisionOutcome;
+  products: CollisionProduct[];
+  /** Equal for collisions that leave the same products */
+  reaction: string;
+  /** Generation the run became static or periodic, null if it ran out */
+  settledAt: number | null;
+  finalPopulation: number;
+  /** Both patterns as placed, from 0, to load the collision */
+  cells: number[][];
+  size: number[];
+}
+
+interface Collision {
+  offset: number[];
+  phase: number;
+  cells: number[][];
+  size: number[];
+}
+
+/**
+ * Short list of the products, e.g. "2× 4-cell still life, c/4 spaceship (1, 1)"
+ */
+export function formatProducts(products: CollisionProduct[]): string {
+  if (products.length === 0) return 'nothing';
+
+  const counts = new Map<string, number>();
+  for (const product of products) {
+    let label: string;
+    switch (product.kind) {
+      case 'stillLife':
+        label = `${product.population}-cell still life`;
+        break;
+      case 'oscillator':
+        label = `p${product.period} oscillator`;
+        break;
+      case 'spaceship':
+        label = `${formatSpeed(product.displacement, product.period)} spaceship (${product.displacement.join(', ')})`;
+        break;
+      case 'active':
+        label = `${product.population} active cells`;
+        break;
+    }
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return [...counts].map(([label, count]) => (count > 1 ? `${count}× ${label}` : label)).join(', ');
+}
+
+/**
+ * Number of collisions a sweep runs, before phases the second pattern turns
+ * out not to have
+ */
+export function countCollisions(offsets: [number, number][], phases: number): number {
+  return offsets.reduce((count, [min, max]) => count * Math.max(0, max - min + 1), phases);
+}
+
+/**
+ * Runs one sweep at a time until done or stopped
+ */
+export class CollisionLab {
+  private stopRequested = false;
+  private running = false;
+
+  constructor(private gpuEngine: GPUEngine) {}
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Run every collision of a sweep, reporting each result with its index.
+   * Resolves to the number of collisions, fewer than asked when the second
+   * pattern has fewer phases.
+   */
+  async run(
+    settings: CollisionSettings,
+    onResult: (result: CollisionResult, index: number) => void
+  ): Promise<number> {
+    if (this.running) {
+      throw new Error('A collision sweep is already running');
+    }
+    const { dimensions, rules, offsets, generations } = settings;
+    if (offsets.length !== dimensions || offsets.some(([min, max]) => !(min <= max))) {
+      throw new Error('Every axis needs an offset range from low to high');
+    }
+    if (!(generations >= 1)) {
+      throw new Error('Generations must be at least 1');
+    }
+    if (!(settings.phases >= 1 && settings.phases <= MAX_COLLISION_PHASES)) {
+      throw new Error(`Phases must be between 1 and ${MAX_COLLISION_PHASES}`);
+    }
+    const total = countCollisions(offsets, settings.phases);
+    if (total > MAX_COLLISIONS) {
+      throw new Error(`The sweep has ${total} collisions; at most ${MAX_COLLISIONS} are run at once`);
+    }
+
+    this.running = true;
+    this.stopRequested = false;
+    let engine: SimulationEngine | null = null;
+    try {
+      const first = transformPattern(settings.first.pattern, settings.first.transform);
+      const second = transformPattern(settings.second.pattern, settings.second.transform);
+      const [firstInput, secondInput] = await Promise.all([
+        this.recur(first.cells, rules),
+        this.recur(second.cells, rules, settings.phases),
+      ]);
+      const collisions = this.placeCollisions(first.cells, second.cells, secondInput, settings);
+      const inputSignatures = [firstInput?.signature, secondInput?.signature];
+
+      const margin = COLLISION_MARGINS[dimensions];
+      const gridSize = Array.from({ length: dimensions }, (_, d) =>
+        Math.max(...collisions.map(collision => collision.size[d])) + 2 * margin
+      );
+      engine = createSimulation(this.gpuEngine, { gridSize, rules });
+      await engine.init();
+      engine.setHistoryBudget(0);
+      engine.setStateHashing(true);
+
+      // Debris repeats across a sweep; each shape is run on its own once
+      const known = new Map<string, Classification>();
+      for (let index = 0; index < collisions.length; index++) {
+        await nextTask();
+        if (this.stopRequested) break;
+
+        const result = await this.collide(engine, collisions[index], settings, gridSize, inputSignatures, known);
+        if (!result) break;
+        onResult(result, index);
+      }
+      return collisions.length;
+    } finally {
+      engine?.destroy();
+      this.running = false;
+    }
+  }
+
+  /**
+   * Phases and signature of an input, or null when it does not recur
+   */
+  private async recur(
+    cells: number[][],
+    rules: SimulationRules,
+    phases = 1
+  ): Promise<{ phases: number[][][]; signature: string } | null> {
+    let recurrence: Recurrence | null;
+    try {
+      recurrence = await findRecurrence(this.gpuEngine, cells, rules, Math.max(phases, MAX_PRODUCT_PERIOD));
+    } catch (error) {
+      console.warn('Colliding a pattern too large to check for recurrence:', error);
+      return null;
+    }
+    if (!recurrence) return null;
+
+    // Phases in the pattern's own coordinates, following it as it moves
+    const low = cells[0].map((_, d) => Math.min(...cells.map(cell => cell[d])));
+    const [start] = recurrence.phases;
+    return {
+      phases: recurrence.phases
+        .slice(0, phases)
+        // Dying Generations cells cannot be placed as a pattern
+        .filter(phase => phase.states.every(value => value === 1))
+        .map(phase => phase.cells.map(cell =>
+          cell.map((coord, d) => coord + phase.origin[d] - start.origin[d] + low[d])
+        )),
+      signature: recurrence.phases.map(phase => phase.key).reduce((a, b) => (b < a ? b : a)),
+    };
+  }
+
+  /**
+   * Every combination of phase and offset, both patterns shifted to start at 0
+   */
+  private placeCollisions(
+    first: number[][],
+    second: number[][],
+    secondInput: { phases: number[][][] } | null,
+    settings: CollisionSettings
+  ): Collision[] {
+    const phases = secondInput && secondInput.phases.length > 0 ? secondInput.phases : [second];
+    const offsets = settings.offsets.reduce<number[][]>(
+      (combined, [min, max]) => combined.flatMap(offset =>
+        Array.from({ length: max - min + 1 }, (_, i) => [...offset, min + i])
+      ),
+      [[]]
+    );
+
+    return phases.flatMap((phaseCells, phase) => offsets.map(offset => {
+      const placed = [...first, ...phaseCells.map(cell => cell.map((coord, d) => coord + offset[d]))];
+      const low = offset.map((_, d) => Math.min(...placed.map(cell => cell[d])));
+      const cells = placed.map(cell => cell.map((coord, d) => coord - low[d]));
+      const size = offset.map((_, d) => Math.max(...cells.map(cell => cell[d])) + 1);
+      return { offset, phase, cells, size };
+    }));
+  }
+
+  private async collide(
+    engine: SimulationEngine,
+    collision: Collision,
+    settings: CollisionSettings,
+    gridSize: number[],
+    inputSignatures: (string | undefined)[],
+    known: Map<string, Classification>
+  ): Promise<CollisionResult | null> {
+    const { generations } = settings;
+    const { cells, size } = collision;
+    engine.reset(createPatternGridND({ name: 'Collision', description: '', size, cells }, gridSize));
+
+    const detector = new CycleDetector(gridSize);
+    let generation = 0;
+    while (generation < generations) {
+      await nextTask();
+      if (this.stopRequested) return null;
+
+      const batch = Math.min(COLLISION_BATCH, generations - generation);
+      engine.stepMany(batch);
+      generation += batch;
+
+      const { hashes } = await engine.takeStateHashes();
+      for (let i = 0; i < hashes.length; i++) {
+        detector.add(generation - (hashes.length - 1 - i), hashes[i]);
+      }
+
+      // A run moving as a whole has nothing left to react with
+      if (detector.getStatus().kind !== 'running') break;
+    }
+
+    const status = detector.getStatus();
+    const state = await engine.getState();
+    const found = status.kind === 'extinct' ? [] : await this.classifyObjects(state, settings, gridSize, known);
+
+    const signatures = found.map(product => (product.kind === 'active' ? '' : product.signature)).sort();
+    const inputs = [...inputSignatures].sort();
+    let outcome: CollisionOutcome;
+    if (found.length === 0) {
+      outcome = 'annihilation';
+    } else if (inputs.every(Boolean) && signatures.length === 2 && signatures.every((s, i) => s === inputs[i])) {
+      outcome = 'noReaction';
+    } else if (found.some(product => product.kind === 'active')) {
+      outcome = 'active';
+    } else if (found.some(product => product.kind === 'spaceship')) {
+      outcome = 'emits';
+    } else {
+      outcome = 'stable';
+    }
+
+    return {
+      offset: collision.offset,
+      phase: collision.phase,
+      outcome,
+      products: found,
+      reaction: found
+        .map(product => `${product.kind}:${product.kind === 'active' ? product.population : product.signature}`)
+        .sort()
+        .join('|'),
+      settledAt: status.kind === 'running' || status.kind === 'extinct' ? null : status.since,
+      finalPopulation: countCells(state, getCellCount(gridSize)),
+      cells,
+      size,
+    };
+  }
+
+  /**
+   * Split what is left into objects and run each on its own
+   */
+  private async classifyObjects(
+    state: PackedCells,
+    settings: CollisionSettings,
+    gridSize: number[],
+    known: Map<string, Classification>
+  ): Promise<CollisionProduct[]> {
+    const boundaries = gridSize.map(() => ({ mode: 'periodic' as const }));
+    const { labels, objects } = labelObjects(state, gridSize, boundaries, settings.dimensions);
+    const values = unpackCells(state, 0, labels.length);
+    const objectCells: number[][][] = objects.map(() => []);
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] > 0 && values[i] === 1) {
+        objectCells[labels[i] - 1].push(indexToCoords(i, gridSize));
+      }
+    }
+
+    const found: CollisionProduct[] = [];
+    for (const cells of objectCells) {
+      if (cells.length === 0) continue;
+      const unwrapped = unwrapCells(cells, gridSize);
+      const low = unwrapped[0].map((_, d) => Math.min(...unwrapped.map(cell => cell[d])));
+      const key = unwrapped.map(cell => cell.map((coord, d) => coord - low[d]).join(',')).sort().join(';');
+
+      let classification = known.get(key);
+      if (!classification) {
+        classification = await this.classify(unwrapped, settings.rules);
+        known.set(key, classification);
+      }
+      found.push({ ...classification, population: cells.length });
+    }
+    return found;
+  }
+
+  /**
+   * Run an object on its own to tell what it is
+   */
+  private async classify(cells: number[][], rules: SimulationRules): Promise<Classification> {
+    let recurrence: Recurrence | null = null;
+    try {
+      recurrence = await findRecurrence(this.gpuEngine, cells, rules, MAX_PRODUCT_PERIOD);
+    } catch (error) {
+      console.warn('Skipping a product too large to check for recurrence:', error);
+    }
+    if (!recurrence) {
+      return { kind: 'active' };
+    }
+
+    const { period, displacement } = recurrence;
+    return {
+      kind: displacement.some(delta => delta !== 0) ? 'spaceship' : period === 1 ? 'stillLife' : 'oscillator',
+      period,
+      displacement,
+      signature: recurrence.phases.map(phase => phase.key).reduce((a, b) => (b < a ? b : a)),
+    };
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Engine selection - WebGPU when a device is available, CPU reference engine otherwise
+ */
+
+import { GPUEngine } from './GPUEngine';
+import { GPUSimulation } from './GPUSimulation';
+import { CPUSimulation } from './CPUSimulation';
+import type { SimulationConfig, SimulationEngine } from './SimulationEngine';
+
+export function createSimulation(gpuEngine: GPUEngine, config: SimulationConfig): SimulationEngine {
+  return gpuEngine.isInitialized
+    ? new GPUSimulation(gpuEngine, config)
+    : new CPUSimulation(config);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { GLIDER_2D, createEngine } from '../test/helpers';
+import { HistoryRing } from './history';
+
+describe('HistoryRing', () => {
+  it('overwrites the oldest generation once full', () => {
+    const ring = new HistoryRing();
+    ring.clear(3);
+    expect([1, 2, 3, 4, 5].map(() => ring.push())).toEqual([0, 1, 2, 0, 1]);
+    expect(ring.length).toBe(3);
+    expect(ring.position).toBe(2);
+    // The oldest left is the third generation pushed
+    expect(ring.seek(0)).toBe(2);
+    expect(ring.seek(2)).toBe(1);
+  });
+
+  it('drops the newer generations when stepping on from an earlier one', () => {
+    const ring = new HistoryRing();
+    ring.clear(4);
+    ring.push();
+    ring.push();
+    ring.push();
+    ring.seek(0);
+    ring.truncate();
+    expect(ring.length).toBe(1);
+    expect(ring.push()).toBe(1);
+    expect(ring.position).toBe(1);
+  });
+
+  it('rejects positions outside the recorded generations', () => {
+    const ring = new HistoryRing();
+    ring.clear(4);
+    ring.push();
+    ring.push();
+    expect(() => ring.seek(2)).toThrow();
+    expect(() => ring.seek(-1)).toThrow();
+    expect(() => ring.seek(0.5)).toThrow();
+  });
+});
+
+describe('CPUSimulation history', () => {
+  it('rewinds within its budget and records anew from there', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', GLIDER_2D);
+    // One byte per cell, so room for three generations
+    engine.setHistoryBudget(3 * 64);
+    engine.stepMany(5);
+    expect(engine.getHistoryLength()).toBe(3);
+    expect(engine.getHistoryPosition()).toBe(2);
+
+    const reference = await createEngine([8, 8], 'B3/S23', GLIDER_2D);
+    reference.stepMany(3);
+    engine.seekHistory(0);
+    expect(await engine.getState()).toEqual(await reference.getState());
+
+    engine.step();
+    reference.step();
+    expect(engine.getHistoryLength()).toBe(2);
+    expect(engine.getHistoryPosition()).toBe(1);
+    expect(await engine.getState()).toEqual(await reference.getState());
+  });
+
+  it('records nothing without a budget', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', GLIDER_2D);
+    engine.setHistoryBudget(0);
+    engine.stepMany(3);
+    expect(engine.getHistoryLength()).toBe(0);
+  });
+});
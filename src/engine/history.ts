@@ -0,0 +1,70 @@
+/**
+ * Bookkeeping for the ring of recorded generations behind rewinding. The
+ * engines own the snapshot storage; this class maps history positions
+ * (0 = oldest recorded generation) to storage slots.
+ */
+
+/** History kept by default, in bytes */
+export const DEFAULT_HISTORY_BUDGET = 64 * 1024 * 1024;
+
+export class HistoryRing {
+  /** Slots available; 0 disables recording */
+  capacity = 0;
+  /** Slot of the oldest recorded generation */
+  private start = 0;
+  private count = 0;
+  private current = 0;
+
+  /** Recorded generations, the current one included */
+  get length(): number {
+    return this.count;
+  }
+
+  /** History position of the current generation */
+  get position(): number {
+    return this.current;
+  }
+
+  /**
+   * Drop every recorded generation, optionally changing the capacity
+   */
+  clear(capacity = this.capacity): void {
+    this.capacity = capacity;
+    this.start = 0;
+    this.count = 0;
+    this.current = 0;
+  }
+
+  /**
+   * Drop the generations after the current one, before stepping on from it
+   */
+  truncate(): void {
+    this.count = Math.min(this.count, this.current + 1);
+  }
+
+  /**
+   * Append a generation after the newest one, overwriting the oldest when
+   * full, and make it current. Returns the slot to store it in.
+   */
+  push(): number {
+    const slot = (this.start + this.count) % this.capacity;
+    if (this.count === this.capacity) {
+      this.start = (this.start + 1) % this.capacity;
+    } else {
+      this.count++;
+    }
+    this.current = this.count - 1;
+    return slot;
+  }
+
+  /**
+   * Make the generation at `position` current and return its slot
+   */
+  seek(position: number): number {
+    if (!Number.isInteger(position) || position < 0 || position >= this.count) {
+      throw new Error(`History position ${position} out of range (${this.count} recorded)`);
+    }
+    this.current = position;
+    return (this.start + position) % this.capacity;
+  }
+}
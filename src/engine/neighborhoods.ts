@@ -0,0 +1,118 @@
+/**
+ * Neighborhood definitions: Moore radius r ("Larger than Life"),
+ * von Neumann (Manhattan) radius r, and user-supplied offset masks
+ */
+
+export type NeighborhoodType = 'moore' | 'vonNeumann' | 'custom';
+
+export interface Neighborhood {
+  type: NeighborhoodType;
+  /** Radius for Moore and von Neumann neighborhoods */
+  radius: number;
+  /** Offsets relative to the cell, one entry per axis (custom only) */
+  offsets?: number[][];
+}
+
+export const MAX_RADIUS = 5;
+
+export const MOORE_NEIGHBORHOOD: Neighborhood = { type: 'moore', radius: 1 };
+
+export function cloneNeighborhood(neighborhood: Neighborhood): Neighborhood {
+  return {
+    type: neighborhood.type,
+    radius: neighborhood.radius,
+    offsets: neighborhood.offsets?.map(offset => [...offset]),
+  };
+}
+
+export function isDefaultNeighborhood(neighborhood: Neighborhood): boolean {
+  return neighborhood.type === 'moore' && neighborhood.radius === 1;
+}
+
+/**
+ * List the neighbor offsets (center excluded) for the given dimension.
+ * Custom offsets with fewer entries than the dimension are padded with 0.
+ */
+export function getNeighborOffsets(neighborhood: Neighborhood, dimensions: number): number[][] {
+  if (neighborhood.type === 'custom') {
+    return (neighborhood.offsets ?? []).map(offset =>
+      Array.from({ length: dimensions }, (_, d) => offset[d] ?? 0)
+    );
+  }
+
+  const radius = neighborhood.radius;
+  const side = 2 * radius + 1;
+  const total = Math.pow(side, dimensions);
+  const offsets: number[][] = [];
+
+  for (let i = 0; i < total; i++) {
+    const offset: number[] = [];
+    let rest = i;
+    for (let d = 0; d < dimensions; d++) {
+      offset.push((rest % side) - radius);
+      rest = Math.floor(rest / side);
+    }
+
+    const distance = neighborhood.type === 'vonNeumann'
+      ? offset.reduce((sum, v) => sum + Math.abs(v), 0)
+      : Math.max(...offset.map(Math.abs));
+
+    // Skip the center cell
+    if (distance > 0 && distance <= radius) {
+      offsets.push(offset);
+    }
+  }
+
+  return offsets;
+}
+
+/** Number of neighbors, i.e. the largest possible neighbor count */
+export function getNeighborhoodSize(neighborhood: Neighborhood, dimensions: number): number {
+  return getNeighborOffsets(neighborhood, dimensions).length;
+}
+
+/** Largest offset along any axis, i.e. how far the neighborhood reaches */
+export function getNeighborhoodReach(neighborhood: Neighborhood, dimensions: number): number {
+  if (neighborhood.type !== 'custom') {
+    return neighborhood.radius;
+  }
+  return getNeighborOffsets(neighborhood, dimensions)
+    .reduce((reach, offset) => Math.max(reach, ...offset.map(Math.abs)), 0);
+}
+
+/**
+ * Parse a custom offset mask such as "1,0,0; -1,0,0; 0,1,0" (entries separated
+ * by semicolons or newlines). The center cell and duplicates are rejected.
+ */
+export function parseOffsetMask(text: string, dimensions: number): number[][] {
+  const offsets: number[][] = [];
+  const seen = new Set<string>();
+
+  for (const entry of text.split(/[;\n]/).map(e => e.trim()).filter(e => e !== '')) {
+    const values = entry.split(/[,\s]+/).map(v => Number(v));
+    if (values.length !== dimensions || values.some(v => !Number.isInteger(v))) {
+      throw new Error(`Offset "${entry}" must have ${dimensions} integer components`);
+    }
+    if (values.every(v => v === 0)) {
+      throw new Error('The center cell cannot be its own neighbor');
+    }
+    if (values.some(v => Math.abs(v) > MAX_RADIUS)) {
+      throw new Error(`Offset "${entry}" exceeds the maximum radius of ${MAX_RADIUS}`);
+    }
+
+    const key = values.join(',');
+    if (!seen.has(key)) {
+      seen.add(key);
+      offsets.push(values);
+    }
+  }
+
+  if (offsets.length === 0) {
+    throw new Error('A custom neighborhood needs at least one offset');
+  }
+  return offsets;
+}
+
+export function formatOffsetMask(offsets: number[][]): string {
+  return offsets.map(offset => offset.join(',')).join('; ');
+}
@@ -0,0 +1,331 @@
+/**
+ * Evolutionary search for oscillators and spaceships under a rule
+ * Candidates are small boxes of seed cells. Every round runs the new
+ * candidates in a small wrapping grid and scores how they end (see
+ * scoreStatus), keeps the best and fills up with crossovers and mutations of
+ * them. A candidate that ends oscillating or moving as one object has the
+ * phase it settled into checked exactly (see recurrence.ts) before it counts
+ * as a find.
+ */
+
+import { GPUEngine } from './GPUEngine';
+import { Dimension, SimulationEngine, SimulationRules } from './SimulationEngine';
+import { createSimulation } from './createSimulation';
+import { Recurrence, findRecurrence, getPhase, unwrapCells } from './recurrence';
+import { createPatternGridND } from '../patterns';
+import { SettleStatus, CycleDetector } from '../utils/cycles';
+import { labelObjects } from '../utils/components';
+import { PackedCells } from '../utils/packing';
+import { nextTask } from '../utils/performance';
+import { createRandom } from '../utils/random';
+import { STATE_HASH_CAPACITY } from '../utils/stateHash';
+
+/** Empty cells around the seed box per side, per dimension */
+const SEARCH_MARGINS: Record<Dimension, number> = {
+  2: 16,
+  3: 8,
+  4: 6,
+  5: 4,
+};
+
+/** Longest candidate run; every generation's hash must fit between two reads */
+export const MAX_SEARCH_GENERATIONS = STATE_HASH_CAPACITY - 1;
+
+/** Share of a round carried over unchanged, best first */
+const ELITE_FRACTION = 0.25;
+/** Share of a round rolled afresh, to keep the population from converging */
+const FRESH_FRACTION = 0.125;
+/** Chance of each cell being alive in a fresh seed */
+const SEED_DENSITY = 0.35;
+/** Generations stepped between yields to the page */
+const SEARCH_BATCH = 16;
+/** Most cells a mutation flips */
+const MAX_FLIPS = 3;
+/** Scores remembered to skip candidates seen before; forgotten when full */
+const MAX_REMEMBERED_SCORES = 100000;
+
+export interface SearchSettings {
+  dimensions: Dimension;
+  rules: SimulationRules;
+  /** Edge of the box seeds are rolled and mutated in */
+  seedSize: number;
+  /** Generations each candidate runs for */
+  generations: number;
+  /** Candidates per round */
+  populationSize: number;
+  /** Seed of the search's random numbers, so a search can be repeated */
+  seed: number;
+}
+
+export interface SearchFind {
+  kind: 'oscillator' | 'spaceship';
+  period: number;
+  /** Offset per period; all zero for oscillators */
+  displacement: number[];
+  /** Live cells of the phase the candidate settled into, from 0 */
+  cells: number[][];
+  size: number[];
+  /** Smallest phase key, the same whichever phase a search lands on */
+  signature: string;
+}
+
+export interface SearchProgress {
+  round: number;
+  /** Candidates run so far */
+  evaluated: number;
+  bestScore: number;
+  finds: number;
+}
+
+/**
+ * Fitness of how a run ended: dying late beats dying early, living beats
+ * dying, oscillating beats standing still or churning, and moving beats
+ * oscillating. Longer periods and journeys score higher.
+ */
+export function scoreStatus(status: SettleStatus, generations: number): number {
+  switch (status.kind) {
+    case 'extinct':
+      return status.since / generations;
+    case 'stillLife':
+      return 1;
+    case 'running':
+      return 1.5;
+    case 'oscillator':
+      return 2 + Math.log2(status.period);
+    case 'spaceship':
+      return 4 + Math.log2(status.period) + Math.max(...status.displacement.map(Math.abs));
+  }
+}
+
+interface ScoredCandidate {
+  cells: Uint8Array;
+  score: number;
+}
+
+/**
+ * Runs one search at a time until stopped
+ */
+export class PatternSearch {
+  private stopRequested = false;
+  private running = false;
+
+  constructor(private gpuEngine: GPUEngine) {}
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Search until stopped, reporting every round and every new find
+   */
+  async run(
+    settings: SearchSettings,
+    onProgress: (progress: SearchProgress) => void,
+    onFind: (find: SearchFind) => void
+  ): Promise<void> {
+    if (this.running) {
+      throw new Error('A search is already running');
+    }
+    const { dimensions, rules, seedSize, generations, populationSize } = settings;
+    if (!(generations >= 1 && generations <= MAX_SEARCH_GENERATIONS)) {
+      throw new Error(`Generations must be between 1 and ${MAX_SEARCH_GENERATIONS}`);
+    }
+
+    this.running = true;
+    this.stopRequested = false;
+    const random = createRandom(settings.seed);
+    const gridSize = new Array<number>(dimensions).fill(seedSize + 2 * SEARCH_MARGINS[dimensions]);
+    const engine = createSimulation(this.gpuEngine, { gridSize, rules });
+    const scores = new Map<string, number>();
+    const signatures = new Set<string>();
+    const progress: SearchProgress = { round: 0, evaluated: 0, bestScore: 0, finds: 0 };
+
+    try {
+      await engine.init();
+      engine.setHistoryBudget(0);
+      engine.setStateHashing(true);
+
+      let population = Array.from({ length: populationSize }, () => this.rollSeed(settings, random));
+      while (!this.stopRequested) {
+        const scored: ScoredCandidate[] = [];
+        for (const cells of population) {
+          await nextTask();
+          if (this.stopRequested) break;
+
+          const key = cells.join('');
+          let score = scores.get(key);
+          if (score === undefined) {
+            const status = await this.evaluate(engine, cells, settings, gridSize);
+            if (!status) break;
+            score = scoreStatus(status, generations);
+            if (scores.size >= MAX_REMEMBERED_SCORES) {
+              scores.clear();
+            }
+            scores.set(key, score);
+            progress.evaluated++;
+
+            const find = await this.verify(engine, cells, status, settings, gridSize);
+            if (find && !signatures.has(find.signature)) {
+              signatures.add(find.signature);
+              progress.finds++;
+              onFind(find);
+            }
+          }
+          scored.push({ cells, score });
+        }
+        if (scored.length === 0) break;
+
+        scored.sort((a, b) => b.score - a.score);
+        progress.round++;
+        progress.bestScore = scored[0].score;
+        onProgress({ ...progress });
+        population = this.breed(scored, settings, random);
+      }
+    } finally {
+      engine.destroy();
+      this.running = false;
+    }
+  }
+
+  /**
+   * Place a candidate's seed box in the middle of the grid
+   */
+  private placeSeed(cells: Uint8Array, settings: SearchSettings, gridSize: number[]): PackedCells {
+    const size = new Array<number>(settings.dimensions).fill(settings.seedSize);
+    const coords: number[][] = [];
+    cells.forEach((alive, i) => {
+      if (alive) {
+        coords.push(size.map((edge, d) => Math.floor(i / Math.pow(edge, d)) % edge));
+      }
+    });
+    return createPatternGridND({ name: 'Candidate', description: '', size, cells: coords }, gridSize);
+  }
+
+  /**
+   * Step in batches, yielding in between so that the CPU engine does not hold
+   * up the page and Stop takes effect; false when stopped midway
+   */
+  private async stepInBatches(engine: SimulationEngine, generations: number): Promise<boolean> {
+    for (let generation = 0; generation < generations; generation += SEARCH_BATCH) {
+      await nextTask();
+      if (this.stopRequested) return false;
+      engine.stepMany(Math.min(SEARCH_BATCH, generations - generation));
+    }
+    return true;
+  }
+
+  /**
+   * Run a candidate for the set number of generations; null when stopped
+   * midway
+   */
+  private async evaluate(
+    engine: SimulationEngine,
+    cells: Uint8Array,
+    settings: SearchSettings,
+    gridSize: number[]
+  ): Promise<SettleStatus | null> {
+    engine.reset(this.placeSeed(cells, settings, gridSize));
+    if (!(await this.stepInBatches(engine, settings.generations))) return null;
+    const { hashes } = await engine.takeStateHashes();
+
+    const detector = new CycleDetector(gridSize);
+    for (let i = 0; i < hashes.length; i++) {
+      detector.add(settings.generations - (hashes.length - 1 - i), hashes[i]);
+    }
+    return detector.getStatus();
+  }
+
+  /**
+   * Turn an oscillating or moving run into a find: take the phase it settled
+   * into, require a single object of live cells, and confirm exactly that the
+   * phase comes back. Null otherwise, or when stopped midway.
+   */
+  private async verify(
+    engine: SimulationEngine,
+    cells: Uint8Array,
+    status: SettleStatus,
+    settings: SearchSettings,
+    gridSize: number[]
+  ): Promise<SearchFind | null> {
+    if (status.kind !== 'oscillator' && status.kind !== 'spaceship') return null;
+
+    engine.reset(this.placeSeed(cells, settings, gridSize));
+    if (!(await this.stepInBatches(engine, status.since))) return null;
+    const state = await engine.getState();
+    const phase = getPhase(state, gridSize);
+    // Dying Generations cells cannot be written down as a pattern
+    if (!phase || phase.states.some(value => value !== 1)) return null;
+
+    const boundaries = gridSize.map(() => ({ mode: 'periodic' as const }));
+    if (labelObjects(state, gridSize, boundaries, settings.dimensions).objects.length !== 1) return null;
+
+    const placed = phase.cells.map(cell => cell.map((coord, d) => coord + phase.origin[d]));
+    let recurrence: Recurrence | null;
+    try {
+      recurrence = await findRecurrence(this.gpuEngine, unwrapCells(placed, gridSize), settings.rules, status.period);
+    } catch (error) {
+      console.warn('Skipping a find too large to verify:', error);
+      return null;
+    }
+    const still = recurrence?.period === 1 && recurrence.displacement.every(delta => delta === 0);
+    if (!recurrence || still) return null;
+
+    const [first] = recurrence.phases;
+    return {
+      kind: recurrence.displacement.some(delta => delta !== 0) ? 'spaceship' : 'oscillator',
+      period: recurrence.period,
+      displacement: recurrence.displacement,
+      cells: first.cells,
+      size: first.size,
+      signature: recurrence.phases.map(p => p.key).reduce((a, b) => (b < a ? b : a)),
+    };
+  }
+
+  private rollSeed(settings: SearchSettings, random: () => number): Uint8Array {
+    const cells = new Uint8Array(Math.pow(settings.seedSize, settings.dimensions));
+    for (let i = 0; i < cells.length; i++) {
+      cells[i] = random() < SEED_DENSITY ? 1 : 0;
+    }
+    // An empty seed only ever dies
+    cells[Math.floor(random() * cells.length)] = 1;
+    return cells;
+  }
+
+  /**
+   * Next round: the elite, some fresh seeds, and children of tournament
+   * winners cut along a random plane and mutated
+   */
+  private breed(scored: ScoredCandidate[], settings: SearchSettings, random: () => number): Uint8Array[] {
+    const { seedSize, populationSize, dimensions } = settings;
+    const pick = () => {
+      const a = scored[Math.floor(random() * scored.length)];
+      const b = scored[Math.floor(random() * scored.length)];
+      return a.score >= b.score ? a.cells : b.cells;
+    };
+
+    const next = scored.slice(0, Math.max(1, Math.floor(populationSize * ELITE_FRACTION))).map(c => c.cells);
+    for (let i = Math.floor(populationSize * FRESH_FRACTION); i > 0; i--) {
+      next.push(this.rollSeed(settings, random));
+    }
+
+    while (next.length < populationSize) {
+      const first = pick();
+      const second = pick();
+      const stride = Math.pow(seedSize, Math.floor(random() * dimensions));
+      const cut = 1 + Math.floor(random() * (seedSize - 1));
+      const child = first.map((cell, i) => (Math.floor(i / stride) % seedSize < cut ? cell : second[i]));
+
+      const flips = 1 + Math.floor(random() * MAX_FLIPS);
+      for (let f = 0; f < flips; f++) {
+        const i = Math.floor(random() * child.length);
+        child[i] ^= 1;
+      }
+      next.push(child);
+    }
+    return next;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Pattern verifier: runs every pattern of a library under its own rule, or
+ * the rule it would be loaded under, and records how it turns out, so that
+ * patterns not doing what their description says can be flagged
+ * One engine runs the whole library in a wrapping grid with room around the
+ * largest pattern, switching rules only where they differ. Settling is
+ * recognized from the state hashes (see utils/cycles.ts). Verdicts are
+ * remembered per pattern and rule.
+ */
+
+import { GPUEngine } from './GPUEngine';
+import { Dimension, SimulationEngine, SimulationRules } from './SimulationEngine';
+import { createSimulation } from './createSimulation';
+import { formatRule, parseRule } from './rules';
+import { PatternBehavior, PatternND, createPatternGridND } from '../patterns';
+import { CycleDetector, SettleStatus, formatSettleStatus, formatSpeed } from '../utils/cycles';
+import { nextTask } from '../utils/performance';
+
+/** Generations each pattern runs for */
+export const VERIFY_GENERATIONS = 128;
+
+/** Generations between state hash reads */
+const VERIFY_BATCH = 32;
+
+/** Empty cells around the largest pattern per side, per dimension */
+const VERIFY_MARGINS: Record<Dimension, number> = {
+  2: 16,
+  3: 8,
+  4: 5,
+  5: 3,
+};
+
+/** Verdicts remembered across runs; forgotten when full */
+const MAX_REMEMBERED_VERDICTS = 10000;
+
+const BEHAVIOR_LABELS: Record<PatternBehavior, string> = {
+  dies: 'dying pattern',
+  stillLife: 'still life',
+  oscillator: 'oscillator',
+  spaceship: 'spaceship',
+};
+
+export interface PatternVerdict {
+  /** Rule the pattern ran under */
+  rule: string;
+  status: SettleStatus;
+  /** What the pattern claims to do, or null when it claims nothing */
+  claim: string | null;
+  /** Whether the run bears the claim out; null without a claim */
+  matches: boolean | null;
+}
+
+/**
+ * Whether a run bears out a pattern's claimed behavior: still lifes,
+ * oscillators and spaceships must be one from the start (and have the
+ * claimed period), dying patterns may take their time. Null without a claim.
+ */
+export function matchesBehavior(pattern: PatternND, status: SettleStatus): boolean | null {
+  if (!pattern.behavior) return null;
+
+  const periodMatches = (period: number) => pattern.period === undefined || pattern.period === period;
+  switch (pattern.behavior) {
+    case 'dies':
+      return status.kind === 'extinct';
+    case 'stillLife':
+      return status.kind === 'stillLife' && status.since === 0;
+    case 'oscillator':
+      return status.kind === 'oscillator' && status.since === 0 && periodMatches(status.period);
+    case 'spaceship':
+      return status.kind === 'spaceship' && status.since === 0 && periodMatches(status.period);
+  }
+}
+
+function formatClaim(pattern: PatternND): string | null {
+  if (!pattern.behavior) return null;
+  const label = BEHAVIOR_LABELS[pattern.behavior];
+  return pattern.period === undefined ? label : `period-${pattern.period} ${label}`;
+}
+
+/**
+ * Short form for the pattern list, e.g. "period 2", "c/4 spaceship" or
+ * "dies at 3"
+ */
+export function formatVerdict(verdict: PatternVerdict): string {
+  const { status } = verdict;
+  if (status.kind === 'running') return `no cycle in ${VERIFY_GENERATIONS}`;
+  if (status.kind === 'extinct') return `dies at ${status.since}`;
+
+  const settled = status.since > 0 ? ` from ${status.since}` : '';
+  switch (status.kind) {
+    case 'stillLife':
+      return `still life${settled}`;
+    case 'oscillator':
+      return `period ${status.period}${settled}`;
+    case 'spaceship':
+      return `${formatSpeed(status.displacement, status.period)} spaceship${settled}`;
+  }
+}
+
+/**
+ * Long form, naming the rule and the claim a mismatch fails
+ */
+export function describeVerdict(verdict: PatternVerdict): string {
+  const { status } = verdict;
+  const observed = status.kind === 'running'
+    ? `still changing after ${VERIFY_GENERATIONS} generations`
+    : `${formatSettleStatus(status)} from generation ${status.since}`;
+  const claim = verdict.matches === false ? `; described as a ${verdict.claim}` : '';
+  return `Under ${verdict.rule}: ${observed}${claim}`;
+}
+
+function getRuleKey(rules: SimulationRules, dimensions: number): string {
+  // Custom neighborhoods are left out of rule strings
+  return `${formatRule(rules, dimensions)}|${JSON.stringify(rules.neighborhood)}`;
+}
+
+/**
+ * Verifies one library at a time; starting another verification abandons
+ * the current one
+ */
+export class PatternVerifier {
+  /** Counts verifications started; older ones stop when it moves on */
+  private verification = 0;
+  private verdicts = new Map<string, PatternVerdict>();
+
+  constructor(private gpuEngine: GPUEngine) {}
+
+  stop(): void {
+    this.verification++;
+  }
+
+  /**
+   * Run every pattern of a library, reporting each verdict as it comes in.
+   * Patterns without a rule of their own run under `rules`. Resolves to false
+   * when abandoned.
+   */
+  async verify(
+    library: Record<string, PatternND>,
+    dimensions: Dimension,
+    rules: SimulationRules,
+    onVerdict: (key: string, verdict: PatternVerdict) => void
+  ): Promise<boolean> {
+    const verification = ++this.verification;
+    const margin = VERIFY_MARGINS[dimensions];
+    const gridSize = Array.from({ length: dimensions }, (_, d) =>
+      Math.max(1, ...Object.values(library).map(pattern => pattern.size[d] ?? 1)) + 2 * margin
+    );
+    let engine: SimulationEngine | null = null;
+    let engineRule: string | null = null;
+
+    try {
+      for (const [key, pattern] of Object.entries(library)) {
+        const patternRules = pattern.rules
+          ? parseRule(pattern.rules, dimensions, pattern.neighborhood)
+          : rules;
+        const ruleKey = getRuleKey(patternRules, dimensions);
+        const verdictKey = `${dimensions}|${key}|${ruleKey}`;
+
+        let verdict = this.verdicts.get(verdictKey);
+        if (!verdict) {
+          if (!engine) {
+            engine = createSimulation(this.gpuEngine, { gridSize, rules: patternRules });
+            await engine.init();
+            engine.setHistoryBudget(0);
+            engine.setStateHashing(true);
+            engineRule = ruleKey;
+          } else if (engineRule !== ruleKey) {
+            engine.updateRules(patternRules);
+            engineRule = ruleKey;
+          }
+
+          const status = await this.runPattern(engine, pattern, gridSize, verification);
+          if (!status) return false;
+          verdict = {
+            rule: formatRule(patternRules, dimensions),
+            status,
+            claim: formatClaim(pattern),
+            matches: matchesBehavior(pattern, status),
+          };
+          if (this.verdicts.size >= MAX_REMEMBERED_VERDICTS) {
+            this.verdicts.clear();
+          }
+          this.verdicts.set(verdictKey, verdict);
+        }
+        if (verification !== this.verification) return false;
+        onVerdict(key, verdict);
+      }
+      return true;
+    } finally {
+      engine?.destroy();
+    }
+  }
+
+  /**
+   * Run a pattern until it settles for good or the generations run out. Null
+   * when the verification is abandoned.
+   */
+  private async runPattern(
+    engine: SimulationEngine,
+    pattern: PatternND,
+    gridSize: number[],
+    verification: number
+  ): Promise<SettleStatus | null> {
+    engine.reset(createPatternGridND(pattern, gridSize));
+
+    const detector = new CycleDetector(gridSize);
+    let step = 0;
+    while (step < VERIFY_GENERATIONS) {
+      await nextTask();
+      if (verification !== this.verification) return null;
+
+      // The CPU engine steps on the main thread, so it gives way after every generation
+      const batch = Math.min(this.gpuEngine.isInitialized ? VERIFY_BATCH : 1, VERIFY_GENERATIONS - step);
+      engine.stepMany(batch);
+      step += batch;
+
+      const { hashes } = await engine.takeStateHashes();
+      for (let i = 0; i < hashes.length; i++) {
+        detector.add(step - (hashes.length - 1 - i), hashes[i]);
+      }
+
+      // Extinct, static and oscillating runs stay that way
+      const kind = detector.getStatus().kind;
+      if (kind === 'extinct' || kind === 'stillLife' || kind === 'oscillator') break;
+    }
+    return detector.getStatus();
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Exact recurrence of a small pattern: runs it in a grid with dead walls far
+ * enough out that nothing can reach them, and compares each generation with
+ * the start cell by cell, up to translation
+ * Cells spread at most the neighborhood's reach per generation, so a margin
+ * of reach × generations keeps the walls from ever mattering: a pattern that
+ * comes back here comes back the same on an infinite grid.
+ */
+
+import { GPUEngine } from './GPUEngine';
+import { SimulationRules } from './SimulationEngine';
+import { createSimulation } from './createSimulation';
+import { getNeighborhoodReach } from './neighborhoods';
+import { coordsToIndex, getCellCount, indexToCoords } from '../utils/grid';
+import { PackedCells, createPackedCells, setPackedCell, unpackCells } from '../utils/packing';
+
+/** Largest grid a recurrence check runs in */
+const MAX_RECURRENCE_CELLS = 1 << 22;
+
+/** Non-dead cells of a state, relative to their lowest coordinates */
+export interface Phase {
+  /** Lowest coordinate per axis, in the grid the phase was taken from */
+  origin: number[];
+  /** Extent per axis */
+  size: number[];
+  /** Coordinates relative to `origin`, in grid order */
+  cells: number[][];
+  /** State per cell (1 alive, 2+ dying) */
+  states: number[];
+  /** Equal for equal phases, wherever they sit */
+  key: string;
+}
+
+export interface Recurrence {
+  /** Generations until the pattern first comes back */
+  period: number;
+  /** Offset per axis it comes back at; all zero for still lifes and oscillators */
+  displacement: number[];
+  /** Generation 0 up to the period, exclusive */
+  phases: Phase[];
+}
+
+/**
+ * Collect the non-dead cells of a state, or null when there are none
+ */
+export function getPhase(state: PackedCells, gridSize: readonly number[]): Phase | null {
+  const cellCount = getCellCount(gridSize);
+  const values = unpackCells(state, 0, cellCount);
+  const coords: number[][] = [];
+  const states: number[] = [];
+  const origin = gridSize.map(() => Infinity);
+  const far = gridSize.map(() => -Infinity);
+  for (let i = 0; i < cellCount; i++) {
+    if (values[i] === 0) continue;
+    const cell = indexToCoords(i, gridSize);
+    cell.forEach((coord, d) => {
+      origin[d] = Math.min(origin[d], coord);
+      far[d] = Math.max(far[d], coord);
+    });
+    coords.push(cell);
+    states.push(values[i]);
+  }
+  if (coords.length === 0) return null;
+
+  const cells = coords.map(cell => cell.map((coord, d) => coord - origin[d]));
+  const key = cells.map((cell, i) => cell.join(',') + (states[i] > 1 ? `:${states[i]}` : '')).join(';');
+  return { origin, size: far.map((coord, d) => coord - origin[d] + 1), cells, states, key };
+}
+
+/**
+ * Shift coordinates on a wrapping grid so that the pattern no longer
+ * straddles an edge: each axis starts after its longest empty stretch
+ */
+export function unwrapCells(cells: number[][], gridSize: readonly number[]): number[][] {
+  const starts = gridSize.map((size, d) => {
+    const used = new Uint8Array(size);
+    cells.forEach(cell => { used[cell[d]] = 1; });
+
+    let longest = 0;
+    let start = 0;
+    for (let from = 0; from < size; from++) {
+      // Only measure stretches from their first empty coordinate
+      if (used[from] || !used[(from + size - 1) % size]) continue;
+      let length = 0;
+      while (length < size && !used[(from + length) % size]) length++;
+      if (length > longest) {
+        longest = length;
+        start = (from + length) % size;
+      }
+    }
+    return start;
+  });
+  return cells.map(cell => cell.map((coord, d) => (coord - starts[d] + gridSize[d]) % gridSize[d]));
+}
+
+/**
+ * Smallest generation, up to `maxPeriod`, at which the live cells come back
+ * in the same arrangement. Null when the pattern dies out or does not come
+ * back in time. Throws when the grid needed to rule out the walls is too large.
+ */
+export async function findRecurrence(
+  gpuEngine: GPUEngine,
+  cells: readonly number[][],
+  rules: SimulationRules,
+  maxPeriod: number
+): Promise<Recurrence | null> {
+  if (cells.length === 0) return null;
+
+  const dimensions = cells[0].length;
+  const reach = getNeighborhoodReach(rules.neighborhood, dimensions);
+  const margin = reach * maxPeriod + 1;
+  const low = Array.from({ length: dimensions }, (_, d) => Math.min(...cells.map(cell => cell[d])));
+  const high = Array.from({ length: dimensions }, (_, d) => Math.max(...cells.map(cell => cell[d])));
+  const gridSize = low.map((min, d) => high[d] - min + 1 + 2 * margin);
+  if (getCellCount(gridSize) > MAX_RECURRENCE_CELLS) {
+    throw new Error(`A ${gridSize.join('×')} grid is too large to check ${maxPeriod} generations`);
+  }
+
+  const initial = createPackedCells(getCellCount(gridSize), 1);
+  for (const cell of cells) {
+    setPackedCell(initial, coordsToIndex(cell.map((coord, d) => coord - low[d] + margin), gridSize), 1);
+  }
+
+  const engine = createSimulation(gpuEngine, {
+    gridSize,
+    rules,
+    boundaries: gridSize.map(() => ({ mode: 'dead' })),
+  });
+  try {
+    await engine.init(initial);
+    engine.setHistoryBudget(0);
+
+    const start = getPhase(initial, gridSize);
+    if (!start) return null;
+    const phases = [start];
+    for (let generation = 1; generation <= maxPeriod; generation++) {
+      engine.step();
+      const phase = getPhase(await engine.getState(), gridSize);
+      if (!phase) return null;
+
+      if (phase.key === start.key) {
+        return {
+          period: generation,
+          displacement: phase.origin.map((coord, d) => coord - start.origin[d]),
+          phases,
+        };
+      }
+      phases.push(phase);
+    }
+    return null;
+  } finally {
+    engine.destroy();
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { GPUEngine } from './GPUEngine';
+import { MOORE_NEIGHBORHOOD } from './neighborhoods';
+import { MAX_SWEEP_RULES, RuleExploration, RuleExplorer, enumerateSweep } from './ruleExplorer';
+import { formatRule, parseRule } from './rules';
+
+const SETTINGS = {
+  gridSize: [16, 16],
+  boundaries: [{ mode: 'periodic' as const }, { mode: 'periodic' as const }],
+  generations: 32,
+  soup: { seed: 7, density: 0.3, region: 1, symmetry: 'none' as const },
+};
+
+describe('enumerateSweep', () => {
+  it('lists every interval rule, birth first', () => {
+    const rules = enumerateSweep({ birth: [3, 4], survive: [2, 3], neighborhood: MOORE_NEIGHBORHOOD }, 2);
+    expect(rules.map(rule => formatRule(rule, 2))).toEqual([
+      'B3/S2', 'B3/S23', 'B3/S3',
+      'B34/S2', 'B34/S23', 'B34/S3',
+      'B4/S2', 'B4/S23', 'B4/S3',
+    ]);
+    expect(rules[0].neighborhood).not.toBe(MOORE_NEIGHBORHOOD);
+  });
+
+  it('rejects bounds outside the neighborhood and oversized sweeps', () => {
+    const sweep = (birth: [number, number], survive: [number, number], dimensions = 2) =>
+      enumerateSweep({ birth, survive, neighborhood: MOORE_NEIGHBORHOOD }, dimensions);
+    expect(() => sweep([3, 9], [2, 3])).toThrow();
+    expect(() => sweep([4, 3], [2, 3])).toThrow();
+    expect(() => sweep([-1, 3], [2, 3])).toThrow();
+    // 378 intervals on each side of a 3D Moore sweep
+    expect(() => sweep([0, 26], [0, 26], 3)).toThrow(String(MAX_SWEEP_RULES));
+  });
+});
+
+describe('RuleExplorer', () => {
+  // Without WebGPU the sweep runs on the CPU engine
+  const createExplorer = () => new RuleExplorer(new GPUEngine());
+
+  it('classifies how each rule turns out', async () => {
+    const rules = ['B/S', 'B/S012345678'].map(rule => parseRule(rule, 2));
+    const results: RuleExploration[] = [];
+    await createExplorer().run(rules, SETTINGS, (result, index) => (results[index] = result));
+
+    expect(results.map(result => result.outcome)).toEqual(['diesOut', 'static']);
+    expect(results[0].finalPopulation).toBe(0);
+    expect(results[1].settledAt).toBe(0);
+    expect(results[1].populations.every(population => population === results[1].populations[0])).toBe(true);
+  });
+
+  it('keeps the results finished before a stop', async () => {
+    const rules = ['B3/S23', 'B36/S23', 'B3/S236'].map(rule => parseRule(rule, 2));
+    const explorer = createExplorer();
+    const indices: number[] = [];
+    await explorer.run(rules, SETTINGS, (_, index) => {
+      indices.push(index);
+      explorer.stop();
+    });
+    expect(indices).toEqual([0]);
+    expect(explorer.isRunning()).toBe(false);
+  });
+});
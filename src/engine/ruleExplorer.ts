@@ -0,0 +1,224 @@
+/**
+ * Rule-space explorer: runs a sweep of birth/survival ranges headlessly from
+ * the same seeded soup and classifies how each rule turns out
+ * One engine runs the whole sweep, switching rules and resetting to the soup
+ * between runs; nothing is rendered. Settling is recognized from the state
+ * hashes (see utils/cycles.ts), growth from the sampled population.
+ */
+
+import { AxisBoundary } from './boundaries';
+import { GPUEngine } from './GPUEngine';
+import { SimulationEngine, SimulationRules } from './SimulationEngine';
+import { createSimulation } from './createSimulation';
+import { Neighborhood, cloneNeighborhood, getNeighborhoodSize } from './neighborhoods';
+import { formatRule, range } from './rules';
+import { CycleDetector } from '../utils/cycles';
+import { getCellCount } from '../utils/grid';
+import { PackedCells, countCells } from '../utils/packing';
+import { nextTask } from '../utils/performance';
+import { SoupParams, createSoup } from '../utils/soup';
+
+export type RuleOutcome = 'diesOut' | 'explodes' | 'static' | 'periodic' | 'chaotic';
+
+export const RULE_OUTCOME_LABELS: Record<RuleOutcome, string> = {
+  diesOut: 'dies out',
+  explodes: 'explodes',
+  static: 'static',
+  periodic: 'periodic',
+  chaotic: 'chaotic',
+};
+
+/** Largest sweep run in one go */
+export const MAX_SWEEP_RULES = 1000;
+
+/** Population samples per run (plus the soup itself) */
+const POPULATION_SAMPLES = 64;
+
+/** A run that ends with this many times the soup's population explodes */
+const EXPLOSION_FACTOR = 2;
+
+/**
+ * Every interval rule B{b1}-{b2}/S{s1}-{s2} with b1 <= b2 inside `birth`
+ * and s1 <= s2 inside `survive` (inclusive neighbor-count bounds)
+ */
+export interface RuleSweep {
+  birth: [number, number];
+  survive: [number, number];
+  neighborhood: Neighborhood;
+}
+
+export interface ExplorerSettings {
+  gridSize: number[];
+  boundaries: AxisBoundary[];
+  generations: number;
+  soup: SoupParams;
+}
+
+export interface RuleExploration {
+  /** Rule string, e.g. "B5-6/S4-7" */
+  rule: string;
+  rules: SimulationRules;
+  outcome: RuleOutcome;
+  /** Generation the run became static or periodic, null otherwise */
+  settledAt: number | null;
+  /** Period of a periodic run, null otherwise */
+  period: number | null;
+  finalPopulation: number;
+  peakPopulation: number;
+  /** Population every `sampleInterval` generations, starting with the soup */
+  populations: number[];
+  sampleInterval: number;
+}
+
+/**
+ * Rules of a sweep, in order of birth then survival intervals. Throws when a
+ * bound is outside the neighborhood or the sweep exceeds MAX_SWEEP_RULES.
+ */
+export function enumerateSweep(sweep: RuleSweep, dimensions: number): SimulationRules[] {
+  const maxNeighbors = getNeighborhoodSize(sweep.neighborhood, dimensions);
+  for (const [low, high] of [sweep.birth, sweep.survive]) {
+    if (!Number.isInteger(low) || !Number.isInteger(high) || low < 0 || high > maxNeighbors || low > high) {
+      throw new Error(`Neighbor counts must satisfy 0 <= from <= to <= ${maxNeighbors}`);
+    }
+  }
+
+  const intervals = ([low, high]: [number, number]) =>
+    range(low, high).flatMap(first => range(first, high).map(last => range(first, last)));
+  const births = intervals(sweep.birth);
+  const survivals = intervals(sweep.survive);
+  if (births.length * survivals.length > MAX_SWEEP_RULES) {
+    throw new Error(
+      `The sweep has ${births.length * survivals.length} rules; narrow the ranges to at most ${MAX_SWEEP_RULES}`
+    );
+  }
+
+  return births.flatMap(birth => survivals.map(survive => ({
+    birth,
+    survive,
+    states: 2,
+    neighborhood: cloneNeighborhood(sweep.neighborhood),
+  })));
+}
+
+/**
+ * Runs sweeps one rule at a time. A sweep can be stopped between batches;
+ * the rules finished so far keep their results.
+ */
+export class RuleExplorer {
+  private stopRequested = false;
+  private running = false;
+
+  constructor(private gpuEngine: GPUEngine) {}
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Run every rule from the same soup, reporting each result as it comes in
+   */
+  async run(
+    rules: SimulationRules[],
+    settings: ExplorerSettings,
+    onResult: (result: RuleExploration, index: number) => void
+  ): Promise<void> {
+    if (this.running) {
+      throw new Error('A sweep is already running');
+    }
+    if (rules.length === 0) return;
+
+    this.running = true;
+    this.stopRequested = false;
+    const soup = createSoup(settings.gridSize, settings.soup);
+    const engine = createSimulation(this.gpuEngine, {
+      gridSize: settings.gridSize,
+      rules: rules[0],
+      boundaries: settings.boundaries,
+      soup: settings.soup,
+    });
+
+    try {
+      await engine.init(soup);
+      engine.setHistoryBudget(0);
+      engine.setStateHashing(true);
+
+      for (let i = 0; i < rules.length && !this.stopRequested; i++) {
+        const result = await this.explore(engine, rules[i], soup, settings);
+        if (result) {
+          onResult(result, i);
+        }
+      }
+    } finally {
+      engine.destroy();
+      this.running = false;
+    }
+  }
+
+  /**
+   * One run; null when stopped midway
+   */
+  private async explore(
+    engine: SimulationEngine,
+    rules: SimulationRules,
+    soup: PackedCells,
+    settings: ExplorerSettings
+  ): Promise<RuleExploration | null> {
+    const { gridSize, generations } = settings;
+    const sampleInterval = Math.max(1, Math.ceil(generations / POPULATION_SAMPLES));
+    engine.updateRules(rules);
+    engine.reset(soup);
+
+    const detector = new CycleDetector(gridSize);
+    const populations = [countCells(soup, getCellCount(gridSize))];
+    let generation = 0;
+    while (generation < generations) {
+      await nextTask();
+      if (this.stopRequested) return null;
+
+      const batch = Math.min(sampleInterval, generations - generation);
+      engine.stepMany(batch);
+      generation += batch;
+
+      const [{ hashes }, stats] = await Promise.all([engine.takeStateHashes(), engine.getStats()]);
+      for (let i = 0; i < hashes.length; i++) {
+        detector.add(generation - (hashes.length - 1 - i), hashes[i]);
+      }
+      populations.push(stats.population);
+
+      // Extinct, static and oscillating runs stay that way
+      const kind = detector.getStatus().kind;
+      if (kind === 'extinct' || kind === 'stillLife' || kind === 'oscillator') break;
+    }
+
+    const status = detector.getStatus();
+    const finalPopulation = populations[populations.length - 1];
+    let outcome: RuleOutcome;
+    if (status.kind === 'extinct' || finalPopulation === 0) {
+      outcome = 'diesOut';
+    } else if (status.kind === 'stillLife') {
+      outcome = 'static';
+    } else if (status.kind === 'oscillator' || status.kind === 'spaceship') {
+      outcome = 'periodic';
+    } else if (finalPopulation >= EXPLOSION_FACTOR * populations[0]) {
+      outcome = 'explodes';
+    } else {
+      outcome = 'chaotic';
+    }
+
+    return {
+      rule: formatRule(rules, gridSize.length),
+      rules,
+      outcome,
+      settledAt: status.kind === 'running' || status.kind === 'extinct' ? null : status.since,
+      period: status.kind === 'oscillator' || status.kind === 'spaceship' ? status.period : null,
+      finalPopulation,
+      peakPopulation: Math.max(...populations),
+      populations,
+      sampleInterval,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { formatRule, parseRule } from './rules';
+
+describe('rules', () => {
+  it('parses and formats birth/survival rules', () => {
+    const rules = parseRule('B3/S23', 2);
+    expect(rules.birth).toEqual([3]);
+    expect(rules.survive).toEqual([2, 3]);
+    expect(rules.states).toBe(2);
+    expect(formatRule(rules, 2)).toBe('B3/S23');
+  });
+
+  it('accepts parts in any order and in any case', () => {
+    expect(parseRule('s5-7/b6', 3)).toEqual(parseRule('B6/S5-7', 3));
+  });
+
+  it('round-trips Generations rules', () => {
+    const rules = parseRule('4-5/2/4', 3);
+    expect(rules.survive).toEqual([4, 5]);
+    expect(rules.birth).toEqual([2]);
+    expect(rules.states).toBe(4);
+    expect(parseRule(formatRule(rules, 3), 3)).toEqual(rules);
+  });
+
+  it('rejects counts beyond the neighborhood', () => {
+    expect(() => parseRule('B9/S23', 2)).toThrow();
+    expect(() => parseRule('nonsense', 2)).toThrow();
+  });
+
+  it('checks counts against the chosen neighborhood', () => {
+    const rules = parseRule('B2/S1/N', 2);
+    expect(rules.neighborhood).toEqual({ type: 'vonNeumann', radius: 1 });
+    expect(() => parseRule('B5/S1/N', 2)).toThrow();
+    expect(parseRule('B5/S1/N', 3).birth).toEqual([5]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Birth/survival rule sets and the standard rule-string notations
+ *
+ * Rules are stored as sorted lists of neighbor counts and packed into
+ * bitmasks (one bit per count) for the engines. Accepted notation:
+ *   B5,8/S4,6,9    comma-separated counts
+ *   B6/S5-7        inclusive ranges
+ *   B3/S23         single-digit counts without separators (2D only)
+ *   B4/S4/C5       Generations rule with 5 states
+ *   4/4/5/M        Generations in survive/birth/states/neighborhood order
+ *   B2/S1-3/N2     neighborhood part: M (Moore) or N (von Neumann), with an
+ *                  optional radius
+ *
+ * Custom offset neighborhoods have no string form; a rule string without a
+ * neighborhood part keeps the neighborhood it is parsed against.
+ */
+
+import type { Dimension, SimulationRules } from './SimulationEngine';
+import {
+  MAX_RADIUS,
+  MOORE_NEIGHBORHOOD,
+  Neighborhood,
+  cloneNeighborhood,
+  getNeighborhoodSize,
+  isDefaultNeighborhood,
+} from './neighborhoods';
+
+/** Upper bound on Generations states (cell values must fit in a byte) */
+export const MAX_STATES = 256;
+
+/** Inclusive list of neighbor counts from min to max */
+export function range(min: number, max: number): number[] {
+  const counts: number[] = [];
+  for (let n = min; n <= max; n++) {
+    counts.push(n);
+  }
+  return counts;
+}
+
+/**
+ * Build a rule set from the legacy survive/birth min-max bounds
+ */
+export function rulesFromRanges(
+  surviveMin: number,
+  surviveMax: number,
+  birthMin: number,
+  birthMax: number
+): SimulationRules {
+  return {
+    birth: range(birthMin, birthMax),
+    survive: range(surviveMin, surviveMax),
+    states: 2,
+    neighborhood: cloneNeighborhood(MOORE_NEIGHBORHOOD),
+  };
+}
+
+export function cloneRules(rules: SimulationRules): SimulationRules {
+  return {
+    birth: [...rules.birth],
+    survive: [...rules.survive],
+    states: rules.states,
+    neighborhood: cloneNeighborhood(rules.neighborhood),
+  };
+}
+
+function parseCounts(part: string, maxNeighbors: number): number[] {
+  const counts = new Set<number>();
+  if (part === '') {
+    return [];
+  }
+
+  // Golly-style "23" means {2, 3} when every count is a single digit
+  const tokens = maxNeighbors <= 9 && /^\d+$/.test(part)
+    ? part.split('')
+    : part.split(',');
+
+  for (const token of tokens) {
+    const match = token.trim().match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid neighbor count "${token}"`);
+    }
+
+    const min = parseInt(match[1]);
+    const max = match[2] !== undefined ? parseInt(match[2]) : min;
+    if (min > max) {
+      throw new Error(`Invalid range "${token}"`);
+    }
+    if (max > maxNeighbors) {
+      throw new Error(`Neighbor count ${max} exceeds the maximum of ${maxNeighbors}`);
+    }
+
+    range(min, max).forEach(n => counts.add(n));
+  }
+
+  return [...counts].sort((a, b) => a - b);
+}
+
+function parseStates(part: string): number {
+  const states = /^\d+$/.test(part) ? parseInt(part) : NaN;
+  if (!(states >= 2 && states <= MAX_STATES)) {
+    throw new Error(`State count must be between 2 and ${MAX_STATES}, got "${part}"`);
+  }
+  return states;
+}
+
+function parseNeighborhood(part: string): Neighborhood {
+  const match = part.match(/^([MN])(\d*)$/);
+  if (!match) {
+    throw new Error(`Unsupported neighborhood "${part}", expected M (Moore) or N (von Neumann)`);
+  }
+
+  const radius = match[2] !== '' ? parseInt(match[2]) : 1;
+  if (radius < 1 || radius > MAX_RADIUS) {
+    throw new Error(`Neighborhood radius must be between 1 and ${MAX_RADIUS}, got ${radius}`);
+  }
+  return { type: match[1] === 'M' ? 'moore' : 'vonNeumann', radius };
+}
+
+const isNeighborhoodPart = (part: string) => /^[MN]\d*$/.test(part);
+
+/**
+ * Parse a rule string: "B.../S...[/C...][/N]" with parts in any order, or the
+ * Generations form "S/B/C[/N]" (case-insensitive). Neighbor counts are
+ * validated against the size of the resulting neighborhood.
+ */
+export function parseRule(
+  text: string,
+  dimensions: number,
+  defaultNeighborhood: Neighborhood = MOORE_NEIGHBORHOOD
+): SimulationRules {
+  const parts = text.replace(/\s+/g, '').toUpperCase().split('/');
+
+  // Positional survive/birth/states[/neighborhood] notation
+  if (!parts.some(part => /^[BS]/.test(part))) {
+    if (parts.length !== 3 && parts.length !== 4) {
+      throw new Error(`Invalid rule "${text}", expected B.../S... or S/B/C/N`);
+    }
+    const neighborhood = parts.length === 4
+      ? parseNeighborhood(parts[3])
+      : cloneNeighborhood(defaultNeighborhood);
+    const maxNeighbors = getNeighborhoodSize(neighborhood, dimensions);
+    return {
+      survive: parseCounts(parts[0], maxNeighbors),
+      birth: parseCounts(parts[1], maxNeighbors),
+      states: parseStates(parts[2]),
+      neighborhood,
+    };
+  }
+
+  // The neighborhood decides the valid count range, so resolve it first
+  const neighborhoodParts = parts.filter(isNeighborhoodPart);
+  if (neighborhoodParts.length > 1) {
+    throw new Error(`Invalid rule "${text}", more than one neighborhood`);
+  }
+  const neighborhood = neighborhoodParts.length === 1
+    ? parseNeighborhood(neighborhoodParts[0])
+    : cloneNeighborhood(defaultNeighborhood);
+  const maxNeighbors = getNeighborhoodSize(neighborhood, dimensions);
+
+  let birth: number[] | null = null;
+  let survive: number[] | null = null;
+  let states: number | null = null;
+
+  for (const part of parts) {
+    const prefix = part.charAt(0);
+    if (isNeighborhoodPart(part)) {
+      continue;
+    } else if (prefix === 'B' && birth === null) {
+      birth = parseCounts(part.slice(1), maxNeighbors);
+    } else if (prefix === 'S' && survive === null) {
+      survive = parseCounts(part.slice(1), maxNeighbors);
+    } else if ((prefix === 'C' || prefix === 'G') && states === null) {
+      states = parseStates(part.slice(1));
+    } else {
+      throw new Error(`Invalid rule "${text}", expected B.../S...`);
+    }
+  }
+
+  if (birth === null || survive === null) {
+    throw new Error(`Invalid rule "${text}", expected B.../S...`);
+  }
+
+  return { birth, survive, states: states ?? 2, neighborhood };
+}
+
+function formatCounts(counts: number[], maxNeighbors: number): string {
+  const sorted = [...new Set(counts)].sort((a, b) => a - b);
+
+  if (maxNeighbors <= 9) {
+    return sorted.join('');
+  }
+
+  // Collapse runs of three or more consecutive counts into ranges
+  const tokens: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) {
+      j++;
+    }
+    if (j - i >= 2) {
+      tokens.push(`${sorted[i]}-${sorted[j]}`);
+      i = j;
+    } else {
+      tokens.push(sorted[i].toString());
+    }
+  }
+  return tokens.join(',');
+}
+
+function formatNeighborhood(neighborhood: Neighborhood): string {
+  const letter = neighborhood.type === 'vonNeumann' ? 'N' : 'M';
+  return neighborhood.radius > 1 ? `${letter}${neighborhood.radius}` : letter;
+}
+
+/**
+ * Format a rule set as "B.../S...", or as "S/B/C/M" for Generations rules.
+ * Non-default Moore and von Neumann neighborhoods are appended; custom
+ * neighborhoods are left out.
+ */
+export function formatRule(rules: SimulationRules, dimensions: number): string {
+  const maxNeighbors = getNeighborhoodSize(rules.neighborhood, dimensions);
+  const birth = formatCounts(rules.birth, maxNeighbors);
+  const survive = formatCounts(rules.survive, maxNeighbors);
+  const isCustom = rules.neighborhood.type === 'custom';
+
+  if (rules.states > 2) {
+    const neighborhood = isCustom ? '' : `/${formatNeighborhood(rules.neighborhood)}`;
+    return `${survive}/${birth}/${rules.states}${neighborhood}`;
+  }
+
+  const neighborhood = isCustom || isDefaultNeighborhood(rules.neighborhood)
+    ? ''
+    : `/${formatNeighborhood(rules.neighborhood)}`;
+  return `B${birth}/S${survive}${neighborhood}`;
+}
+
+/** Number of u32 words needed for one bit per neighbor count 0..maxNeighbors */
+export function getRuleMaskWords(maxNeighbors: number): number {
+  return Math.ceil((maxNeighbors + 1) / 32);
+}
+
+/**
+ * Pack a rule set into bitmasks: survive words followed by birth words
+ */
+export function rulesToMasks(rules: SimulationRules, maxNeighbors: number): Uint32Array {
+  const words = getRuleMaskWords(maxNeighbors);
+  const masks = new Uint32Array(words * 2);
+
+  const setBits = (counts: number[], offset: number) => {
+    for (const n of counts) {
+      if (n >= 0 && n <= maxNeighbors) {
+        masks[offset + (n >>> 5)] |= 1 << (n & 31);
+      }
+    }
+  };
+
+  setBits(rules.survive, 0);
+  setBits(rules.birth, words);
+  return masks;
+}
+
+/**
+ * Test a neighbor count against a packed mask starting at the given word offset
+ */
+export function hasRuleBit(masks: Uint32Array, offset: number, count: number): boolean {
+  return ((masks[offset + (count >>> 5)] >>> (count & 31)) & 1) === 1;
+}
+
+export interface RulePreset {
+  name: string;
+  rule: string;
+}
+
+/**
+ * Named rules offered in the rule editor, per dimension
+ */
+export const RULE_PRESETS: Partial<Record<Dimension, RulePreset[]>> = {
+  2: [
+    { name: "Conway's Life", rule: 'B3/S23' },
+    { name: 'HighLife', rule: 'B36/S23' },
+    { name: 'Day & Night', rule: 'B3678/S34678' },
+    { name: "Brian's Brain", rule: '/2/3' },
+    { name: 'Star Wars', rule: '345/2/4' },
+  ],
+  3: [
+    { name: 'Bays 5766 (default)', rule: 'B6/S5-7' },
+    { name: 'Bays 4555', rule: 'B5/S4-5' },
+    { name: 'Gappy B5,8/S4,6,9', rule: 'B5,8/S4,6,9' },
+    { name: '445', rule: '4/4/5/M' },
+    { name: 'Amoeba', rule: '9-26/5-7,12-13,15/5/M' },
+    { name: 'Builder 1', rule: '2,6,9/4,6,8-9/10/M' },
+    { name: 'Clouds 1', rule: '13-26/13-14,17-19/2/M' },
+    { name: 'Clouds 2', rule: '12-26/13-14/2/M' },
+    { name: 'Coral', rule: '5-8/6-7,9,12/4/M' },
+    { name: 'Crystal Growth 1', rule: '0-6/1,3/2/N' },
+    { name: 'Crystal Growth 2', rule: '1-2/1,3/5/N' },
+    { name: 'Pyroclastic', rule: '4-7/6-8/10/M' },
+    { name: 'Slow Decay', rule: '1,4,8,11,13-26/13-26/5/M' },
+  ],
+  4: [
+    { name: 'Default', rule: 'B6-9/S7-10' },
+  ],
+};
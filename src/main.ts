@@ -1,52 +1,187 @@
 /**
  * Main Application Entry Point
- * 3D/4D Game of Life with WebGPU
+ * N-dimensional Game of Life with WebGPU
  */
 
 import { GPUEngine } from './engine/GPUEngine';
-import { GameOfLife3D } from './engine/GameOfLife3D';
-import { GameOfLife4D } from './engine/GameOfLife4D';
-import { VoxelRenderer, RenderMode } from './renderer/VoxelRenderer';
+import {
+  ActivityWindow,
+  Dimension,
+  SimulationConfig,
+  SimulationEngine,
+  SimulationRules,
+  SimulationStats,
+  SUPPORTED_DIMENSIONS,
+  createDefaultSoup,
+  isSupportedDimension,
+} from './engine/SimulationEngine';
+import { cloneRules, formatRule, parseRule } from './engine/rules';
+import { getNeighborhoodReach } from './engine/neighborhoods';
+import { createSimulation } from './engine/createSimulation';
+import { DEFAULT_HISTORY_BUDGET } from './engine/history';
+import { RuleExploration, RuleExplorer, enumerateSweep } from './engine/ruleExplorer';
+import { PatternSearch, SearchFind } from './engine/patternSearch';
+import { PatternVerdict, PatternVerifier } from './engine/patternVerifier';
+import { CollisionLab, CollisionResult, countCollisions } from './engine/collisionLab';
+import { CellPick, VoxelRenderer, RenderMode, ColorScheme } from './renderer/VoxelRenderer';
+import { DEFAULT_GRADIENT, GradientName } from './renderer/gradients';
 import { Controls } from './ui/Controls';
+import { RuleExplorerPanel, RuleExplorerRequest } from './ui/RuleExplorerPanel';
+import { PatternSearchPanel, PatternSearchRequest } from './ui/PatternSearchPanel';
+import { CollisionLabPanel, CollisionLabRequest } from './ui/CollisionLabPanel';
 import { PerformanceMonitor } from './utils/performance';
 import { StateSerializer } from './utils/serialization';
-import { PATTERNS_3D, createPatternGrid } from './patterns/patterns-3d';
-import { PATTERNS_4D, createPatternGrid4D } from './patterns/patterns-4d';
+import { get3DViewSize, getCellCount, getSliceStart } from './utils/grid';
+import { PackedCells, createPackedCells } from './utils/packing';
+import { SOUP_PATTERN_PREFIX, SoupParams, SoupSymmetry, createSoup } from './utils/soup';
+import { CycleDetector, formatSpeed } from './utils/cycles';
+import {
+  Connectivity,
+  ObjectLabels,
+  ObjectTracker,
+  TrackedObject,
+  getDefaultConnectivity,
+  labelObjects,
+} from './utils/components';
+import { createPatternGridND, getPatternLibrary } from './patterns';
+import { addUserPattern, getUserPatterns, removeUserPattern } from './patterns/collection';
+import { PatternPlacement, defaultPlacement, getOrientations, transformPattern } from './patterns/transforms';
+
+/** Most generations run in one frame at a fixed speed; a longer backlog is dropped */
+const MAX_STEPS_PER_FRAME = 64;
+/** Time turbo mode spends stepping between renders, in milliseconds */
+const TURBO_FRAME_BUDGET = 12;
+/** Largest turbo batch, bounding one submission */
+const MAX_TURBO_BATCH = 4096;
 
 class GameOfLifeApp {
   private gpuEngine: GPUEngine;
-  private game3D: GameOfLife3D | null = null;
-  private game4D: GameOfLife4D | null = null;
+  private engines = new Map<Dimension, SimulationEngine>();
   private renderer: VoxelRenderer | null = null;
   private controls: Controls | null = null;
+  private explorerPanel: RuleExplorerPanel | null = null;
+  private searchPanel: PatternSearchPanel | null = null;
+  private collisionPanel: CollisionLabPanel | null = null;
   private performanceMonitor: PerformanceMonitor;
 
-  private currentDimension: '3D' | '4D' = '3D';
+  private currentDimension: Dimension = 3;
   private isPlaying = false;
   private stepsPerSecond = 5;
   private lastStepTime = 0;
   private generation = 0;
+  /** Generation of each cached engine while another dimension is shown */
+  private generations = new Map<Dimension, number>();
+
+  /** Turbo mode: step as fast as the frame budget allows */
+  private turbo = false;
+  /** Generations per turbo batch, adapted to the measured step time */
+  private turboBatch = 1;
+
+  private gridSizes: Record<Dimension, number[]> = {
+    2: [128, 128],
+    3: [40, 40, 40],
+    4: [24, 24, 24, 24],
+    5: [12, 12, 12, 12, 12],
+  };
+
+  /** Parameters of the next random soup per dimension */
+  private soups = Object.fromEntries(
+    SUPPORTED_DIMENSIONS.map(dimension => [dimension, createDefaultSoup(dimension)])
+  ) as Record<Dimension, SoupParams>;
+  /** Soup each engine's run started from; absent after loading a pattern or a state without one */
+  private soupOrigins = new Map<Dimension, SoupParams>();
+  /** Orientation and position patterns are loaded with, per dimension */
+  private placements = Object.fromEntries(
+    SUPPORTED_DIMENSIONS.map(dimension => [dimension, defaultPlacement(dimension)])
+  ) as Record<Dimension, PatternPlacement>;
+
+  /** Largest edge length offered per dimension (256³ and 64⁴ fit with packed storage) */
+  private maxGridSizes: Record<Dimension, number> = {
+    2: 4096,
+    3: 256,
+    4: 64,
+    5: 24,
+  };
+
+  /** Latest statistics read back from the engine */
+  private stats: SimulationStats | null = null;
+  /** Set whenever the state changes; cleared when a stats read starts */
+  private statsDirty = true;
+  private statsPending = false;
+
+  /** Settle detection per dimension, fed with the state hashes of its engine */
+  private cycleDetectors = new Map<Dimension, CycleDetector>();
+  private cycleCheckPending = false;
+  /** Pause as soon as the run is found to be extinct, still or oscillating */
+  private autoPause = false;
 
-  private gridSize3D: [number, number, number] = [40, 40, 40];
-  private gridSize4D: [number, number, number, number] = [24, 24, 24, 24];
+  /** Objects are labeled while their list is shown or they are colored */
+  private objectTracking = false;
+  private connectivity = Object.fromEntries(
+    SUPPORTED_DIMENSIONS.map(dimension => [dimension, getDefaultConnectivity(dimension)])
+  ) as Record<Dimension, Connectivity>;
+  /** Latest labeling and the engine it was taken from */
+  private objects: {
+    engine: SimulationEngine;
+    analysis: ObjectLabels;
+    tracked: TrackedObject[];
+  } | null = null;
+  private objectTracker = new ObjectTracker();
+  private objectsDirty = true;
+  private objectsPending = false;
+
+  /** Headless rule sweeps, run on their own engine */
+  private ruleExplorer: RuleExplorer;
+  /** Dimension of the sweep shown in the explorer */
+  private explorerDimension: Dimension = 3;
+  /** Evolutionary pattern search, run on its own engines */
+  private patternSearch: PatternSearch;
+  /** Behavior checks of the pattern list, under the current rules */
+  private patternVerifier: PatternVerifier;
+  /** Collision sweeps of two patterns, run on their own engine */
+  private collisionLab: CollisionLab;
+  /** Dimension and rules of the sweep shown in the collision lab */
+  private collisionDimension: Dimension = 3;
+  private collisionRules: SimulationRules | null = null;
+
+  private colorScheme: ColorScheme = 'default';
+  private gradient: GradientName = DEFAULT_GRADIENT;
+  /** Window the heatmap accumulates over; activity is only tracked while it is shown */
+  private activityWindow: ActivityWindow = 'cumulative';
+
+  /** Bytes of past generations each engine keeps for rewinding */
+  private historyBudget = DEFAULT_HISTORY_BUDGET;
+
+  /** Coordinates of the displayed slice along the axes beyond Z */
+  private sliceCoords: number[] = [];
+
+  /** Edit mode: Shift+click in the view toggles cells */
+  private editMode = false;
+  /** Z layer of the cursor plane in the 3D view */
+  private editLayer = 0;
+  /** Whether an edit is being written; steps wait for it */
+  private editPending = false;
 
   private animationFrameId: number | null = null;
 
   constructor() {
     this.gpuEngine = new GPUEngine();
     this.performanceMonitor = new PerformanceMonitor();
+    this.ruleExplorer = new RuleExplorer(this.gpuEngine);
+    this.patternSearch = new PatternSearch(this.gpuEngine);
+    this.patternVerifier = new PatternVerifier(this.gpuEngine);
+    this.collisionLab = new CollisionLab(this.gpuEngine);
   }
 
   async init(): Promise<void> {
-    // Check WebGPU support
+    // Check WebGPU support, falling back to the CPU reference engine
     const supported = await this.gpuEngine.init();
     if (!supported) {
-      this.showError('WebGPU is not supported in your browser. Please use Chrome 120+, Edge 120+, or Firefox 130+.');
-      return;
+      console.warn('WebGPU is not available, using the CPU reference engine');
     }
 
     // Initialize 3D game first
-    await this.initGame3D();
+    await this.initEngine(this.currentDimension);
 
     // Setup renderer
     const canvas = document.getElementById('canvas') as HTMLCanvasElement;
@@ -55,8 +190,9 @@ class GameOfLifeApp {
     }
 
     this.renderer = new VoxelRenderer(canvas, {
-      gridSize: this.gridSize3D,
+      gridSize: get3DViewSize(this.gridSizes[this.currentDimension]),
       renderMode: 'cubes',
+      onCellEdit: (pick) => this.editCell(pick),
     });
 
     // Setup controls
@@ -65,15 +201,55 @@ class GameOfLifeApp {
       onPause: () => this.pause(),
       onReset: () => this.reset(),
       onStep: () => this.step(),
+      onStepBack: () => this.stepBack(),
+      onRewind: (position) => this.rewind(position),
+      onHistoryBudgetChange: (megabytes) => this.setHistoryBudget(megabytes * 1024 * 1024),
+      onAutoPauseChange: (enabled) => { this.autoPause = enabled; },
+      onObjectTrackingChange: (enabled) => this.setObjectTracking(enabled),
+      onConnectivityChange: (connectivity) => this.setConnectivity(connectivity),
       onSpeedChange: (speed) => this.setSpeed(speed),
+      onTurboChange: (enabled) => this.setTurbo(enabled),
       onDimensionChange: (dimension) => this.switchDimension(dimension),
       onPatternChange: (pattern) => this.loadPattern(pattern),
+      onVerifyPatterns: () => this.verifyPatterns(true),
+      onPlacementChange: (placement) => { this.placements[this.currentDimension] = placement; },
+      onEditModeChange: (enabled) => this.setEditMode(enabled),
+      onEditLayerChange: (layer) => this.setEditLayer(layer),
+      onClearCells: () => this.clearCells(),
       onRenderModeChange: (mode) => this.setRenderMode(mode),
-      onRulesChange: (sMin, sMax, bMin, bMax) => this.updateRules(sMin, sMax, bMin, bMax),
-      onWSliceChange: (w) => this.setWSlice(w),
+      onColorSchemeChange: (scheme, gradient) => this.setColorScheme(scheme, gradient),
+      onActivityWindowChange: (window) => this.setActivityWindow(window),
+      onRulesChange: (rules) => this.updateRules(rules),
+      onOpenExplorer: () => this.openExplorer(),
+      onOpenSearch: () => this.openSearch(),
+      onOpenCollisions: () => this.openCollisions(),
+      onSliceChange: (axis, value) => this.setSlice(axis, value),
+      onGridSizeChange: (size) => this.setGridSize(size),
+      onSoupChange: (soup) => this.setSoup(soup),
+      onBoundaryChange: (boundaries) => this.engine?.setBoundaries(boundaries),
       onExport: () => this.exportState(),
       onImport: (file) => this.importState(file),
     });
+    this.explorerPanel = new RuleExplorerPanel('explorer', {
+      onRun: (request) => this.exploreRules(request),
+      onStop: () => this.ruleExplorer.stop(),
+      onSelect: (result) => this.loadExploredRule(result),
+    });
+    this.searchPanel = new PatternSearchPanel('search', {
+      onRun: (request) => this.searchPatterns(request),
+      onStop: () => this.patternSearch.stop(),
+      onLoad: (key) => {
+        this.loadPattern(key);
+        this.controls?.setPattern(key);
+      },
+      onRemove: (key) => this.removeUserPattern(key),
+    });
+    this.collisionPanel = new CollisionLabPanel('collisions', {
+      onRun: (request) => this.collidePatterns(request),
+      onStop: () => this.collisionLab.stop(),
+      onSelect: (result) => this.loadCollision(result),
+    });
+    this.syncControls();
 
     // Start render loop
     this.startRenderLoop();
@@ -84,67 +260,148 @@ class GameOfLifeApp {
     console.log('Game of Life initialized successfully!');
   }
 
-  private async initGame3D(): Promise<void> {
-    this.game3D = new GameOfLife3D(this.gpuEngine, {
-      gridSize: this.gridSize3D,
-      surviveMin: 5,
-      surviveMax: 7,
-      birthMin: 6,
-      birthMax: 6,
-    });
-    await this.game3D.init();
-    this.generation = 0;
+  private get engine(): SimulationEngine | null {
+    return this.engines.get(this.currentDimension) ?? null;
   }
 
-  private async initGame4D(): Promise<void> {
-    this.game4D = new GameOfLife4D(this.gpuEngine, {
-      gridSize: this.gridSize4D,
-      surviveMin: 7,
-      surviveMax: 10,
-      birthMin: 6,
-      birthMax: 9,
+  /**
+   * Create a dimension's engine with the given grid size, starting from
+   * `initialState` or else from the dimension's soup. The previous engine and
+   * grid size are only replaced once the new engine is up, so a failure
+   * leaves them as they were.
+   */
+  private async initEngine(
+    dimension: Dimension,
+    initialState?: PackedCells,
+    settings: Pick<SimulationConfig, 'rules' | 'boundaries'> = {},
+    gridSize: number[] = this.gridSizes[dimension]
+  ): Promise<void> {
+    // Keep the rules and boundaries when an engine is recreated (e.g. resized)
+    const previous = this.engines.get(dimension);
+    const rules = settings.rules ?? previous?.getRules();
+    const boundaries = settings.boundaries ?? previous?.getBoundaries();
+
+    const engine = createSimulation(this.gpuEngine, {
+      gridSize,
+      rules,
+      boundaries,
+      soup: this.soups[dimension],
     });
-    await this.game4D.init();
+    try {
+      await engine.init(initialState);
+    } catch (error) {
+      engine.destroy();
+      throw error;
+    }
+    previous?.destroy();
+    this.gridSizes[dimension] = gridSize;
+    engine.setActivityTracking(this.getActivityTracking());
+    engine.setHistoryBudget(this.historyBudget);
+    engine.setStateHashing(true);
+    this.engines.set(dimension, engine);
+    this.setSoupOrigin(dimension, initialState ? null : this.soups[dimension]);
     this.generation = 0;
+  }
+
+  private setSoupOrigin(dimension: Dimension, soup: SoupParams | null): void {
+    if (soup) {
+      this.soupOrigins.set(dimension, { ...soup });
+    } else {
+      this.soupOrigins.delete(dimension);
+    }
+  }
+
+  /**
+   * Recreate the renderer for the current grid's 3D view
+   */
+  private recreateRenderer(): void {
+    if (this.renderer) {
+      this.renderer.destroy();
+      const canvas = document.getElementById('canvas') as HTMLCanvasElement;
+      this.renderer = new VoxelRenderer(canvas, {
+        gridSize: get3DViewSize(this.gridSizes[this.currentDimension]),
+        colorScheme: this.colorScheme,
+        gradient: this.gradient,
+        onCellEdit: (pick) => this.editCell(pick),
+      });
+      this.renderer.setEditMode(this.editMode);
+      this.applyObjectLabels();
+    }
+  }
+
+  /**
+   * Push the current engine's rules and slice axes into the UI
+   */
+  private syncControls(): void {
+    const gridSize = this.gridSizes[this.currentDimension];
+    this.sliceCoords = gridSize.slice(3).map(() => 0);
+
+    if (this.controls && this.engine) {
+      this.controls.setDimension(this.currentDimension);
+      this.controls.setRules(this.engine.getRules());
+      this.controls.setGridSize(gridSize[0], this.maxGridSizes[this.currentDimension]);
+      this.controls.setSliceAxes(gridSize);
+      this.controls.setBoundaries(this.engine.getBoundaries());
+      this.controls.setConnectivity(this.connectivity[this.currentDimension]);
+      this.controls.setSoup(this.soups[this.currentDimension]);
+      this.controls.setPlacement(this.placements[this.currentDimension]);
+      this.controls.setUserPatterns(getUserPatterns(this.currentDimension));
+    }
+    this.searchPanel?.setDimension(this.currentDimension);
+    this.searchPanel?.setCollection(getUserPatterns(this.currentDimension));
+    this.collisionPanel?.setLibrary(this.currentDimension, getPatternLibrary(this.currentDimension));
+    this.setEditLayer(this.editLayer);
+    this.verifyPatterns();
+  }
 
-    if (this.controls) {
-      this.controls.setWSliderMax(this.gridSize4D[3]);
+  /**
+   * Check the current dimension's patterns in the background and annotate
+   * the pattern list as verdicts come in; patterns without a rule of their
+   * own are checked under the current one. Without WebGPU the checks would
+   * compete with the view for the main thread, so they only run when asked
+   * for.
+   */
+  private verifyPatterns(requested = false): void {
+    const controls = this.controls;
+    const engine = this.engine;
+    if (!controls || !engine) return;
+
+    const verdicts: Record<string, PatternVerdict> = {};
+    controls.setPatternVerdicts(verdicts);
+    if (!requested && !this.gpuEngine.isInitialized) {
+      this.patternVerifier.stop();
+      return;
     }
+    this.patternVerifier
+      .verify(getPatternLibrary(this.currentDimension), this.currentDimension, engine.getRules(), (key, verdict) => {
+        verdicts[key] = verdict;
+        controls.setPatternVerdicts(verdicts);
+      })
+      .catch(error => console.error('Failed to verify patterns:', error));
   }
 
-  private async switchDimension(dimension: '3D' | '4D'): Promise<void> {
+  private async switchDimension(dimension: Dimension): Promise<void> {
     this.pause();
+    // A cached engine carries on where it was, history included
+    this.generations.set(this.currentDimension, this.generation);
     this.currentDimension = dimension;
-    this.generation = 0;
+    this.generation = this.generations.get(dimension) ?? 0;
 
-    if (dimension === '3D') {
-      if (!this.game3D) {
-        await this.initGame3D();
-      }
-      if (this.renderer) {
-        this.renderer.destroy();
-        const canvas = document.getElementById('canvas') as HTMLCanvasElement;
-        this.renderer = new VoxelRenderer(canvas, {
-          gridSize: this.gridSize3D,
-        });
-      }
-    } else {
-      if (!this.game4D) {
-        await this.initGame4D();
-      }
-      if (this.renderer) {
-        this.renderer.destroy();
-        const canvas = document.getElementById('canvas') as HTMLCanvasElement;
-        this.renderer = new VoxelRenderer(canvas, {
-          gridSize: [this.gridSize4D[0], this.gridSize4D[1], this.gridSize4D[2]],
-        });
-      }
+    if (!this.engine) {
+      await this.initEngine(dimension);
     }
 
+    this.recreateRenderer();
+    this.syncControls();
     await this.updateVisualization();
   }
 
   private play(): void {
+    // A pending edit patches the current generation, so it has to land first
+    if (this.editPending) {
+      this.controls?.pause();
+      return;
+    }
     this.isPlaying = true;
     this.lastStepTime = performance.now();
   }
@@ -153,35 +410,108 @@ class GameOfLifeApp {
     this.isPlaying = false;
   }
 
+  /**
+   * Start over from the current soup parameters; the same parameters always
+   * roll the same soup
+   */
   private reset(): void {
     this.pause();
     this.generation = 0;
+    const soup = this.soups[this.currentDimension];
+    if (this.engine) {
+      this.engine.reset(createSoup(this.gridSizes[this.currentDimension], soup));
+      this.setSoupOrigin(this.currentDimension, soup);
+      this.objectTracker.clear();
+    }
+    this.updateVisualization();
+  }
+
+  private setSoup(soup: SoupParams): void {
+    this.soups[this.currentDimension] = { ...soup };
+    this.reset();
+  }
+
+  private step(): void {
+    this.advance(1);
+  }
 
-    if (this.currentDimension === '3D' && this.game3D) {
-      this.game3D.reset();
-    } else if (this.currentDimension === '4D' && this.game4D) {
-      this.game4D.reset();
+  private stepBack(): void {
+    if (this.engine) {
+      this.rewind(this.engine.getHistoryPosition() - 1);
     }
+  }
+
+  /**
+   * Show a recorded generation; stepping on from it records the history anew
+   */
+  private rewind(position: number): void {
+    this.pause();
+    const engine = this.engine;
+    if (!engine || this.editPending || position < 0 || position >= engine.getHistoryLength()) return;
 
+    this.generation += position - engine.getHistoryPosition();
+    engine.seekHistory(position);
+    this.objectTracker.clear();
     this.updateVisualization();
   }
 
-  private step(): void {
-    if (this.currentDimension === '3D' && this.game3D) {
-      this.game3D.step();
-      this.generation++;
-    } else if (this.currentDimension === '4D' && this.game4D) {
-      this.game4D.step();
-      this.generation++;
+  private setHistoryBudget(bytes: number): void {
+    this.historyBudget = bytes;
+    for (const engine of this.engines.values()) {
+      engine.setHistoryBudget(bytes);
+    }
+    this.updateVisualization();
+  }
+
+  /**
+   * Run several generations in one batch and show the result
+   */
+  private advance(generations: number): void {
+    if (this.editPending) return;
+
+    if (this.engine) {
+      this.engine.stepMany(generations);
+      this.generation += generations;
     }
 
     this.updateVisualization();
   }
 
+  /**
+   * Run one turbo batch, then resize the next batch so that it fills the
+   * frame budget. Waiting for the GPU keeps the queue from running ahead of
+   * the renderer.
+   */
+  private async advanceTurbo(engine: SimulationEngine): Promise<void> {
+    if (this.editPending) return;
+
+    const generations = this.turboBatch;
+    const start = performance.now();
+    engine.stepMany(generations);
+    await engine.whenIdle();
+
+    // The engine may have been replaced (reset, resize, import) while waiting
+    if (engine !== this.engine) return;
+    this.generation += generations;
+
+    const elapsed = Math.max(performance.now() - start, 1);
+    // Grow at most 2x per batch so one fast outlier cannot overshoot the budget
+    const next = Math.round((generations * TURBO_FRAME_BUDGET) / elapsed);
+    this.turboBatch = Math.max(1, Math.min(next, generations * 2, MAX_TURBO_BATCH));
+
+    this.updateVisualization();
+  }
+
   private setSpeed(stepsPerSecond: number): void {
     this.stepsPerSecond = stepsPerSecond;
   }
 
+  private setTurbo(enabled: boolean): void {
+    this.turbo = enabled;
+    this.turboBatch = 1;
+    this.lastStepTime = performance.now();
+  }
+
   private setRenderMode(mode: RenderMode): void {
     if (this.renderer) {
       this.renderer.setRenderMode(mode);
@@ -189,61 +519,432 @@ class GameOfLifeApp {
     }
   }
 
-  private updateRules(surviveMin: number, surviveMax: number, birthMin: number, birthMax: number): void {
-    if (this.currentDimension === '3D' && this.game3D) {
-      this.game3D.updateRules(surviveMin, surviveMax, birthMin, birthMax);
-    } else if (this.currentDimension === '4D' && this.game4D) {
-      this.game4D.updateRules(surviveMin, surviveMax, birthMin, birthMax);
+  private setColorScheme(scheme: ColorScheme, gradient: GradientName): void {
+    this.colorScheme = scheme;
+    this.gradient = gradient;
+    this.applyActivityTracking();
+    this.renderer?.setColorScheme(scheme, gradient);
+    this.applyObjectLabels();
+    this.updateVisualization();
+  }
+
+  private setActivityWindow(window: ActivityWindow): void {
+    this.activityWindow = window;
+    this.applyActivityTracking();
+    this.updateVisualization();
+  }
+
+  private getActivityTracking(): ActivityWindow | null {
+    return this.colorScheme === 'heatmap' ? this.activityWindow : null;
+  }
+
+  /**
+   * Track activity in every engine while the heatmap is shown, so switching
+   * dimensions keeps accumulating
+   */
+  private applyActivityTracking(): void {
+    const tracking = this.getActivityTracking();
+    for (const engine of this.engines.values()) {
+      engine.setActivityTracking(tracking);
+    }
+  }
+
+  private updateRules(rules: SimulationRules): void {
+    this.engine?.updateRules(rules);
+    this.verifyPatterns();
+    this.updateVisualization();
+  }
+
+  /**
+   * Resize every axis of the current grid, starting from a fresh soup
+   */
+  private async setGridSize(size: number): Promise<void> {
+    this.pause();
+    const edge = Math.max(4, Math.min(Math.floor(size), this.maxGridSizes[this.currentDimension]));
+
+    await this.initEngine(this.currentDimension, undefined, {}, this.gridSizes[this.currentDimension].map(() => edge));
+    this.recreateRenderer();
+    this.syncControls();
+    await this.updateVisualization();
+  }
+
+  private setSlice(axis: number, value: number): void {
+    this.sliceCoords[axis] = value;
+    this.applyObjectLabels();
+    this.updateVisualization();
+  }
+
+  private setObjectTracking(enabled: boolean): void {
+    this.objectTracking = enabled;
+    this.objectsDirty = true;
+    if (!enabled) {
+      this.controls?.updateObjects(null);
+    }
+  }
+
+  private setConnectivity(connectivity: Connectivity): void {
+    this.connectivity[this.currentDimension] = connectivity;
+    this.objectsDirty = true;
+  }
+
+  private isLabelingObjects(): boolean {
+    return this.objectTracking || this.colorScheme === 'objects';
+  }
+
+  /**
+   * Hand the renderer the labels of the shown slice while objects are colored
+   */
+  private applyObjectLabels(): void {
+    if (!this.renderer) return;
+
+    const objects = this.objects;
+    if (!objects || objects.engine !== this.engine || this.colorScheme !== 'objects') {
+      this.renderer.setObjectLabels(null, []);
+      return;
     }
+
+    const gridSize = objects.analysis.gridSize;
+    const start = getSliceStart(gridSize, this.sliceCoords);
+    const labels = objects.analysis.labels.subarray(start, start + getCellCount(get3DViewSize(gridSize)));
+    this.renderer.setObjectLabels(labels, objects.tracked.map(object => object.id));
+  }
+
+  private openExplorer(): void {
+    if (!this.explorerPanel || !this.engine) return;
+
+    this.explorerPanel.setDimension(
+      this.currentDimension,
+      this.engine.getRules(),
+      this.maxGridSizes[this.currentDimension]
+    );
+    this.searchPanel?.close();
+    this.collisionPanel?.close();
+    this.explorerPanel.open();
   }
 
-  private setWSlice(w: number): void {
-    if (this.game4D) {
-      this.game4D.setWSlice(w);
+  /**
+   * Sweep the requested ranges with the current neighborhood, boundaries and
+   * soup, listing each outcome as it comes in
+   */
+  private async exploreRules(request: RuleExplorerRequest): Promise<void> {
+    const panel = this.explorerPanel;
+    const engine = this.engine;
+    if (!panel || !engine || this.ruleExplorer.isRunning()) return;
+
+    const dimension = this.currentDimension;
+    let rules: SimulationRules[];
+    try {
+      rules = enumerateSweep({
+        birth: request.birth,
+        survive: request.survive,
+        neighborhood: engine.getRules().neighborhood,
+      }, dimension);
+    } catch (error) {
+      panel.setStatus((error as Error).message);
+      return;
+    }
+
+    // The sweep shares the GPU with the view
+    this.controls?.pause();
+    this.explorerDimension = dimension;
+    panel.clearResults(request.generations);
+    panel.setRunning(true);
+    panel.setStatus(`0 of ${rules.length} rules`);
+
+    let explored = 0;
+    try {
+      await this.ruleExplorer.run(rules, {
+        gridSize: new Array<number>(dimension).fill(request.size),
+        boundaries: engine.getBoundaries(),
+        generations: request.generations,
+        soup: this.soups[dimension],
+      }, (result, index) => {
+        explored++;
+        panel.addResult(result, index);
+        panel.setStatus(`${explored} of ${rules.length} rules`);
+      });
+      panel.setStatus(explored < rules.length
+        ? `Stopped after ${explored} of ${rules.length} rules`
+        : `${explored} rules explored`);
+    } catch (error) {
+      console.error('Rule exploration failed:', error);
+      panel.setStatus(`Exploration failed: ${(error as Error).message}`);
+    } finally {
+      panel.setRunning(false);
+    }
+  }
+
+  /**
+   * Apply an explored rule to the main view and start over from the soup
+   */
+  private async loadExploredRule(result: RuleExploration): Promise<void> {
+    if (this.explorerDimension !== this.currentDimension) {
+      await this.switchDimension(this.explorerDimension);
+    }
+
+    const rules = cloneRules(result.rules);
+    this.engine?.updateRules(rules);
+    this.controls?.setRules(rules);
+    this.verifyPatterns();
+    this.reset();
+  }
+
+  private openSearch(): void {
+    this.explorerPanel?.close();
+    this.collisionPanel?.close();
+    this.searchPanel?.open();
+  }
+
+  /**
+   * Search under the current rule until stopped, saving every verified find
+   * to the collection
+   */
+  private async searchPatterns(request: PatternSearchRequest): Promise<void> {
+    const panel = this.searchPanel;
+    const engine = this.engine;
+    if (!panel || !engine || this.patternSearch.isRunning()) return;
+
+    // The search shares the GPU with the view
+    this.controls?.pause();
+    const dimension = this.currentDimension;
+    const rules = cloneRules(engine.getRules());
+    let saved = 0;
+    panel.setRunning(true);
+    panel.setStatus(`Searching under ${formatRule(rules, dimension)}…`);
+
+    try {
+      await this.patternSearch.run({ ...request, dimensions: dimension, rules }, (progress) => {
+        panel.setStatus(
+          `Round ${progress.round}: ${progress.evaluated.toLocaleString()} candidates, ` +
+          `best score ${progress.bestScore.toFixed(2)}, ${progress.finds} found, ${saved} new`
+        );
+      }, (find) => {
+        if (this.saveFind(dimension, rules, find)) {
+          saved++;
+        }
+      });
+      panel.setStatus(`Stopped; ${saved} new pattern${saved === 1 ? '' : 's'} saved`);
+    } catch (error) {
+      console.error('Pattern search failed:', error);
+      panel.setStatus(`Search failed: ${(error as Error).message}`);
+    } finally {
+      panel.setRunning(false);
+    }
+  }
+
+  /**
+   * Add a find to the collection; false when it was collected before
+   */
+  private saveFind(dimension: Dimension, rules: SimulationRules, find: SearchFind): boolean {
+    const rule = formatRule(rules, dimension);
+    const movement = `(${find.displacement.join(', ')}) per ${find.period}`;
+    const key = addUserPattern(dimension, {
+      name: find.kind === 'spaceship'
+        ? `${formatSpeed(find.displacement, find.period)} spaceship`
+        : `Period-${find.period} oscillator`,
+      description: find.kind === 'spaceship'
+        ? `Found by search under ${rule}; moves ${movement}`
+        : `Found by search under ${rule}; repeats every ${find.period} generations`,
+      size: find.size,
+      cells: find.cells,
+      rules: rule,
+      neighborhood: rules.neighborhood,
+      behavior: find.kind,
+      period: find.period,
+      displacement: find.displacement,
+      signature: find.signature,
+      timestamp: Date.now(),
+    });
+    if (!key) return false;
+
+    if (dimension === this.currentDimension) {
+      this.controls?.setUserPatterns(getUserPatterns(dimension));
+      this.searchPanel?.setCollection(getUserPatterns(dimension), key);
+      this.verifyPatterns();
+    }
+    return true;
+  }
+
+  private removeUserPattern(key: string): void {
+    removeUserPattern(this.currentDimension, key);
+    this.controls?.setUserPatterns(getUserPatterns(this.currentDimension));
+    this.searchPanel?.setCollection(getUserPatterns(this.currentDimension));
+  }
+
+  private setEditMode(enabled: boolean): void {
+    this.editMode = enabled;
+    this.renderer?.setEditMode(enabled);
+  }
+
+  /**
+   * Move the cursor plane, kept within the depth of the 3D view
+   */
+  private setEditLayer(layer: number): void {
+    const depth = get3DViewSize(this.gridSizes[this.currentDimension])[2];
+    this.editLayer = Math.max(0, Math.min(layer, depth - 1));
+    this.renderer?.setEditLayer(this.editLayer);
+    this.controls?.setEditLayer(this.editLayer, depth);
+  }
+
+  /**
+   * Toggle a cell of the shown slice: drawn cells die, cells of the cursor
+   * plane come alive
+   */
+  private async editCell(pick: CellPick): Promise<void> {
+    const engine = this.engine;
+    if (!engine || this.editPending) return;
+
+    // The edit patches the current generation, so nothing may step meanwhile
+    this.controls?.pause();
+    const gridSize = engine.getGridSize();
+    const [width, height] = get3DViewSize(gridSize);
+    const [x, y, z] = pick.coords;
+    const index = getSliceStart(gridSize, this.sliceCoords) + x + width * (y + height * z);
+
+    this.editPending = true;
+    try {
+      await engine.setCells([{ index, state: pick.live ? 0 : 1 }]);
+    } catch (error) {
+      console.error('Failed to edit cell:', error);
+    } finally {
+      this.editPending = false;
+    }
+    if (engine === this.engine) {
       this.updateVisualization();
     }
   }
 
-  private loadPattern(patternName: string): void {
+  /**
+   * Kill every cell, leaving an empty grid to draw on
+   */
+  private clearCells(): void {
+    if (!this.engine) return;
+
     this.pause();
     this.generation = 0;
+    this.engine.reset(createPackedCells(getCellCount(this.engine.getGridSize()), 1));
+    this.setSoupOrigin(this.currentDimension, null);
+    this.objectTracker.clear();
+    this.updateVisualization();
+  }
+
+  private openCollisions(): void {
+    this.collisionPanel?.setLibrary(this.currentDimension, getPatternLibrary(this.currentDimension));
+    this.explorerPanel?.close();
+    this.searchPanel?.close();
+    this.collisionPanel?.open();
+  }
+
+  /**
+   * Collide two library patterns under the current rule over the requested
+   * offsets and phases, listing each result as it comes in
+   */
+  private async collidePatterns(request: CollisionLabRequest): Promise<void> {
+    const panel = this.collisionPanel;
+    const engine = this.engine;
+    if (!panel || !engine || this.collisionLab.isRunning()) return;
 
-    if (patternName === 'random') {
-      this.reset();
+    const dimension = this.currentDimension;
+    const library = getPatternLibrary(dimension);
+    const orientations = getOrientations(dimension);
+    const first = library[request.first.key];
+    const second = library[request.second.key];
+    if (!first || !second) {
+      panel.setStatus('Pick two patterns to collide');
       return;
     }
 
-    if (this.currentDimension === '3D' && this.game3D) {
-      const pattern = PATTERNS_3D[patternName];
-      if (pattern) {
-        const grid = createPatternGrid(pattern, this.gridSize3D);
-        this.game3D.reset(grid);
-
-        // Apply pattern-specific rules if provided
-        if (pattern.rules) {
-          this.game3D.updateRules(
-            pattern.rules.surviveMin,
-            pattern.rules.surviveMax,
-            pattern.rules.birthMin,
-            pattern.rules.birthMax
-          );
-        }
-      }
-    } else if (this.currentDimension === '4D' && this.game4D) {
-      const pattern = PATTERNS_4D[patternName];
-      if (pattern) {
-        const grid = createPatternGrid4D(pattern, this.gridSize4D);
-        this.game4D.reset(grid);
-
-        // Apply pattern-specific rules if provided
-        if (pattern.rules) {
-          this.game4D.updateRules(
-            pattern.rules.surviveMin,
-            pattern.rules.surviveMax,
-            pattern.rules.birthMin,
-            pattern.rules.birthMax
-          );
-        }
+    // The sweep shares the GPU with the view
+    this.controls?.pause();
+    const rules = cloneRules(engine.getRules());
+    this.collisionDimension = dimension;
+    this.collisionRules = rules;
+    const total = countCollisions(request.offsets, request.phases);
+    panel.clearResults();
+    panel.setRunning(true);
+    panel.setStatus(`Collecting phases under ${formatRule(rules, dimension)}…`);
+
+    let collided = 0;
+    try {
+      const count = await this.collisionLab.run({
+        dimensions: dimension,
+        rules,
+        first: { pattern: first, transform: orientations[request.first.orientation] },
+        second: { pattern: second, transform: orientations[request.second.orientation] },
+        offsets: request.offsets,
+        phases: request.phases,
+        generations: request.generations,
+      }, (result, index) => {
+        collided++;
+        panel.addResult(result, index);
+        panel.setStatus(`${collided} of ${total} collisions, ${panel.getReactionCount()} distinct reactions`);
+      });
+      panel.setStatus(collided < count
+        ? `Stopped after ${collided} of ${count} collisions, ${panel.getReactionCount()} distinct reactions`
+        : `${collided} collisions, ${panel.getReactionCount()} distinct reactions`);
+    } catch (error) {
+      console.error('Collision sweep failed:', error);
+      panel.setStatus(`Collisions failed: ${(error as Error).message}`);
+    } finally {
+      panel.setRunning(false);
+    }
+  }
+
+  /**
+   * Load a collision into the main view under the rule it ran under
+   */
+  private async loadCollision(result: CollisionResult): Promise<void> {
+    if (this.collisionDimension !== this.currentDimension) {
+      await this.switchDimension(this.collisionDimension);
+    }
+    if (!this.engine || !this.collisionRules) return;
+
+    this.pause();
+    this.generation = 0;
+    const rules = cloneRules(this.collisionRules);
+    this.engine.updateRules(rules);
+    this.controls?.setRules(rules);
+    this.verifyPatterns();
+
+    this.engine.reset(createPatternGridND({
+      name: 'Collision',
+      description: `Offset (${result.offset.join(', ')}), phase ${result.phase}`,
+      size: result.size,
+      cells: result.cells,
+    }, this.gridSizes[this.currentDimension]));
+    this.setSoupOrigin(this.currentDimension, null);
+    this.objectTracker.clear();
+    this.updateVisualization();
+  }
+
+  private loadPattern(patternName: string): void {
+    this.pause();
+
+    // Random entries roll the dimension's soup with the chosen symmetry
+    if (patternName === 'random' || patternName.startsWith(SOUP_PATTERN_PREFIX)) {
+      const symmetry = patternName === 'random'
+        ? 'none'
+        : patternName.slice(SOUP_PATTERN_PREFIX.length) as SoupSymmetry;
+      this.setSoup({ ...this.soups[this.currentDimension], symmetry });
+      this.controls?.setSoup(this.soups[this.currentDimension]);
+      return;
+    }
+
+    const pattern = getPatternLibrary(this.currentDimension)[patternName];
+    if (this.engine && pattern) {
+      const placement = this.placements[this.currentDimension];
+      const placed = transformPattern(pattern, placement.transform);
+      const grid = createPatternGridND(placed, this.gridSizes[this.currentDimension], placement.origin);
+      this.engine.reset(grid);
+      this.generation = 0;
+      this.setSoupOrigin(this.currentDimension, null);
+      this.objectTracker.clear();
+
+      // Apply pattern-specific rules if provided
+      if (pattern.rules) {
+        const rules = parseRule(pattern.rules, this.currentDimension, placed.neighborhood);
+        this.updateRules(rules);
+        this.controls?.setRules(rules);
       }
     }
 
@@ -251,45 +952,37 @@ class GameOfLifeApp {
   }
 
   private async updateVisualization(): Promise<void> {
-    if (!this.renderer) return;
+    if (!this.renderer || !this.engine) return;
 
-    let cellData: Uint32Array;
+    this.statsDirty = true;
+    this.objectsDirty = true;
+    this.controls?.updateHistory(this.engine.getHistoryPosition(), this.engine.getHistoryLength());
+    await this.refreshCells();
+  }
 
-    if (this.currentDimension === '3D' && this.game3D) {
-      cellData = await this.game3D.getState();
-    } else if (this.currentDimension === '4D' && this.game4D) {
-      cellData = await this.game4D.get3DSlice();
-    } else {
-      return;
-    }
+  /**
+   * Redraw the current state without marking it changed
+   */
+  private async refreshCells(): Promise<void> {
+    if (!this.renderer || !this.engine) return;
 
-    this.renderer.updateCells(cellData);
+    // Only the compacted live cells of the slice are read back
+    const cells = await this.engine.getLiveCells(this.sliceCoords);
+    this.renderer.updateCells(cells);
   }
 
   private async exportState(): Promise<void> {
-    let state: Uint32Array;
-    let dimensions: 3 | 4;
-    let gridSize: number[];
-    let rules = { surviveMin: 4, surviveMax: 5, birthMin: 5, birthMax: 5 };
-
-    if (this.currentDimension === '3D' && this.game3D) {
-      state = await this.game3D.getState();
-      dimensions = 3;
-      gridSize = [...this.gridSize3D];
-    } else if (this.currentDimension === '4D' && this.game4D) {
-      state = await this.game4D.getState();
-      dimensions = 4;
-      gridSize = [...this.gridSize4D];
-    } else {
-      return;
-    }
+    if (!this.engine) return;
 
     StateSerializer.downloadState({
-      version: 1,
-      dimensions,
-      gridSize,
-      data: state,
-      rules,
+      version: 3,
+      dimensions: this.currentDimension,
+      gridSize: [...this.engine.getGridSize()],
+      data: await this.engine.getState(),
+      rules: formatRule(this.engine.getRules(), this.currentDimension),
+      neighborhood: this.engine.getRules().neighborhood,
+      boundaries: this.engine.getBoundaries(),
+      soup: this.soupOrigins.get(this.currentDimension),
       timestamp: Date.now(),
     });
   }
@@ -297,37 +990,26 @@ class GameOfLifeApp {
   private async importState(file: File): Promise<void> {
     try {
       const state = await StateSerializer.loadStateFromFile(file);
+      if (!isSupportedDimension(state.dimensions)) {
+        throw new Error(`Unsupported dimension: ${state.dimensions}`);
+      }
 
-      if (state.dimensions === 3) {
-        this.currentDimension = '3D';
-        this.gridSize3D = state.gridSize as [number, number, number];
-        if (this.game3D) {
-          this.game3D.destroy();
-        }
-        await this.initGame3D();
-        this.game3D!.reset(state.data);
-        this.game3D!.updateRules(
-          state.rules.surviveMin,
-          state.rules.surviveMax,
-          state.rules.birthMin,
-          state.rules.birthMax
-        );
-      } else if (state.dimensions === 4) {
-        this.currentDimension = '4D';
-        this.gridSize4D = state.gridSize as [number, number, number, number];
-        if (this.game4D) {
-          this.game4D.destroy();
-        }
-        await this.initGame4D();
-        this.game4D!.reset(state.data);
-        this.game4D!.updateRules(
-          state.rules.surviveMin,
-          state.rules.surviveMax,
-          state.rules.birthMin,
-          state.rules.birthMax
-        );
+      const rules = parseRule(state.rules, state.dimensions, state.neighborhood);
+
+      this.pause();
+      this.generations.set(this.currentDimension, this.generation);
+      // Create the engine with the saved rules so Generations states keep their cell width;
+      // the app only switches to it once it is up
+      await this.initEngine(state.dimensions, state.data, { rules, boundaries: state.boundaries }, state.gridSize);
+      this.currentDimension = state.dimensions;
+      // Imported soups become the dimension's soup, so Reset rolls them again
+      if (state.soup) {
+        this.soups[state.dimensions] = { ...state.soup };
       }
+      this.setSoupOrigin(state.dimensions, state.soup ?? null);
 
+      this.recreateRenderer();
+      this.syncControls();
       await this.updateVisualization();
     } catch (error) {
       console.error('Failed to import state:', error);
@@ -340,13 +1022,22 @@ class GameOfLifeApp {
       this.performanceMonitor.update();
 
       // Update simulation
-      if (this.isPlaying) {
-        const timeSinceLastStep = timestamp - this.lastStepTime;
-        const stepInterval = 1000 / this.stepsPerSecond;
+      if (this.isPlaying && this.engine && !this.editPending) {
+        if (this.turbo) {
+          await this.advanceTurbo(this.engine);
+        } else {
+          // Run every step that fell due since the last frame, so speeds
+          // above the frame rate are honored
+          const stepInterval = 1000 / this.stepsPerSecond;
+          const due = Math.floor((timestamp - this.lastStepTime) / stepInterval);
 
-        if (timeSinceLastStep >= stepInterval) {
-          this.step();
-          this.lastStepTime = timestamp;
+          if (due > 0) {
+            this.advance(Math.min(due, MAX_STEPS_PER_FRAME));
+            // After a stall (e.g. a background tab) start over rather than catch up
+            this.lastStepTime = due > MAX_STEPS_PER_FRAME
+              ? timestamp
+              : this.lastStepTime + due * stepInterval;
+          }
         }
       }
 
@@ -357,20 +1048,16 @@ class GameOfLifeApp {
 
       // Update stats
       if (this.controls) {
-        let cellCount = 0;
-        if (this.currentDimension === '3D' && this.game3D) {
-          const state = await this.game3D.getState();
-          cellCount = state.reduce((sum, cell) => sum + cell, 0);
-        } else if (this.currentDimension === '4D' && this.game4D) {
-          const state = await this.game4D.getState();
-          cellCount = state.reduce((sum, cell) => sum + cell, 0);
-        }
-
+        this.requestStats();
+        this.requestCycleCheck();
+        this.requestObjects();
         this.controls.updateStats(
           this.performanceMonitor.getFPS(),
-          cellCount,
-          this.generation
+          this.generation,
+          this.stats
         );
+        const detector = this.cycleDetectors.get(this.currentDimension);
+        this.controls.updateSettleStatus(detector ? detector.getStatus() : { kind: 'running' });
       }
 
       this.animationFrameId = requestAnimationFrame(loop);
@@ -379,12 +1066,106 @@ class GameOfLifeApp {
     this.animationFrameId = requestAnimationFrame(loop);
   }
 
-  private showError(message: string): void {
-    const errorDiv = document.getElementById('error');
-    if (errorDiv) {
-      errorDiv.textContent = message;
-      errorDiv.style.display = 'block';
-    }
+  /**
+   * Start a stats readback when the state changed and none is in flight.
+   * Only the small GPU stats buffer is read, never the grid, and the render
+   * loop shows the latest result instead of waiting for it.
+   */
+  private requestStats(): void {
+    const engine = this.engine;
+    if (!engine || !this.statsDirty || this.statsPending) return;
+
+    this.statsDirty = false;
+    this.statsPending = true;
+    engine.getStats()
+      .then(stats => {
+        // Drop results from an engine that has since been replaced
+        if (engine === this.engine) {
+          this.stats = stats;
+        }
+      })
+      .catch(error => console.error('Failed to read stats:', error))
+      .finally(() => {
+        this.statsPending = false;
+      });
+  }
+
+  /**
+   * Feed the hashes of the generations stepped since the last check to the
+   * current dimension's cycle detector. The generation is read together with
+   * the hashes, so the last hash belongs to it.
+   */
+  private requestCycleCheck(): void {
+    const engine = this.engine;
+    if (!engine || this.cycleCheckPending) return;
+
+    const dimension = this.currentDimension;
+    const generation = this.generation;
+    this.cycleCheckPending = true;
+    engine.takeStateHashes()
+      .then(({ restarted, hashes }) => {
+        if (engine !== this.engines.get(dimension)) return;
+
+        // A restarted sequence may also come from a resized grid
+        let detector = this.cycleDetectors.get(dimension);
+        if (!detector || restarted) {
+          detector = new CycleDetector(engine.getGridSize());
+          this.cycleDetectors.set(dimension, detector);
+        }
+
+        const settledBefore = detector.getStatus().kind !== 'running';
+        for (let i = 0; i < hashes.length; i++) {
+          detector.add(generation - (hashes.length - 1 - i), hashes[i]);
+        }
+        const settled = detector.getStatus().kind !== 'running';
+        if (this.autoPause && settled && !settledBefore && dimension === this.currentDimension) {
+          this.controls?.pause();
+        }
+      })
+      .catch(error => console.error('Failed to read state hashes:', error))
+      .finally(() => {
+        this.cycleCheckPending = false;
+      });
+  }
+
+  /**
+   * Label the objects of the current state when it changed and objects are
+   * wanted. Labeling runs on the CPU over the whole grid read back with
+   * getState(), so it keeps to one pass at a time and the render loop shows
+   * the latest result.
+   */
+  private requestObjects(): void {
+    const engine = this.engine;
+    if (!engine || !this.isLabelingObjects() || !this.objectsDirty || this.objectsPending) return;
+
+    const generation = this.generation;
+    const connectivity = this.connectivity[this.currentDimension];
+    this.objectsDirty = false;
+    this.objectsPending = true;
+    engine.getState()
+      .then(state => {
+        // Drop results from an engine that has since been replaced
+        if (engine !== this.engine) return;
+        if (this.objects?.engine !== engine) {
+          this.objectTracker.clear();
+        }
+
+        const gridSize = engine.getGridSize();
+        const analysis = labelObjects(state, gridSize, engine.getBoundaries(), connectivity);
+        const reach = getNeighborhoodReach(engine.getRules().neighborhood, gridSize.length);
+        const tracked = this.objectTracker.track(analysis, generation, reach);
+        this.objects = { engine, analysis, tracked };
+
+        this.controls?.updateObjects(this.objectTracking ? tracked : null);
+        if (this.colorScheme === 'objects') {
+          this.applyObjectLabels();
+          return this.refreshCells();
+        }
+      })
+      .catch(error => console.error('Failed to label objects:', error))
+      .finally(() => {
+        this.objectsPending = false;
+      });
   }
 
   destroy(): void {
@@ -392,8 +1173,11 @@ class GameOfLifeApp {
       cancelAnimationFrame(this.animationFrameId);
     }
 
-    this.game3D?.destroy();
-    this.game4D?.destroy();
+    this.ruleExplorer.stop();
+    this.patternSearch.stop();
+    this.patternVerifier.stop();
+    this.collisionLab.stop();
+    this.engines.forEach(engine => engine.destroy());
     this.renderer?.destroy();
     this.gpuEngine.destroy();
   }
@@ -0,0 +1,108 @@
+/**
+ * User pattern collection: patterns found by the search, kept in the
+ * browser's local storage with the rules they were found under
+ */
+
+import type { Dimension } from '../engine/SimulationEngine';
+import { Neighborhood, cloneNeighborhood } from '../engine/neighborhoods';
+import type { PatternND } from './index';
+
+/** Pattern list keys of collection entries start with this */
+export const USER_PATTERN_PREFIX = 'user:';
+
+const STORAGE_KEY = 'laiph.userPatterns';
+const STORAGE_VERSION = 1;
+
+export interface UserPattern extends PatternND {
+  rules: string;
+  neighborhood: Neighborhood;
+  behavior: 'oscillator' | 'spaceship';
+  period: number;
+  /** Offset per period; all zero for oscillators */
+  displacement: number[];
+  /** Smallest phase key (see engine/recurrence.ts), the same for every phase */
+  signature: string;
+  timestamp: number;
+}
+
+interface StoredCollection {
+  version: number;
+  /** Entries per dimension, keyed without the prefix */
+  patterns: Partial<Record<Dimension, Record<string, UserPattern>>>;
+}
+
+let collection: StoredCollection | null = null;
+
+/**
+ * Read the collection once; a missing or unreadable one starts out empty
+ */
+function getCollection(): StoredCollection {
+  if (collection) return collection;
+
+  collection = { version: STORAGE_VERSION, patterns: {} };
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as StoredCollection;
+      if (parsed.version !== STORAGE_VERSION) {
+        throw new Error(`Unsupported version: ${parsed.version}`);
+      }
+      collection = parsed;
+    }
+  } catch (error) {
+    console.warn('Ignoring the stored pattern collection:', error);
+  }
+  return collection;
+}
+
+function storeCollection(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getCollection()));
+  } catch (error) {
+    console.error('Failed to store the pattern collection:', error);
+  }
+}
+
+/**
+ * Collection entries of a dimension, keyed with USER_PATTERN_PREFIX
+ */
+export function getUserPatterns(dimension: Dimension): Record<string, UserPattern> {
+  const patterns = getCollection().patterns[dimension] ?? {};
+  return Object.fromEntries(
+    Object.entries(patterns).map(([key, pattern]) => [USER_PATTERN_PREFIX + key, pattern])
+  );
+}
+
+/**
+ * Save a pattern unless one with the same signature and rules is already
+ * collected. Returns the new entry's key, or null for a duplicate.
+ */
+export function addUserPattern(dimension: Dimension, pattern: UserPattern): string | null {
+  const patterns = getCollection().patterns;
+  const entries = patterns[dimension] ?? {};
+  const neighborhood = JSON.stringify(pattern.neighborhood);
+  const duplicate = Object.values(entries).some(entry =>
+    entry.signature === pattern.signature &&
+    entry.rules === pattern.rules &&
+    JSON.stringify(entry.neighborhood) === neighborhood
+  );
+  if (duplicate) return null;
+
+  let key = pattern.timestamp.toString(36);
+  for (let suffix = 1; key in entries; suffix++) {
+    key = `${pattern.timestamp.toString(36)}-${suffix}`;
+  }
+  entries[key] = { ...pattern, neighborhood: cloneNeighborhood(pattern.neighborhood) };
+  patterns[dimension] = entries;
+  storeCollection();
+  return USER_PATTERN_PREFIX + key;
+}
+
+export function removeUserPattern(dimension: Dimension, key: string): void {
+  const entries = getCollection().patterns[dimension];
+  const stored = key.slice(USER_PATTERN_PREFIX.length);
+  if (entries && stored in entries) {
+    delete entries[stored];
+    storeCollection();
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getPackedCell, countCells } from '../utils/packing';
+import { coordsToIndex } from '../utils/grid';
+import { createPatternGridND } from './index';
+
+const L_SHAPE = { name: '', description: '', size: [2, 2], cells: [[0, 0], [1, 0], [0, 1]] };
+
+describe('createPatternGridND', () => {
+  it('centers the pattern along axes without an origin', () => {
+    const grid = createPatternGridND(L_SHAPE, [6, 6]);
+    expect([[2, 2], [3, 2], [2, 3]].map(coords => getPackedCell(grid, coordsToIndex(coords, [6, 6]))))
+      .toEqual([1, 1, 1]);
+  });
+
+  it('wraps the pattern around axes with an origin', () => {
+    const grid = createPatternGridND(L_SHAPE, [6, 6], [5, null]);
+    expect([[5, 2], [0, 2], [5, 3]].map(coords => getPackedCell(grid, coordsToIndex(coords, [6, 6]))))
+      .toEqual([1, 1, 1]);
+    expect(countCells(grid, 36)).toBe(3);
+  });
+
+  it('cuts off what does not fit when centered', () => {
+    const wide = { name: '', description: '', size: [8, 1], cells: [[0, 0], [7, 0]] };
+    expect(countCells(createPatternGridND(wide, [6, 6]), 36)).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Pattern libraries indexed by dimension
+ */
+
+import type { Dimension } from '../engine/SimulationEngine';
+import type { Neighborhood } from '../engine/neighborhoods';
+import { coordsToIndex, getCellCount } from '../utils/grid';
+import { PackedCells, createPackedCells, setPackedCell } from '../utils/packing';
+import { PATTERNS_3D } from './patterns-3d';
+import { PATTERNS_4D } from './patterns-4d';
+import { getUserPatterns } from './collection';
+
+/**
+ * What a pattern is meant to do under its rule, checked by the verifier
+ * (see engine/patternVerifier.ts)
+ */
+export type PatternBehavior = 'dies' | 'stillLife' | 'oscillator' | 'spaceship';
+
+/**
+ * Dimension-agnostic view of Pattern3D / Pattern4D
+ */
+export interface PatternND {
+  name: string;
+  description: string;
+  size: number[];
+  cells: number[][];
+  rules?: string;
+  /** Neighborhood the rule string is parsed against (needed for custom offsets) */
+  neighborhood?: Neighborhood;
+  behavior?: PatternBehavior;
+  /** Period of an oscillator or spaceship, when the description gives one */
+  period?: number;
+}
+
+const PATTERN_LIBRARIES: Partial<Record<Dimension, Record<string, PatternND>>> = {
+  3: PATTERNS_3D,
+  4: PATTERNS_4D,
+};
+
+/**
+ * Built-in patterns of a dimension followed by the user's collection
+ */
+export function getPatternLibrary(dimension: Dimension): Record<string, PatternND> {
+  return { ...PATTERN_LIBRARIES[dimension], ...getUserPatterns(dimension) };
+}
+
+/**
+ * Place a pattern into an empty grid of any dimension. `origin` gives the
+ * grid coordinate of the pattern's lowest corner per axis, wrapping around
+ * the grid; axes without one center the pattern and cut off what does not fit.
+ */
+export function createPatternGridND(
+  pattern: PatternND,
+  gridSize: readonly number[],
+  origin: readonly (number | null)[] = []
+): PackedCells {
+  const grid = createPackedCells(getCellCount(gridSize), 1);
+  const offsets = gridSize.map((size, d) => origin[d] ?? Math.floor((size - (pattern.size[d] ?? 1)) / 2));
+
+  for (const cell of pattern.cells) {
+    const coords = gridSize.map((size, d) => {
+      const coord = (cell[d] ?? 0) + offsets[d];
+      return origin[d] == null ? coord : ((coord % size) + size) % size;
+    });
+    if (coords.every((c, d) => c >= 0 && c < gridSize[d])) {
+      setPackedCell(grid, coordsToIndex(coords, gridSize), 1);
+    }
+  }
+
+  return grid;
+}
@@ -2,17 +2,23 @@
  * 3D Game of Life Pattern Library
  */
 
+import { createRandom } from '../utils/random';
+import type { PatternBehavior } from './index';
+
+/** Seed the randomCloud pattern is rolled with */
+const CLOUD_SEED = 0x3dc10d;
+
 export interface Pattern3D {
   name: string;
   description: string;
   size: [number, number, number];
   cells: [number, number, number][];
-  rules?: {
-    surviveMin: number;
-    surviveMax: number;
-    birthMin: number;
-    birthMax: number;
-  };
+  /** Rule string the pattern is designed for, e.g. "B5,8/S4,6,9" */
+  rules?: string;
+  /** What the pattern is meant to do under its rule */
+  behavior?: PatternBehavior;
+  /** Period of an oscillator or spaceship, when the description gives one */
+  period?: number;
 }
 
 export const PATTERNS_3D: Record<string, Pattern3D> = {
@@ -20,6 +26,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   single: {
     name: 'Single Cell',
     description: 'A single cell that dies in the next generation',
+    behavior: 'dies',
     size: [1, 1, 1],
     cells: [[0, 0, 0]],
   },
@@ -28,6 +35,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   glider: {
     name: '3D Glider',
     description: 'A pattern that moves through 3D space',
+    behavior: 'spaceship',
     size: [5, 5, 5],
     cells: [
       [2, 0, 2], [3, 0, 2],
@@ -40,6 +48,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   blinker3d: {
     name: '3D Blinker',
     description: 'A simple 3D oscillator',
+    behavior: 'oscillator',
     size: [3, 3, 3],
     cells: [
       [1, 0, 1],
@@ -52,6 +61,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   block: {
     name: 'Block',
     description: 'A stable 3D configuration',
+    behavior: 'stillLife',
     size: [2, 2, 2],
     cells: [
       [0, 0, 0], [1, 0, 0],
@@ -65,6 +75,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   pulsar: {
     name: 'Pulsar',
     description: 'A large oscillating pattern',
+    behavior: 'oscillator',
     size: [13, 13, 3],
     cells: [
       // Layer 0
@@ -136,6 +147,8 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   toad: {
     name: 'Toad',
     description: 'Period-2 oscillator (2D pattern in 3D space)',
+    behavior: 'oscillator',
+    period: 2,
     size: [4, 4, 3],
     cells: [
       [1, 1, 1], [2, 1, 1], [3, 1, 1],
@@ -147,6 +160,8 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   beacon: {
     name: 'Beacon',
     description: 'Period-2 oscillator',
+    behavior: 'oscillator',
+    period: 2,
     size: [4, 4, 3],
     cells: [
       [0, 0, 1], [1, 0, 1],
@@ -173,6 +188,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   lwss: {
     name: 'Lightweight Spaceship',
     description: 'Fast moving spaceship',
+    behavior: 'spaceship',
     size: [5, 4, 3],
     cells: [
       [1, 0, 1], [4, 0, 1],
@@ -278,6 +294,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   diehard: {
     name: 'Diehard',
     description: 'Long-lived pattern that eventually dies',
+    behavior: 'dies',
     size: [8, 3, 3],
     cells: [
       [6, 0, 1],
@@ -378,6 +395,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   twinBees: {
     name: 'Twin Bees',
     description: 'Two interacting beehives',
+    behavior: 'stillLife',
     size: [8, 5, 3],
     cells: [
       [1, 1, 1], [2, 1, 1], [5, 1, 1], [6, 1, 1],
@@ -391,6 +409,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   biBlock: {
     name: 'Bi-Block',
     description: 'Two blocks connected',
+    behavior: 'stillLife',
     size: [4, 4, 4],
     cells: [
       [0, 0, 0], [1, 0, 0],
@@ -432,6 +451,8 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   pentadecathlon: {
     name: 'Pentadecathlon',
     description: 'Period-15 oscillator',
+    behavior: 'oscillator',
+    period: 15,
     size: [10, 3, 3],
     cells: [
       [1, 1, 1], [2, 1, 1], [3, 1, 1], [4, 1, 1], [5, 1, 1],
@@ -443,6 +464,7 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   sidecar: {
     name: 'Sidecar',
     description: 'Moving pattern with trailing effect',
+    behavior: 'spaceship',
     size: [6, 6, 4],
     cells: [
       [2, 1, 1], [3, 1, 1],
@@ -453,49 +475,16 @@ export const PATTERNS_3D: Record<string, Pattern3D> = {
   },
 };
 
-// Generate random cloud cells
+// Generate random cloud cells, the same cloud on every load
+const cloudRandom = createRandom(CLOUD_SEED);
 const cloudCells: [number, number, number][] = [];
 for (let x = 2; x < 8; x++) {
   for (let y = 2; y < 8; y++) {
     for (let z = 2; z < 8; z++) {
-      if (Math.random() > 0.7) {
+      if (cloudRandom() > 0.7) {
         cloudCells.push([x, y, z]);
       }
     }
   }
 }
 PATTERNS_3D.randomCloud.cells = cloudCells;
-
-export function createPatternGrid(
-  pattern: Pattern3D,
-  gridSize: [number, number, number],
-  offsetX = 0,
-  offsetY = 0,
-  offsetZ = 0
-): Uint32Array {
-  const grid = new Uint32Array(gridSize[0] * gridSize[1] * gridSize[2]);
-
-  // Center the pattern if no offset is provided
-  if (offsetX === 0 && offsetY === 0 && offsetZ === 0) {
-    offsetX = Math.floor((gridSize[0] - pattern.size[0]) / 2);
-    offsetY = Math.floor((gridSize[1] - pattern.size[1]) / 2);
-    offsetZ = Math.floor((gridSize[2] - pattern.size[2]) / 2);
-  }
-
-  for (const [x, y, z] of pattern.cells) {
-    const gridX = x + offsetX;
-    const gridY = y + offsetY;
-    const gridZ = z + offsetZ;
-
-    if (
-      gridX >= 0 && gridX < gridSize[0] &&
-      gridY >= 0 && gridY < gridSize[1] &&
-      gridZ >= 0 && gridZ < gridSize[2]
-    ) {
-      const index = gridX + gridY * gridSize[0] + gridZ * gridSize[0] * gridSize[1];
-      grid[index] = 1;
-    }
-  }
-
-  return grid;
-}
@@ -2,17 +2,23 @@
  * 4D Game of Life Pattern Library
  */
 
+import { createRandom } from '../utils/random';
+import type { PatternBehavior } from './index';
+
+/** Seed the randomCloud4d pattern is rolled with */
+const CLOUD_4D_SEED = 0x4dc10d;
+
 export interface Pattern4D {
   name: string;
   description: string;
   size: [number, number, number, number];
   cells: [number, number, number, number][];
-  rules?: {
-    surviveMin: number;
-    surviveMax: number;
-    birthMin: number;
-    birthMax: number;
-  };
+  /** Rule string the pattern is designed for, e.g. "B5,8/S4,6,9" */
+  rules?: string;
+  /** What the pattern is meant to do under its rule */
+  behavior?: PatternBehavior;
+  /** Period of an oscillator or spaceship, when the description gives one */
+  period?: number;
 }
 
 export const PATTERNS_4D: Record<string, Pattern4D> = {
@@ -20,6 +26,7 @@ export const PATTERNS_4D: Record<string, Pattern4D> = {
   single: {
     name: 'Single Cell',
     description: 'A single cell in 4D space',
+    behavior: 'dies',
     size: [1, 1, 1, 1],
     cells: [[0, 0, 0, 0]],
   },
@@ -60,6 +67,7 @@ export const PATTERNS_4D: Record<string, Pattern4D> = {
   blinker4d: {
     name: '4D Blinker',
     description: 'A simple 4D oscillator',
+    behavior: 'oscillator',
     size: [3, 3, 3, 3],
     cells: [
       [1, 0, 1, 1],
@@ -83,6 +91,7 @@ export const PATTERNS_4D: Record<string, Pattern4D> = {
   block4d: {
     name: '4D Block',
     description: 'A stable 4D configuration',
+    behavior: 'stillLife',
     size: [2, 2, 2, 2],
     cells: [
       [0, 0, 0, 0], [1, 0, 0, 0], [0, 1, 0, 0], [1, 1, 0, 0],
@@ -108,6 +117,7 @@ export const PATTERNS_4D: Record<string, Pattern4D> = {
   glider4d: {
     name: '4D Glider',
     description: 'An experimental 4D glider pattern',
+    behavior: 'spaceship',
     size: [5, 5, 5, 5],
     cells: [
       [2, 1, 2, 2], [3, 1, 2, 2],
@@ -337,6 +347,7 @@ export const PATTERNS_4D: Record<string, Pattern4D> = {
   spinner4d: {
     name: '4D Spinner',
     description: 'Rotating pattern in 4D space',
+    behavior: 'oscillator',
     size: [5, 5, 5, 5],
     cells: [
       [2, 1, 2, 2], [3, 1, 2, 2],
@@ -362,13 +373,14 @@ export const PATTERNS_4D: Record<string, Pattern4D> = {
   },
 };
 
-// Generate random 4D cloud cells (very sparse)
+// Generate random 4D cloud cells (very sparse), the same cloud on every load
+const cloud4dRandom = createRandom(CLOUD_4D_SEED);
 const cloud4dCells: [number, number, number, number][] = [];
 for (let x = 2; x < 6; x++) {
   for (let y = 2; y < 6; y++) {
     for (let z = 2; z < 6; z++) {
       for (let w = 2; w < 6; w++) {
-        if (Math.random() > 0.85) {
+        if (cloud4dRandom() > 0.85) {
           cloud4dCells.push([x, y, z, w]);
         }
       }
@@ -376,44 +388,3 @@ for (let x = 2; x < 6; x++) {
   }
 }
 PATTERNS_4D.randomCloud4d.cells = cloud4dCells;
-
-export function createPatternGrid4D(
-  pattern: Pattern4D,
-  gridSize: [number, number, number, number],
-  offsetX = 0,
-  offsetY = 0,
-  offsetZ = 0,
-  offsetW = 0
-): Uint32Array {
-  const grid = new Uint32Array(gridSize[0] * gridSize[1] * gridSize[2] * gridSize[3]);
-
-  // Center the pattern if no offset is provided
-  if (offsetX === 0 && offsetY === 0 && offsetZ === 0 && offsetW === 0) {
-    offsetX = Math.floor((gridSize[0] - pattern.size[0]) / 2);
-    offsetY = Math.floor((gridSize[1] - pattern.size[1]) / 2);
-    offsetZ = Math.floor((gridSize[2] - pattern.size[2]) / 2);
-    offsetW = Math.floor((gridSize[3] - pattern.size[3]) / 2);
-  }
-
-  for (const [x, y, z, w] of pattern.cells) {
-    const gridX = x + offsetX;
-    const gridY = y + offsetY;
-    const gridZ = z + offsetZ;
-    const gridW = w + offsetW;
-
-    if (
-      gridX >= 0 && gridX < gridSize[0] &&
-      gridY >= 0 && gridY < gridSize[1] &&
-      gridZ >= 0 && gridZ < gridSize[2] &&
-      gridW >= 0 && gridW < gridSize[3]
-    ) {
-      const index = gridX +
-                    gridY * gridSize[0] +
-                    gridZ * gridSize[0] * gridSize[1] +
-                    gridW * gridSize[0] * gridSize[1] * gridSize[2];
-      grid[index] = 1;
-    }
-  }
-
-  return grid;
-}
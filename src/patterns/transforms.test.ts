@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  composeTransforms,
+  getOrientations,
+  getRotations,
+  identityTransform,
+  isIdentityTransform,
+  mirror,
+  quarterTurn,
+  transformPattern,
+} from './transforms';
+
+const key = (transform: { axes: number[]; flips: boolean[] }) => JSON.stringify(transform);
+
+describe('transforms', () => {
+  it('counts the symmetries of the cube and tesseract', () => {
+    expect(getOrientations(3)).toHaveLength(48);
+    expect(getRotations(3)).toHaveLength(24);
+    expect(getOrientations(4)).toHaveLength(384);
+    expect(getRotations(4)).toHaveLength(192);
+  });
+
+  it('generates exactly the rotations from quarter turns', () => {
+    const turns = [quarterTurn(3, 0, 1), quarterTurn(3, 1, 2), quarterTurn(3, 0, 2)];
+    const reached = new Map([[key(identityTransform(3)), identityTransform(3)]]);
+    for (const transform of reached.values()) {
+      for (const turn of turns) {
+        const next = composeTransforms(transform, turn);
+        reached.set(key(next), next);
+      }
+    }
+    expect(new Set(reached.keys())).toEqual(new Set(getRotations(3).map(key)));
+  });
+
+  it('returns to the start after four quarter turns or two mirrors', () => {
+    const turn = quarterTurn(3, 0, 2);
+    let transform = identityTransform(3);
+    for (let i = 0; i < 4; i++) transform = composeTransforms(transform, turn);
+    expect(isIdentityTransform(transform)).toBe(true);
+    expect(isIdentityTransform(composeTransforms(mirror(3, 1), mirror(3, 1)))).toBe(true);
+  });
+
+  it('keeps cells inside the pattern box', () => {
+    const pattern = { name: '', description: '', size: [3, 2], cells: [[0, 0], [2, 1]] };
+    const turned = transformPattern(pattern, quarterTurn(2, 0, 1));
+    expect(turned.size).toEqual([2, 3]);
+    expect(turned.cells).toEqual([[1, 0], [0, 2]]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Pattern orientation and placement
+ * An orientation is a signed permutation of the axes: each axis of the
+ * result reads one axis of the pattern, forwards or backwards. These form the
+ * hyperoctahedral group, the symmetries of the n-cube (48 in 3D, 384 in 4D);
+ * the ones with determinant +1 are its rotations (24 in 3D, 192 in 4D), the
+ * rest reflections.
+ */
+
+import type { Neighborhood } from '../engine/neighborhoods';
+import { AXIS_NAMES } from '../utils/grid';
+import type { PatternND } from './index';
+
+export interface PatternTransform {
+  /** Axis of the pattern each axis of the result reads */
+  axes: number[];
+  /** Whether each axis of the result reads its axis backwards */
+  flips: boolean[];
+}
+
+export interface PatternPlacement {
+  transform: PatternTransform;
+  /** Grid coordinate of the pattern's lowest corner per axis; null centers it */
+  origin: (number | null)[];
+}
+
+export function identityTransform(dimensions: number): PatternTransform {
+  return {
+    axes: Array.from({ length: dimensions }, (_, d) => d),
+    flips: new Array<boolean>(dimensions).fill(false),
+  };
+}
+
+export function defaultPlacement(dimensions: number): PatternPlacement {
+  return { transform: identityTransform(dimensions), origin: new Array(dimensions).fill(null) };
+}
+
+export function clonePlacement(placement: PatternPlacement): PatternPlacement {
+  return {
+    transform: { axes: [...placement.transform.axes], flips: [...placement.transform.flips] },
+    origin: [...placement.origin],
+  };
+}
+
+export function isIdentityTransform(transform: PatternTransform): boolean {
+  return transform.axes.every((axis, d) => axis === d && !transform.flips[d]);
+}
+
+/**
+ * `first`, then `second`
+ */
+export function composeTransforms(first: PatternTransform, second: PatternTransform): PatternTransform {
+  return {
+    axes: second.axes.map(axis => first.axes[axis]),
+    flips: second.axes.map((axis, d) => second.flips[d] !== first.flips[axis]),
+  };
+}
+
+/**
+ * Quarter turn in the plane of two axes, taking `from` onto `to`
+ */
+export function quarterTurn(dimensions: number, from: number, to: number): PatternTransform {
+  const turn = identityTransform(dimensions);
+  turn.axes[to] = from;
+  turn.axes[from] = to;
+  turn.flips[from] = true;
+  return turn;
+}
+
+/**
+ * Reverse one axis
+ */
+export function mirror(dimensions: number, axis: number): PatternTransform {
+  const reflection = identityTransform(dimensions);
+  reflection.flips[axis] = true;
+  return reflection;
+}
+
+/**
+ * Whether a transform turns the pattern without mirroring it
+ */
+export function isRotation(transform: PatternTransform): boolean {
+  let odd = transform.flips.filter(Boolean).length % 2 === 1;
+  // Each cycle of even length is an odd number of swaps
+  const seen = new Array<boolean>(transform.axes.length).fill(false);
+  for (let start = 0; start < transform.axes.length; start++) {
+    let length = 0;
+    for (let axis = start; !seen[axis]; axis = transform.axes[axis]) {
+      seen[axis] = true;
+      length++;
+    }
+    if (length > 0 && length % 2 === 0) odd = !odd;
+  }
+  return !odd;
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+/**
+ * Every orientation: the rotations and reflections of the n-cube
+ */
+export function getOrientations(dimensions: number): PatternTransform[] {
+  const axes = permutations(Array.from({ length: dimensions }, (_, d) => d));
+  return axes.flatMap(order =>
+    Array.from({ length: 1 << dimensions }, (_, mask) => ({
+      axes: order,
+      flips: order.map((_, d) => (mask & (1 << d)) !== 0),
+    }))
+  );
+}
+
+/**
+ * The orientations reached by turning alone
+ */
+export function getRotations(dimensions: number): PatternTransform[] {
+  return getOrientations(dimensions).filter(isRotation);
+}
+
+/**
+ * Where each axis of the result comes from, e.g. "(−Y, X, Z)" for a quarter
+ * turn taking X onto Y
+ */
+export function formatTransform(transform: PatternTransform): string {
+  return `(${transform.axes.map((axis, d) => (transform.flips[d] ? '−' : '') + AXIS_NAMES[axis]).join(', ')})`;
+}
+
+/**
+ * Orient a pattern. Custom neighborhood offsets turn along with it, so that
+ * it behaves the same.
+ */
+export function transformPattern(pattern: PatternND, transform: PatternTransform): PatternND {
+  const { axes, flips } = transform;
+  const size = axes.map(axis => pattern.size[axis] ?? 1);
+  const cells = pattern.cells.map(cell =>
+    axes.map((axis, d) => (flips[d] ? size[d] - 1 - (cell[axis] ?? 0) : cell[axis] ?? 0))
+  );
+
+  let neighborhood: Neighborhood | undefined = pattern.neighborhood;
+  if (neighborhood?.offsets) {
+    neighborhood = {
+      ...neighborhood,
+      offsets: neighborhood.offsets.map(offset =>
+        axes.map((axis, d) => (flips[d] ? -offset[axis] : offset[axis]))
+      ),
+    };
+  }
+  return { ...pattern, size, cells, neighborhood };
+}
@@ -15,6 +15,8 @@ export class Camera {
   private isDragging = false;
   private lastMouseX = 0;
   private lastMouseY = 0;
+  /** Mouse presses left to others, e.g. ones editing cells; they start no drag */
+  private ignoredPress: ((e: MouseEvent) => boolean) | null = null;
 
   private minDistance: number;
   private maxDistance: number;
@@ -54,6 +56,8 @@ export class Camera {
   }
 
   private onMouseDown(e: MouseEvent): void {
+    if (this.ignoredPress?.(e)) return;
+
     this.isDragging = true;
     this.lastMouseX = e.clientX;
     this.lastMouseY = e.clientY;
@@ -132,6 +136,13 @@ export class Camera {
     // Can be used for camera animations if needed
   }
 
+  /**
+   * Leave the mouse presses matching `filter` alone; null orbits on every press
+   */
+  ignorePresses(filter: ((e: MouseEvent) => boolean) | null): void {
+    this.ignoredPress = filter;
+  }
+
   getCamera(): THREE.PerspectiveCamera {
     return this.camera;
   }
@@ -5,14 +5,53 @@
 
 import * as THREE from 'three';
 import { Camera } from './Camera';
+import { LIVE_CELL_STRIDE, LiveCells, MAX_AGE, MAX_LIVE_CELLS, getObjectColor } from '../utils/liveCells';
+import { COLOR_GRADIENTS, DEFAULT_GRADIENT, GradientName, createGradientTable } from './gradients';
 
 export type RenderMode = 'cubes' | 'spheres' | 'points';
 
+/**
+ * 'default' colors live cells by position, 'age' maps the generations a
+ * cell has survived onto a gradient, 'heatmap' adds a translucent cloud
+ * showing how often each cell (dead ones included) changed state, 'objects'
+ * gives each connected object its own color (see setObjectLabels)
+ */
+export type ColorScheme = 'default' | 'age' | 'heatmap' | 'objects';
+
+/** Live cells not (yet) labeled with an object */
+const UNLABELED_COLOR = [0.45, 0.45, 0.45];
+
+/** Age at which the age gradient reaches its last color */
+const DEFAULT_AGE_RANGE = 64;
+/** Entries in the heat color table */
+const HEAT_LEVELS = 256;
+
+const IDENTITY_MATRIX = new THREE.Matrix4().elements;
+
+/** Cursor over an empty cell, which a click brings to life, and over a drawn one, which it clears */
+const ADD_CURSOR_COLOR = 0x00ffaa;
+const REMOVE_CURSOR_COLOR = 0xff5555;
+const CURSOR_PLANE_COLOR = 0x335577;
+
+/**
+ * Cell of the 3D view under the pointer, and whether it is drawn
+ */
+export interface CellPick {
+  coords: [number, number, number];
+  live: boolean;
+}
+
 export interface VoxelRendererConfig {
   gridSize: [number, number, number];
   renderMode?: RenderMode;
   voxelSize?: number;
-  colorScheme?: 'default' | 'age' | 'heatmap';
+  colorScheme?: ColorScheme;
+  /** Gradient for the age and heatmap schemes, from newborn/most active to oldest/least active */
+  gradient?: GradientName;
+  /** Age (in generations) mapped to the end of the gradient; older cells keep its last color */
+  ageRange?: number;
+  /** Called with the cell Shift+clicked in edit mode */
+  onCellEdit?: (pick: CellPick) => void;
 }
 
 export class VoxelRenderer {
@@ -22,6 +61,19 @@ export class VoxelRenderer {
   private gridSize: [number, number, number];
   private renderMode: RenderMode;
   private voxelSize: number;
+  private colorScheme: ColorScheme;
+  private gradient: GradientName;
+  private ageRange: number;
+  /** r, g, b per age from 0 to MAX_AGE */
+  private ageColors: Float32Array;
+  /** r, g, b per heat level, least active first */
+  private heatColors: Float32Array;
+  /** Translucent activity cloud, created when the heatmap is first shown */
+  private heatCloud: THREE.Points | null = null;
+  /** Per cell of the 3D view, 1 + the index of its object; null until labeled */
+  private objectLabels: Uint32Array | null = null;
+  /** r, g, b per object index */
+  private objectColors = new Float32Array(0);
 
   private instancedMesh: THREE.InstancedMesh | null = null;
   private pointCloud: THREE.Points | null = null;
@@ -29,11 +81,29 @@ export class VoxelRenderer {
 
   private maxInstances: number;
 
+  /** Edit mode: Shift+click toggles the cell under the pointer */
+  private editMode = false;
+  /** Z of the cursor plane, where clicks that miss every drawn cell land */
+  private editLayer = 0;
+  private editPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+  private planeGrid: THREE.LineSegments;
+  private cursor: THREE.LineSegments;
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private onCellEdit: ((pick: CellPick) => void) | null;
+  /** Bound so that destroy() can remove them; the canvas outlives the renderer */
+  private pointerListeners: [string, (e: MouseEvent) => void][];
+
   constructor(canvas: HTMLCanvasElement, config: VoxelRendererConfig) {
     this.gridSize = config.gridSize;
     this.renderMode = config.renderMode || 'cubes';
     this.voxelSize = config.voxelSize || 1.2;
-    this.maxInstances = this.gridSize[0] * this.gridSize[1] * this.gridSize[2];
+    this.colorScheme = config.colorScheme ?? 'default';
+    this.gradient = config.gradient ?? DEFAULT_GRADIENT;
+    this.ageRange = Math.max(1, Math.min(config.ageRange ?? DEFAULT_AGE_RANGE, MAX_AGE));
+    this.ageColors = this.createAgeColors();
+    this.heatColors = this.createHeatColors();
+    this.maxInstances = Math.min(this.gridSize[0] * this.gridSize[1] * this.gridSize[2], MAX_LIVE_CELLS);
 
     // Initialize Three.js scene
     this.scene = new THREE.Scene();
@@ -77,10 +147,53 @@ export class VoxelRenderer {
     // Create initial geometry
     this.createGeometry();
 
+    // Editing aids, shown in edit mode
+    this.onCellEdit = config.onCellEdit ?? null;
+    this.planeGrid = this.createPlaneGrid();
+    this.cursor = new THREE.LineSegments(
+      new THREE.EdgesGeometry(new THREE.BoxGeometry(this.voxelSize, this.voxelSize, this.voxelSize)),
+      new THREE.LineBasicMaterial({ color: ADD_CURSOR_COLOR })
+    );
+    this.cursor.visible = false;
+    this.scene.add(this.cursor);
+    this.raycaster.params.Points.threshold = this.voxelSize * 0.4;
+
+    this.pointerListeners = [
+      ['mousedown', (e) => this.onPointerDown(e)],
+      ['mousemove', (e) => this.onPointerMove(e)],
+      ['mouseleave', () => { this.cursor.visible = false; }],
+    ];
+    for (const [type, listener] of this.pointerListeners) {
+      canvas.addEventListener(type, listener as EventListener);
+    }
+
     // Handle window resize
     window.addEventListener('resize', () => this.onResize());
   }
 
+  /**
+   * Outline of the cells of the cursor plane
+   */
+  private createPlaneGrid(): THREE.LineSegments {
+    const [width, height] = this.gridSize;
+    const size = this.voxelSize;
+    const points: number[] = [];
+    for (let x = 0; x <= width; x++) {
+      points.push((x - 0.5) * size, -0.5 * size, 0, (x - 0.5) * size, (height - 0.5) * size, 0);
+    }
+    for (let y = 0; y <= height; y++) {
+      points.push(-0.5 * size, (y - 0.5) * size, 0, (width - 0.5) * size, (y - 0.5) * size, 0);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+    const material = new THREE.LineBasicMaterial({ color: CURSOR_PLANE_COLOR, transparent: true, opacity: 0.5 });
+    const grid = new THREE.LineSegments(geometry, material);
+    grid.visible = false;
+    this.scene.add(grid);
+    return grid;
+  }
+
   private createGeometry(): void {
     // Clear existing geometry
     if (this.instancedMesh) {
@@ -91,6 +204,7 @@ export class VoxelRenderer {
       } else {
         this.instancedMesh.material.dispose();
       }
+      this.instancedMesh = null;
     }
     if (this.pointCloud) {
       this.scene.remove(this.pointCloud);
@@ -100,6 +214,7 @@ export class VoxelRenderer {
       } else {
         this.pointCloud.material.dispose();
       }
+      this.pointCloud = null;
     }
 
     if (this.renderMode === 'points') {
@@ -147,93 +262,230 @@ export class VoxelRenderer {
       }
 
       this.instancedMesh.instanceMatrix.needsUpdate = true;
+      this.instancedMesh.instanceColor = new THREE.InstancedBufferAttribute(
+        new Float32Array(this.maxInstances * 3), 3
+      );
       this.instancedMesh.count = 0;
       this.scene.add(this.instancedMesh);
     }
   }
 
-  updateCells(cellData: Uint32Array): void {
+  /**
+   * Gradient color per age, saturating at the age range
+   */
+  private createAgeColors(): Float32Array {
+    const table = createGradientTable(COLOR_GRADIENTS[this.gradient], this.ageRange + 1);
+    const ageColors = new Float32Array((MAX_AGE + 1) * 3);
+    for (let age = 0; age <= MAX_AGE; age++) {
+      const index = Math.min(age, this.ageRange) * 3;
+      ageColors.set(table.subarray(index, index + 3), age * 3);
+    }
+    return ageColors;
+  }
+
+  /**
+   * Gradient color per heat level; gradients run from most to least active,
+   * so the table is reversed
+   */
+  private createHeatColors(): Float32Array {
+    const table = createGradientTable(COLOR_GRADIENTS[this.gradient], HEAT_LEVELS);
+    const heatColors = new Float32Array(HEAT_LEVELS * 3);
+    for (let level = 0; level < HEAT_LEVELS; level++) {
+      const index = (HEAT_LEVELS - 1 - level) * 3;
+      heatColors.set(table.subarray(index, index + 3), level * 3);
+    }
+    return heatColors;
+  }
+
+  private createHeatCloud(): THREE.Points {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.maxInstances * 3), 3));
+    // r, g, b, a: a four-component color attribute enables per-point alpha
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(this.maxInstances * 4), 4));
+    geometry.setDrawRange(0, 0);
+
+    const material = new THREE.PointsMaterial({
+      size: this.voxelSize * 1.5,
+      vertexColors: true,
+      sizeAttenuation: true,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    });
+
+    const cloud = new THREE.Points(geometry, material);
+    // Bounds change every update, so skip culling against stale ones
+    cloud.frustumCulled = false;
+    this.scene.add(cloud);
+    return cloud;
+  }
+
+  /**
+   * Fill the activity cloud with every listed cell that has heat, scaled
+   * logarithmically against the hottest one so that faint trails stay visible
+   */
+  private updateHeatCloud(data: Float32Array, count: number): void {
+    if (!this.heatCloud) {
+      this.heatCloud = this.createHeatCloud();
+    }
+
+    let maxHeat = 0;
+    for (let i = 0; i < count; i++) {
+      maxHeat = Math.max(maxHeat, data[i * LIVE_CELL_STRIDE + 8]);
+    }
+
+    const position = this.heatCloud.geometry.attributes.position as THREE.BufferAttribute;
+    const color = this.heatCloud.geometry.attributes.color as THREE.BufferAttribute;
+    const positions = position.array as Float32Array;
+    const colors = color.array as Float32Array;
+    const scale = maxHeat > 0 ? 1 / Math.log1p(maxHeat) : 0;
+    let drawn = 0;
+
+    for (let i = 0; i < count; i++) {
+      const entry = i * LIVE_CELL_STRIDE;
+      const heat = data[entry + 8];
+      if (heat <= 0) continue;
+
+      const level = Math.min(1, Math.log1p(heat) * scale);
+      const index = Math.round(level * (HEAT_LEVELS - 1)) * 3;
+      positions[drawn * 3] = data[entry] * this.voxelSize;
+      positions[drawn * 3 + 1] = data[entry + 1] * this.voxelSize;
+      positions[drawn * 3 + 2] = data[entry + 2] * this.voxelSize;
+      colors[drawn * 4] = this.heatColors[index];
+      colors[drawn * 4 + 1] = this.heatColors[index + 1];
+      colors[drawn * 4 + 2] = this.heatColors[index + 2];
+      colors[drawn * 4 + 3] = 0.08 + 0.5 * level;
+      drawn++;
+    }
+
+    this.heatCloud.geometry.setDrawRange(0, drawn);
+    if (drawn > 0) {
+      position.addUpdateRange(0, drawn * 3);
+      color.addUpdateRange(0, drawn * 4);
+      position.needsUpdate = true;
+      color.needsUpdate = true;
+    }
+  }
+
+  /**
+   * Color of live-cell entry `entry` under the current color scheme. Dying
+   * Generations cells keep their decay color in every scheme.
+   */
+  private writeCellColor(data: Float32Array, entry: number, colors: Float32Array, offset: number): void {
+    let source: ArrayLike<number> = data;
+    let start = entry + 3;
+    if (this.colorScheme === 'age' && data[entry + 6] === 1) {
+      source = this.ageColors;
+      start = data[entry + 7] * 3;
+    } else if (this.colorScheme === 'objects' && data[entry + 6] === 1) {
+      const [width, height] = this.gridSize;
+      const index = data[entry] + width * (data[entry + 1] + height * data[entry + 2]);
+      const label = this.objectLabels?.[index] ?? 0;
+      if (label > 0) {
+        source = this.objectColors;
+        start = (label - 1) * 3;
+      } else {
+        source = UNLABELED_COLOR;
+        start = 0;
+      }
+    }
+    colors[offset] = source[start];
+    colors[offset + 1] = source[start + 1];
+    colors[offset + 2] = source[start + 2];
+  }
+
+  /**
+   * Draw the compacted live-cell list. Only the listed cells are touched, so
+   * the cost follows the live population rather than the grid volume. Dead
+   * cells in the list only feed the heatmap.
+   */
+  updateCells(cells: LiveCells): void {
+    const count = Math.min(cells.count, this.maxInstances);
+    const data = cells.data;
+    let drawn = 0;
+
+    if (this.colorScheme === 'heatmap') {
+      this.updateHeatCloud(data, count);
+    }
+    if (this.heatCloud) {
+      this.heatCloud.visible = this.colorScheme === 'heatmap';
+    }
+
     if (this.renderMode === 'points' && this.pointCloud) {
       // Update point cloud
-      const positions = this.pointCloud.geometry.attributes.position.array as Float32Array;
-      const colors = this.pointCloud.geometry.attributes.color.array as Float32Array;
-
-      let visibleCount = 0;
-      let idx = 0;
-
-      for (let z = 0; z < this.gridSize[2]; z++) {
-        for (let y = 0; y < this.gridSize[1]; y++) {
-          for (let x = 0; x < this.gridSize[0]; x++) {
-            const cellIndex = x + y * this.gridSize[0] + z * this.gridSize[0] * this.gridSize[1];
-
-            if (cellData[cellIndex] === 1) {
-              positions[visibleCount * 3] = x * this.voxelSize;
-              positions[visibleCount * 3 + 1] = y * this.voxelSize;
-              positions[visibleCount * 3 + 2] = z * this.voxelSize;
-
-              // Color based on position
-              const hue = (x / this.gridSize[0] + y / this.gridSize[1] + z / this.gridSize[2]) / 3;
-              const color = new THREE.Color().setHSL(hue * 0.3 + 0.5, 0.8, 0.6);
-              colors[visibleCount * 3] = color.r;
-              colors[visibleCount * 3 + 1] = color.g;
-              colors[visibleCount * 3 + 2] = color.b;
-
-              visibleCount++;
-            }
-            idx++;
-          }
-        }
+      const position = this.pointCloud.geometry.attributes.position as THREE.BufferAttribute;
+      const color = this.pointCloud.geometry.attributes.color as THREE.BufferAttribute;
+      const positions = position.array as Float32Array;
+      const colors = color.array as Float32Array;
+
+      for (let i = 0; i < count; i++) {
+        const entry = i * LIVE_CELL_STRIDE;
+        if (data[entry + 6] === 0) continue;
+        positions[drawn * 3] = data[entry] * this.voxelSize;
+        positions[drawn * 3 + 1] = data[entry + 1] * this.voxelSize;
+        positions[drawn * 3 + 2] = data[entry + 2] * this.voxelSize;
+        this.writeCellColor(data, entry, colors, drawn * 3);
+        drawn++;
       }
 
-      this.pointCloud.geometry.setDrawRange(0, visibleCount);
-      this.pointCloud.geometry.attributes.position.needsUpdate = true;
-      this.pointCloud.geometry.attributes.color.needsUpdate = true;
-    } else if (this.instancedMesh) {
-      // Update instanced mesh
-      let visibleCount = 0;
-
-      for (let z = 0; z < this.gridSize[2]; z++) {
-        for (let y = 0; y < this.gridSize[1]; y++) {
-          for (let x = 0; x < this.gridSize[0]; x++) {
-            const cellIndex = x + y * this.gridSize[0] + z * this.gridSize[0] * this.gridSize[1];
-
-            if (cellData[cellIndex] === 1) {
-              this.dummy.position.set(
-                x * this.voxelSize,
-                y * this.voxelSize,
-                z * this.voxelSize
-              );
-              this.dummy.scale.set(1, 1, 1);
-
-              // Color variation based on position
-              const hue = (x / this.gridSize[0] + y / this.gridSize[1] + z / this.gridSize[2]) / 3;
-              const color = new THREE.Color().setHSL(hue * 0.3 + 0.5, 0.8, 0.6);
-              this.instancedMesh.setColorAt(visibleCount, color);
-
-              this.dummy.updateMatrix();
-              this.instancedMesh.setMatrixAt(visibleCount, this.dummy.matrix);
-              visibleCount++;
-            }
-          }
-        }
+      this.pointCloud.geometry.setDrawRange(0, drawn);
+      if (drawn > 0) {
+        // Upload only the entries in use
+        position.addUpdateRange(0, drawn * 3);
+        color.addUpdateRange(0, drawn * 3);
+        position.needsUpdate = true;
+        color.needsUpdate = true;
       }
-
-      // Hide remaining instances
-      for (let i = visibleCount; i < this.maxInstances; i++) {
-        this.dummy.position.set(0, -10000, 0);
-        this.dummy.scale.set(0, 0, 0);
-        this.dummy.updateMatrix();
-        this.instancedMesh.setMatrixAt(i, this.dummy.matrix);
+    } else if (this.instancedMesh && this.instancedMesh.instanceColor) {
+      // Update instanced mesh; instances past `count` are not drawn
+      const matrices = this.instancedMesh.instanceMatrix.array as Float32Array;
+      const colors = this.instancedMesh.instanceColor.array as Float32Array;
+
+      for (let i = 0; i < count; i++) {
+        const entry = i * LIVE_CELL_STRIDE;
+        if (data[entry + 6] === 0) continue;
+        // Translation-only matrix (column-major)
+        matrices.set(IDENTITY_MATRIX, drawn * 16);
+        matrices[drawn * 16 + 12] = data[entry] * this.voxelSize;
+        matrices[drawn * 16 + 13] = data[entry + 1] * this.voxelSize;
+        matrices[drawn * 16 + 14] = data[entry + 2] * this.voxelSize;
+        this.writeCellColor(data, entry, colors, drawn * 3);
+        drawn++;
       }
 
-      this.instancedMesh.count = visibleCount;
-      this.instancedMesh.instanceMatrix.needsUpdate = true;
-      if (this.instancedMesh.instanceColor) {
+      this.instancedMesh.count = drawn;
+      if (drawn > 0) {
+        this.instancedMesh.instanceMatrix.addUpdateRange(0, drawn * 16);
+        this.instancedMesh.instanceColor.addUpdateRange(0, drawn * 3);
+        this.instancedMesh.instanceMatrix.needsUpdate = true;
         this.instancedMesh.instanceColor.needsUpdate = true;
       }
     }
   }
 
+  /**
+   * Takes effect with the next updateCells()
+   */
+  setColorScheme(scheme: ColorScheme, gradient: GradientName = this.gradient): void {
+    this.colorScheme = scheme;
+    if (gradient !== this.gradient) {
+      this.gradient = gradient;
+      this.ageColors = this.createAgeColors();
+      this.heatColors = this.createHeatColors();
+    }
+  }
+
+  /**
+   * Objects for the 'objects' scheme: `labels` holds 1 + the object index per
+   * cell of the 3D view (x fastest) and `ids[index]` the object's tracked id,
+   * which picks its color. Takes effect with the next updateCells().
+   */
+  setObjectLabels(labels: Uint32Array | null, ids: readonly number[]): void {
+    this.objectLabels = labels;
+    this.objectColors = new Float32Array(ids.length * 3);
+    ids.forEach((id, index) => this.objectColors.set(getObjectColor(id), index * 3));
+  }
+
   setRenderMode(mode: RenderMode): void {
     if (mode !== this.renderMode) {
       this.renderMode = mode;
@@ -241,6 +493,102 @@ export class VoxelRenderer {
     }
   }
 
+  /**
+   * In edit mode Shift+click toggles cells, leaving plain drags to orbit the
+   * camera, and the cursor plane is shown
+   */
+  setEditMode(enabled: boolean): void {
+    this.editMode = enabled;
+    this.planeGrid.visible = enabled;
+    this.cursor.visible = false;
+    this.camera.ignorePresses(enabled ? (e) => e.shiftKey : null);
+  }
+
+  /**
+   * Move the cursor plane to a Z layer of the view
+   */
+  setEditLayer(layer: number): void {
+    this.editLayer = Math.max(0, Math.min(layer, this.gridSize[2] - 1));
+    this.planeGrid.position.z = this.editLayer * this.voxelSize;
+    this.editPlane.constant = -this.editLayer * this.voxelSize;
+  }
+
+  /**
+   * Cell under a point of the canvas: the nearest drawn cell the ray hits,
+   * else the cell of the cursor plane, or null when it misses the plane
+   * within the view
+   */
+  pickCell(clientX: number, clientY: number): CellPick | null {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera.getCamera());
+
+    let hit: THREE.Vector3 | null = null;
+    if (this.instancedMesh && this.instancedMesh.count > 0) {
+      // Instances move with every update, so their bounds are refreshed first
+      this.instancedMesh.computeBoundingSphere();
+      const [intersection] = this.raycaster.intersectObject(this.instancedMesh, false);
+      if (intersection?.instanceId !== undefined) {
+        const matrices = this.instancedMesh.instanceMatrix.array;
+        const offset = intersection.instanceId * 16 + 12;
+        hit = new THREE.Vector3(matrices[offset], matrices[offset + 1], matrices[offset + 2]);
+      }
+    } else if (this.pointCloud) {
+      const [intersection] = this.raycaster.intersectObject(this.pointCloud, false);
+      if (intersection?.index !== undefined) {
+        const position = this.pointCloud.geometry.attributes.position as THREE.BufferAttribute;
+        hit = new THREE.Vector3().fromBufferAttribute(position, intersection.index);
+      }
+    }
+    if (hit) {
+      return { coords: this.toCellCoords(hit), live: true };
+    }
+
+    const point = this.raycaster.ray.intersectPlane(this.editPlane, new THREE.Vector3());
+    if (!point) return null;
+    const coords = this.toCellCoords(point);
+    coords[2] = this.editLayer;
+    const inside = coords.every((coord, axis) => coord >= 0 && coord < this.gridSize[axis]);
+    return inside ? { coords, live: false } : null;
+  }
+
+  private toCellCoords(position: THREE.Vector3): [number, number, number] {
+    return [
+      Math.round(position.x / this.voxelSize),
+      Math.round(position.y / this.voxelSize),
+      Math.round(position.z / this.voxelSize),
+    ];
+  }
+
+  private onPointerDown(e: MouseEvent): void {
+    if (!this.editMode || !e.shiftKey || e.button !== 0) return;
+
+    const pick = this.pickCell(e.clientX, e.clientY);
+    if (pick) {
+      this.onCellEdit?.(pick);
+    }
+  }
+
+  /**
+   * Outline the cell a click would toggle
+   */
+  private onPointerMove(e: MouseEvent): void {
+    // Orbiting moves the view under the pointer anyway
+    if (!this.editMode || e.buttons !== 0) return;
+
+    const pick = this.pickCell(e.clientX, e.clientY);
+    this.cursor.visible = pick !== null;
+    if (pick) {
+      this.cursor.position.set(...pick.coords).multiplyScalar(this.voxelSize);
+      (this.cursor.material as THREE.LineBasicMaterial).color.setHex(
+        pick.live ? REMOVE_CURSOR_COLOR : ADD_CURSOR_COLOR
+      );
+    }
+  }
+
   render(): void {
     this.camera.update();
     this.renderer.render(this.scene, this.camera.getCamera());
@@ -266,6 +614,13 @@ export class VoxelRenderer {
 
   destroy(): void {
     this.camera.destroy();
+    for (const [type, listener] of this.pointerListeners) {
+      this.renderer.domElement.removeEventListener(type, listener as EventListener);
+    }
+    this.planeGrid.geometry.dispose();
+    (this.planeGrid.material as THREE.Material).dispose();
+    this.cursor.geometry.dispose();
+    (this.cursor.material as THREE.Material).dispose();
 
     if (this.instancedMesh) {
       this.instancedMesh.geometry.dispose();
@@ -285,6 +640,11 @@ export class VoxelRenderer {
       }
     }
 
+    if (this.heatCloud) {
+      this.heatCloud.geometry.dispose();
+      (this.heatCloud.material as THREE.Material).dispose();
+    }
+
     this.renderer.dispose();
   }
 }
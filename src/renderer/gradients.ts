@@ -0,0 +1,45 @@
+/**
+ * Color gradients for the data-driven color schemes (cell age, activity heatmap)
+ */
+
+import * as THREE from 'three';
+
+export interface ColorGradient {
+  label: string;
+  /** sRGB colors at evenly spaced positions from 0 to 1 */
+  stops: number[];
+}
+
+export const COLOR_GRADIENTS = {
+  ember: { label: 'Ember', stops: [0xffffff, 0xffe066, 0xff8c1a, 0xc2185b, 0x4a148c] },
+  viridis: { label: 'Viridis', stops: [0xfde725, 0x5ec962, 0x21918c, 0x3b528b, 0x440154] },
+  ice: { label: 'Ice', stops: [0xffffff, 0x9be7ff, 0x2196f3, 0x1a237e] },
+  mono: { label: 'Mono', stops: [0xffffff, 0x444444] },
+} satisfies Record<string, ColorGradient>;
+
+export type GradientName = keyof typeof COLOR_GRADIENTS;
+
+export const DEFAULT_GRADIENT: GradientName = 'ember';
+
+/**
+ * Sample a gradient at `size` evenly spaced positions from 0 to 1 into a
+ * flat r, g, b table in the renderer's (linear) working color space
+ */
+export function createGradientTable(gradient: ColorGradient, size: number): Float32Array {
+  const stops = gradient.stops.map(hex => new THREE.Color(hex));
+  const table = new Float32Array(size * 3);
+  const color = new THREE.Color();
+
+  for (let i = 0; i < size; i++) {
+    const position = (size > 1 ? i / (size - 1) : 0) * (stops.length - 1);
+    const lower = Math.min(Math.floor(position), stops.length - 2);
+    if (lower < 0) {
+      color.copy(stops[0]);
+    } else {
+      color.lerpColors(stops[lower], stops[lower + 1], position - lower);
+    }
+    color.toArray(table, i * 3);
+  }
+
+  return table;
+}
@@ -0,0 +1,60 @@
+// Activity accumulation for the heatmap
+// After each generation, every cell's heat decays by `decay` and grows by 1
+// if the cell changed state: heat = heat * decay + changed. A decay of 1
+// counts every change (cumulative window); 1 - 1/N approximates a sliding
+// window of N generations. One invocation per packed word of the grid.
+
+const WORKGROUP_SIZE: u32 = 64u;
+
+// Leading fields of the compute-nd.wgsl uniforms
+struct Uniforms {
+    gridSize: array<vec4<u32>, 2>,
+    boundaries: array<vec4<u32>, 2>,
+    cellCount: u32,
+    ruleWords: u32,
+    states: u32,
+    neighborCount: u32,
+    bitsPerCell: u32,
+    sourceBits: u32,
+    wordCount: u32,
+}
+
+struct ActivityParams {
+    decay: f32,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> previousGrid: array<u32>;
+@group(0) @binding(2) var<storage, read> currentGrid: array<u32>;
+@group(0) @binding(3) var<uniform> params: ActivityParams;
+@group(0) @binding(4) var<storage, read_write> heat: array<f32>;
+
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn main(
+    @builtin(global_invocation_id) global_id: vec3<u32>,
+    @builtin(num_workgroups) num_workgroups: vec3<u32>
+) {
+    // Large grids are dispatched as a 2D array of workgroups
+    let word = global_id.x + global_id.y * num_workgroups.x * WORKGROUP_SIZE;
+    if (word >= uniforms.wordCount) {
+        return;
+    }
+
+    let bits = uniforms.bitsPerCell;
+    let cellsPerWord = 32u / bits;
+    let mask = (1u << bits) - 1u;
+    let changed = previousGrid[word] ^ currentGrid[word];
+    // Nothing to do for unchanged words when heat does not decay
+    if (changed == 0u && params.decay == 1.0) {
+        return;
+    }
+
+    for (var k: u32 = 0u; k < cellsPerWord; k++) {
+        let index = word * cellsPerWord + k;
+        if (index >= uniforms.cellCount) {
+            break;
+        }
+        let delta = select(0.0, 1.0, ((changed >> (k * bits)) & mask) != 0u);
+        heat[index] = heat[index] * params.decay + delta;
+    }
+}
@@ -0,0 +1,147 @@
+// Live-cell compaction for the renderer
+// Lists every non-dead cell of the rendered 3D slice as x, y, z, r, g, b,
+// state, age, heat (LIVE_CELL_STRIDE floats), appending through an atomic
+// counter, so the CPU only ever touches the live population. Entry order is
+// unspecified. While activity is tracked, dead cells with at least `minHeat`
+// are listed too, for the heatmap.
+// Colors match getCellColor in utils/liveCells.ts.
+
+const WORKGROUP_SIZE: u32 = 64u;
+// Floats per entry (LIVE_CELL_STRIDE in liveCells.ts)
+const STRIDE: u32 = 9u;
+
+// Leading fields of the compute-nd.wgsl uniforms
+struct Uniforms {
+    gridSize: array<vec4<u32>, 2>,
+    boundaries: array<vec4<u32>, 2>,
+    cellCount: u32,
+    ruleWords: u32,
+    states: u32,
+    neighborCount: u32,
+    bitsPerCell: u32,
+    sourceBits: u32,
+    wordCount: u32,
+}
+
+struct SliceParams {
+    // Index of the slice's first cell; the slice spans gridSize X*Y*Z cells
+    sliceStart: u32,
+    sliceCells: u32,
+    // Entries that fit in liveCells.data
+    capacity: u32,
+    // 1 when `heat` holds activity (see activity-nd.wgsl), 0 for a placeholder
+    heatTracked: u32,
+    minHeat: f32,
+}
+
+// count keeps counting past capacity; GPUSimulation clamps it on readback
+struct LiveCells {
+    count: atomic<u32>,
+    data: array<f32>,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> grid: array<u32>;
+@group(0) @binding(2) var<uniform> params: SliceParams;
+@group(0) @binding(3) var<storage, read_write> liveCells: LiveCells;
+// Cell ages, one byte per cell (see compute-nd.wgsl)
+@group(0) @binding(4) var<storage, read> ages: array<u32>;
+@group(0) @binding(5) var<storage, read> heat: array<f32>;
+
+fn hueToRgb(p: f32, q: f32, hue: f32) -> f32 {
+    var t = hue;
+    if (t < 0.0) { t += 1.0; }
+    if (t > 1.0) { t -= 1.0; }
+    if (t < 1.0 / 6.0) { return p + (q - p) * 6.0 * t; }
+    if (t < 0.5) { return q; }
+    if (t < 2.0 / 3.0) { return p + (q - p) * 6.0 * (2.0 / 3.0 - t); }
+    return p;
+}
+
+fn hslToRgb(h: f32, s: f32, l: f32) -> vec3<f32> {
+    let q = select(l + s - l * s, l * (1.0 + s), l <= 0.5);
+    let p = 2.0 * l - q;
+    return vec3<f32>(hueToRgb(p, q, h + 1.0 / 3.0), hueToRgb(p, q, h), hueToRgb(p, q, h - 1.0 / 3.0));
+}
+
+// Live cells are colored by position; dying Generations states fade from
+// orange to dark red as they approach death
+fn cellColor(position: vec3<f32>, state: u32) -> vec3<f32> {
+    if (state == 1u) {
+        let view = vec3<f32>(f32(uniforms.gridSize[0].x), f32(uniforms.gridSize[0].y), f32(uniforms.gridSize[0].z));
+        let relative = position / view;
+        let hue = (relative.x + relative.y + relative.z) / 3.0;
+        return hslToRgb(hue * 0.3 + 0.5, 0.8, 0.6);
+    }
+
+    let decay = f32(state - 1u) / f32(max(1u, uniforms.states - 1u));
+    return hslToRgb(0.08 * (1.0 - decay), 0.9, 0.55 - 0.3 * decay);
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn main(
+    @builtin(global_invocation_id) global_id: vec3<u32>,
+    @builtin(num_workgroups) num_workgroups: vec3<u32>
+) {
+    let bits = uniforms.bitsPerCell;
+    let cellsPerWord = 32u / bits;
+    let sliceEnd = params.sliceStart + params.sliceCells;
+
+    // One invocation per word overlapping the slice, 2D-dispatched like compute-nd.wgsl
+    let word = params.sliceStart / cellsPerWord
+        + global_id.x + global_id.y * num_workgroups.x * WORKGROUP_SIZE;
+    if (word * cellsPerWord >= sliceEnd) {
+        return;
+    }
+
+    let packed = grid[word];
+    let tracked = params.heatTracked != 0u;
+    // Empty words (the common case for sparse grids) contribute nothing
+    if (packed == 0u && !tracked) {
+        return;
+    }
+
+    let sizeX = uniforms.gridSize[0].x;
+    let sizeY = uniforms.gridSize[0].y;
+    let mask = (1u << bits) - 1u;
+
+    for (var k: u32 = 0u; k < cellsPerWord; k++) {
+        let index = word * cellsPerWord + k;
+        let state = (packed >> (k * bits)) & mask;
+        if (index < params.sliceStart || index >= sliceEnd) {
+            continue;
+        }
+        var cellHeat: f32 = 0.0;
+        if (tracked) {
+            cellHeat = heat[index];
+        }
+        if (state == 0u && cellHeat < params.minHeat) {
+            continue;
+        }
+
+        let slot = atomicAdd(&liveCells.count, 1u);
+        if (slot >= params.capacity) {
+            continue;
+        }
+
+        let local = index - params.sliceStart;
+        let position = vec3<f32>(
+            f32(local % sizeX),
+            f32((local / sizeX) % sizeY),
+            f32(local / (sizeX * sizeY))
+        );
+        // Dead cells only show up in the heatmap, which brings its own colors
+        let color = select(vec3<f32>(0.0), cellColor(position, state), state != 0u);
+
+        let base = slot * STRIDE;
+        liveCells.data[base] = position.x;
+        liveCells.data[base + 1u] = position.y;
+        liveCells.data[base + 2u] = position.z;
+        liveCells.data[base + 3u] = color.r;
+        liveCells.data[base + 4u] = color.g;
+        liveCells.data[base + 5u] = color.b;
+        liveCells.data[base + 6u] = f32(state);
+        liveCells.data[base + 7u] = f32((ages[index / 4u] >> ((index % 4u) * 8u)) & 0xffu);
+        liveCells.data[base + 8u] = cellHeat;
+    }
+}
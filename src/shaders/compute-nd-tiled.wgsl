@@ -0,0 +1,233 @@
+// N-dimensional Game of Life Compute Shader, shared-memory tiled variant
+// Each workgroup owns a tile of 64 cells spanning every axis (so W and V run
+// in parallel with X/Y/Z). The tile plus a halo of `halo` cells per side is
+// loaded once into workgroup memory with the boundary conditions already
+// applied, and neighbors are then counted from there without any wrapping.
+// Output words are shared between tiles, so results (and cell ages, one byte
+// per cell) are OR-ed atomically into output buffers that GPUSimulation
+// clears before the pass.
+
+const MAX_DIMENSIONS: u32 = 5u;
+const WORKGROUP_SIZE: u32 = 64u;
+const MAX_AGE: u32 = 255u;
+// 16 KiB of u32, the WebGPU default for maxComputeWorkgroupStorageSize
+const MAX_TILE_CELLS: u32 = 4096u;
+
+// Boundary mode codes, matching BOUNDARY_CODES in boundaries.ts
+const BOUNDARY_DEAD: u32 = 1u;
+const BOUNDARY_REFLECTIVE: u32 = 2u;
+const BOUNDARY_TWISTED: u32 = 3u;
+
+override DIMENSIONS: u32 = 3u;
+
+// Same layout as compute-nd.wgsl, extended with the tiling parameters
+struct Uniforms {
+    gridSize: array<vec4<u32>, 2>,
+    boundaries: array<vec4<u32>, 2>,
+    cellCount: u32,
+    ruleWords: u32,
+    states: u32,
+    neighborCount: u32,
+    bitsPerCell: u32,
+    sourceBits: u32,
+    wordCount: u32,
+    // Neighborhood reach: the largest offset component
+    halo: u32,
+    // Tile extent per axis (product is at most WORKGROUP_SIZE)
+    tileSize: array<vec4<u32>, 2>,
+    // Number of tiles per axis
+    tileCounts: array<vec4<u32>, 2>,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> inputGrid: array<u32>;
+@group(0) @binding(2) var<storage, read_write> outputGrid: array<atomic<u32>>;
+@group(0) @binding(3) var<storage, read> ruleMasks: array<u32>;
+@group(0) @binding(4) var<storage, read> neighborOffsets: array<i32>;
+@group(0) @binding(5) var<storage, read> inputAges: array<u32>;
+@group(0) @binding(6) var<storage, read_write> outputAges: array<atomic<u32>>;
+
+// Live flags for the haloed tile, X varying fastest
+var<workgroup> tile: array<u32, MAX_TILE_CELLS>;
+
+fn axisSize(axis: u32) -> u32 {
+    return uniforms.gridSize[axis / 4u][axis % 4u];
+}
+
+fn axisBoundary(axis: u32) -> u32 {
+    return uniforms.boundaries[axis / 4u][axis % 4u];
+}
+
+fn tileSize(axis: u32) -> u32 {
+    return uniforms.tileSize[axis / 4u][axis % 4u];
+}
+
+fn tileCount(axis: u32) -> u32 {
+    return uniforms.tileCounts[axis / 4u][axis % 4u];
+}
+
+fn haloSize(axis: u32) -> u32 {
+    return tileSize(axis) + 2u * uniforms.halo;
+}
+
+fn readCell(index: u32) -> u32 {
+    let bits = uniforms.bitsPerCell;
+    let cellsPerWord = 32u / bits;
+    let shift = (index % cellsPerWord) * bits;
+    return (inputGrid[index / cellsPerWord] >> shift) & ((1u << bits) - 1u);
+}
+
+// Test bit `count` of the rule mask starting at word `offset`
+fn hasRuleBit(offset: u32, count: u32) -> bool {
+    return ((ruleMasks[offset + count / 32u] >> (count % 32u)) & 1u) == 1u;
+}
+
+// Map coordinates that may lie past a face to a cell index, or -1 beyond a
+// dead boundary. Mirrors countNeighbors in compute-nd.wgsl.
+fn resolveIndex(coords: array<i32, MAX_DIMENSIONS>) -> i32 {
+    var resolved: array<i32, MAX_DIMENSIONS>;
+    var flips: array<bool, MAX_DIMENSIONS>;
+
+    for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+        let size = i32(axisSize(d));
+        let c = coords[d];
+        let boundary = axisBoundary(d);
+        let mode = boundary & 0xffu;
+
+        if (c >= 0 && c < size) {
+            resolved[d] = c;
+        } else if (mode == BOUNDARY_DEAD) {
+            return -1;
+        } else if (mode == BOUNDARY_REFLECTIVE) {
+            let period = 2 * size;
+            let m = (c % period + period) % period;
+            resolved[d] = select(m, period - 1 - m, m >= size);
+        } else {
+            resolved[d] = (c % size + size) % size;
+            if (mode == BOUNDARY_TWISTED && ((c - resolved[d]) / size) % 2 != 0) {
+                let flipAxis = boundary >> 8u;
+                flips[flipAxis] = !flips[flipAxis];
+            }
+        }
+    }
+
+    var index: u32 = 0u;
+    var stride: u32 = 1u;
+    for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+        let size = axisSize(d);
+        var c = u32(resolved[d]);
+        if (flips[d]) {
+            c = size - 1u - c;
+        }
+        index += c * stride;
+        stride *= size;
+    }
+    return i32(index);
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn main(
+    @builtin(workgroup_id) workgroup_id: vec3<u32>,
+    @builtin(num_workgroups) num_workgroups: vec3<u32>,
+    @builtin(local_invocation_index) local_index: u32
+) {
+    // Tiles are dispatched as a 2D array of workgroups; decode the tile position
+    let tileIndex = workgroup_id.x + workgroup_id.y * num_workgroups.x;
+    var origin: array<i32, MAX_DIMENSIONS>;
+    var rest = tileIndex;
+    var tileCells: u32 = 1u;
+    var haloCells: u32 = 1u;
+    for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+        origin[d] = i32((rest % tileCount(d)) * tileSize(d));
+        rest = rest / tileCount(d);
+        tileCells *= tileSize(d);
+        haloCells *= haloSize(d);
+    }
+    // Uniform across the workgroup, so the barrier below stays in uniform control flow
+    let inRange = rest == 0u;
+    let halo = i32(uniforms.halo);
+
+    // Load the haloed tile cooperatively
+    if (inRange) {
+        for (var i = local_index; i < haloCells; i += WORKGROUP_SIZE) {
+            var coords: array<i32, MAX_DIMENSIONS>;
+            var r = i;
+            for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                coords[d] = origin[d] + i32(r % haloSize(d)) - halo;
+                r = r / haloSize(d);
+            }
+            let index = resolveIndex(coords);
+            tile[i] = select(0u, u32(readCell(u32(index)) == 1u), index >= 0);
+        }
+    }
+
+    workgroupBarrier();
+
+    if (!inRange || local_index >= tileCells) {
+        return;
+    }
+
+    // This invocation's cell, in tile, haloed tile and grid coordinates
+    var center: u32 = 0u;
+    var cellIndex: u32 = 0u;
+    var r = local_index;
+    var haloStride: u32 = 1u;
+    var gridStride: u32 = 1u;
+    for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+        let local = r % tileSize(d);
+        r = r / tileSize(d);
+        let coord = u32(origin[d]) + local;
+        // Partial tiles at the far faces
+        if (coord >= axisSize(d)) {
+            return;
+        }
+        center += (local + uniforms.halo) * haloStride;
+        cellIndex += coord * gridStride;
+        haloStride *= haloSize(d);
+        gridStride *= axisSize(d);
+    }
+
+    var neighbors: u32 = 0u;
+    for (var n: u32 = 0u; n < uniforms.neighborCount; n++) {
+        var offset: i32 = 0;
+        var stride: i32 = 1;
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            offset += neighborOffsets[n * DIMENSIONS + d] * stride;
+            stride *= i32(haloSize(d));
+        }
+        neighbors += tile[u32(i32(center) + offset)];
+    }
+
+    let currentState = readCell(cellIndex);
+    var newState: u32 = 0u;
+
+    if (currentState == 1u) {
+        // Cell is alive - check survival conditions, otherwise start decaying
+        if (hasRuleBit(0u, neighbors)) {
+            newState = 1u;
+        } else if (uniforms.states > 2u) {
+            newState = 2u;
+        }
+    } else if (currentState == 0u) {
+        // Cell is dead - check birth conditions
+        if (hasRuleBit(uniforms.ruleWords, neighbors)) {
+            newState = 1u;
+        }
+    } else if (currentState + 1u < uniforms.states) {
+        // Cell is dying - advance to the next state until it dies
+        newState = currentState + 1u;
+    }
+
+    if (newState != 0u) {
+        let cellsPerWord = 32u / uniforms.bitsPerCell;
+        let shift = (cellIndex % cellsPerWord) * uniforms.bitsPerCell;
+        atomicOr(&outputGrid[cellIndex / cellsPerWord], newState << shift);
+    }
+
+    // Surviving cells age by one generation; newborn, dying and dead cells are 0
+    if (newState == 1u && currentState == 1u) {
+        let ageShift = (cellIndex % 4u) * 8u;
+        let age = min(((inputAges[cellIndex / 4u] >> ageShift) & 0xffu) + 1u, MAX_AGE);
+        atomicOr(&outputAges[cellIndex / 4u], age << ageShift);
+    }
+}
@@ -0,0 +1,244 @@
+// N-dimensional Game of Life Compute Shader
+// Counts neighbors from a precomputed offset list (Moore, von Neumann or custom)
+// for 2 to 5 dimensions.
+// DIMENSIONS is a pipeline-overridable constant set by GPUSimulation.
+// Cells are 0 (dead), 1 (alive) or 2..states-1 (dying, Generations rules).
+// Grids are bit-packed: bitsPerCell (1, 2, 4 or 8) bits per cell, cell i in
+// word i / cellsPerWord. Each invocation produces one whole output word.
+// Cell ages (generations survived, saturating at 255) are tracked alongside,
+// one byte per cell, four cells per word.
+
+const MAX_DIMENSIONS: u32 = 5u;
+const WORKGROUP_SIZE: u32 = 64u;
+const MAX_AGE: u32 = 255u;
+
+// Boundary mode codes, matching BOUNDARY_CODES in boundaries.ts
+const BOUNDARY_DEAD: u32 = 1u;
+const BOUNDARY_REFLECTIVE: u32 = 2u;
+const BOUNDARY_TWISTED: u32 = 3u;
+
+override DIMENSIONS: u32 = 3u;
+
+struct Uniforms {
+    // Axis extents: gridSize[0] holds X/Y/Z/W, gridSize[1].x holds V
+    gridSize: array<vec4<u32>, 2>,
+    // Per-axis boundary: mode in the low byte, twisted flip axis in the next
+    boundaries: array<vec4<u32>, 2>,
+    cellCount: u32,
+    // Words per rule mask; ruleMasks holds survive words then birth words
+    ruleWords: u32,
+    // Number of cell states (2 for plain birth/survival rules)
+    states: u32,
+    // Number of entries in neighborOffsets, DIMENSIONS components each
+    neighborCount: u32,
+    bitsPerCell: u32,
+    // Cell width of inputGrid for the repack entry point
+    sourceBits: u32,
+    // Number of packed words in outputGrid
+    wordCount: u32,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> inputGrid: array<u32>;
+@group(0) @binding(2) var<storage, read_write> outputGrid: array<u32>;
+@group(0) @binding(3) var<storage, read> ruleMasks: array<u32>;
+@group(0) @binding(4) var<storage, read> neighborOffsets: array<i32>;
+@group(0) @binding(5) var<storage, read> inputAges: array<u32>;
+@group(0) @binding(6) var<storage, read_write> outputAges: array<u32>;
+
+fn axisSize(axis: u32) -> u32 {
+    return uniforms.gridSize[axis / 4u][axis % 4u];
+}
+
+fn axisBoundary(axis: u32) -> u32 {
+    return uniforms.boundaries[axis / 4u][axis % 4u];
+}
+
+// Read cell `index` from inputGrid packed with `bits` bits per cell
+fn readCell(index: u32, bits: u32) -> u32 {
+    let cellsPerWord = 32u / bits;
+    let shift = (index % cellsPerWord) * bits;
+    return (inputGrid[index / cellsPerWord] >> shift) & ((1u << bits) - 1u);
+}
+
+fn readAge(index: u32) -> u32 {
+    return (inputAges[index / 4u] >> ((index % 4u) * 8u)) & 0xffu;
+}
+
+// Surviving cells age by one generation; newborn, dying and dead cells are 0
+fn nextAge(index: u32, currentState: u32, newState: u32) -> u32 {
+    if (newState != 1u || currentState != 1u) {
+        return 0u;
+    }
+    return min(readAge(index) + 1u, MAX_AGE);
+}
+
+// Test bit `count` of the rule mask starting at word `offset`
+fn hasRuleBit(offset: u32, count: u32) -> bool {
+    return ((ruleMasks[offset + count / 32u] >> (count % 32u)) & 1u) == 1u;
+}
+
+// Convert a 1D index to per-axis coordinates (X varies fastest)
+fn indexToCoords(index: u32) -> array<i32, MAX_DIMENSIONS> {
+    var coords: array<i32, MAX_DIMENSIONS>;
+    var rest = index;
+    for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+        let size = axisSize(d);
+        coords[d] = i32(rest % size);
+        rest = rest / size;
+    }
+    return coords;
+}
+
+// Count living neighbors, resolving coordinates past a face with that axis's
+// boundary mode. Dying cells (state >= 2) do not count.
+fn countNeighbors(coords: array<i32, MAX_DIMENSIONS>) -> u32 {
+    var count: u32 = 0u;
+
+    for (var n: u32 = 0u; n < uniforms.neighborCount; n++) {
+        var resolved: array<i32, MAX_DIMENSIONS>;
+        var flips: array<bool, MAX_DIMENSIONS>;
+        var outside = false;
+
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            let size = i32(axisSize(d));
+            let c = coords[d] + neighborOffsets[n * DIMENSIONS + d];
+            let boundary = axisBoundary(d);
+            let mode = boundary & 0xffu;
+
+            if (c >= 0 && c < size) {
+                resolved[d] = c;
+            } else if (mode == BOUNDARY_DEAD) {
+                outside = true;
+                break;
+            } else if (mode == BOUNDARY_REFLECTIVE) {
+                let period = 2 * size;
+                let m = (c % period + period) % period;
+                resolved[d] = select(m, period - 1 - m, m >= size);
+            } else {
+                // Offsets may reach past a whole axis when the radius exceeds its size
+                resolved[d] = (c % size + size) % size;
+                // An odd number of wraps mirrors the flip axis
+                if (mode == BOUNDARY_TWISTED && ((c - resolved[d]) / size) % 2 != 0) {
+                    let flipAxis = boundary >> 8u;
+                    flips[flipAxis] = !flips[flipAxis];
+                }
+            }
+        }
+
+        if (outside) {
+            continue;
+        }
+
+        var index: u32 = 0u;
+        var stride: u32 = 1u;
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            let size = axisSize(d);
+            var c = u32(resolved[d]);
+            if (flips[d]) {
+                c = size - 1u - c;
+            }
+            index += c * stride;
+            stride *= size;
+        }
+
+        if (readCell(index, uniforms.bitsPerCell) == 1u) {
+            count += 1u;
+        }
+    }
+
+    return count;
+}
+
+fn nextState(index: u32, currentState: u32) -> u32 {
+    let neighbors = countNeighbors(indexToCoords(index));
+
+    // Apply Game of Life rules
+    var newState: u32 = 0u;
+
+    if (currentState == 1u) {
+        // Cell is alive - check survival conditions, otherwise start decaying
+        if (hasRuleBit(0u, neighbors)) {
+            newState = 1u;
+        } else if (uniforms.states > 2u) {
+            newState = 2u;
+        }
+    } else if (currentState == 0u) {
+        // Cell is dead - check birth conditions
+        if (hasRuleBit(uniforms.ruleWords, neighbors)) {
+            newState = 1u;
+        }
+    } else if (currentState + 1u < uniforms.states) {
+        // Cell is dying - advance to the next state until it dies
+        newState = currentState + 1u;
+    }
+
+    return newState;
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn main(
+    @builtin(global_invocation_id) global_id: vec3<u32>,
+    @builtin(num_workgroups) num_workgroups: vec3<u32>
+) {
+    // Large grids are dispatched as a 2D array of workgroups
+    let word = global_id.x + global_id.y * num_workgroups.x * WORKGROUP_SIZE;
+    if (word >= uniforms.wordCount) {
+        return;
+    }
+
+    let bits = uniforms.bitsPerCell;
+    let cellsPerWord = 32u / bits;
+    var packed: u32 = 0u;
+    // At least four cells per grid word, so whole age words belong to this invocation
+    var ages: u32 = 0u;
+
+    for (var k: u32 = 0u; k < cellsPerWord; k++) {
+        let index = word * cellsPerWord + k;
+        // Bits past the last cell stay zero
+        if (index >= uniforms.cellCount) {
+            break;
+        }
+        let currentState = readCell(index, bits);
+        let newState = nextState(index, currentState);
+        packed |= newState << (k * bits);
+
+        ages |= nextAge(index, currentState, newState) << ((index % 4u) * 8u);
+        if (index % 4u == 3u || index + 1u == uniforms.cellCount) {
+            outputAges[index / 4u] = ages;
+            ages = 0u;
+        }
+    }
+
+    outputGrid[word] = packed;
+}
+
+// Convert inputGrid from sourceBits to bitsPerCell per cell when a rule change
+// alters the cell width. States that no longer fit become dead.
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn repack(
+    @builtin(global_invocation_id) global_id: vec3<u32>,
+    @builtin(num_workgroups) num_workgroups: vec3<u32>
+) {
+    let word = global_id.x + global_id.y * num_workgroups.x * WORKGROUP_SIZE;
+    if (word >= uniforms.wordCount) {
+        return;
+    }
+
+    let bits = uniforms.bitsPerCell;
+    let cellsPerWord = 32u / bits;
+    var packed: u32 = 0u;
+
+    for (var k: u32 = 0u; k < cellsPerWord; k++) {
+        let index = word * cellsPerWord + k;
+        if (index >= uniforms.cellCount) {
+            break;
+        }
+        let value = readCell(index, uniforms.sourceBits);
+        if (value < (1u << bits)) {
+            packed |= value << (k * bits);
+        }
+    }
+
+    outputGrid[word] = packed;
+}
@@ -0,0 +1,167 @@
+// Whole-grid state hash for cycle detection
+// Each non-zero packed word adds a hash of its index and value to two
+// independent 32-bit lanes; sums are order-independent, so workgroups can
+// combine them with atomics. A shape hash sums a weight per non-dead cell
+// times per-axis base powers of its coordinates, and the origin (the lowest
+// coordinate per axis) is kept inverted so that zero means no cells; the CPU
+// divides the origin's powers out. Matches accumulateStateHash in
+// utils/stateHash.ts. GPUSimulation clears `stateHash` before every pass.
+
+const MAX_DIMENSIONS: u32 = 5u;
+const WORKGROUP_SIZE: u32 = 64u;
+
+override DIMENSIONS: u32 = 3u;
+
+// Per-axis bases of the two shape hash lanes
+const SHAPE_BASES = array<array<u32, 5>, 2>(
+    array<u32, 5>(0x9e3779b1u, 0x85ebca6bu, 0xc2b2ae35u, 0x27d4eb2fu, 0x165667b1u),
+    array<u32, 5>(0x7feb352du, 0x846ca68bu, 0x5bd1e995u, 0xcc9e2d51u, 0x1b873593u),
+);
+
+// Leading fields of the compute-nd.wgsl uniforms
+struct Uniforms {
+    gridSize: array<vec4<u32>, 2>,
+    boundaries: array<vec4<u32>, 2>,
+    cellCount: u32,
+    ruleWords: u32,
+    states: u32,
+    neighborCount: u32,
+    bitsPerCell: u32,
+    sourceBits: u32,
+    wordCount: u32,
+}
+
+struct StateHash {
+    low: atomic<u32>,
+    high: atomic<u32>,
+    shapeLow: atomic<u32>,
+    shapeHigh: atomic<u32>,
+    invertedOrigin: array<atomic<u32>, MAX_DIMENSIONS>,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> grid: array<u32>;
+@group(0) @binding(2) var<storage, read_write> stateHash: StateHash;
+
+var<workgroup> groupLow: atomic<u32>;
+var<workgroup> groupHigh: atomic<u32>;
+var<workgroup> groupShapeLow: atomic<u32>;
+var<workgroup> groupShapeHigh: atomic<u32>;
+var<workgroup> groupOrigin: array<atomic<u32>, MAX_DIMENSIONS>;
+
+fn axisSize(axis: u32) -> u32 {
+    return uniforms.gridSize[axis / 4u][axis % 4u];
+}
+
+// Murmur3 finalizer
+fn mix(value: u32) -> u32 {
+    var h = value;
+    h ^= h >> 16u;
+    h *= 0x85ebca6bu;
+    h ^= h >> 13u;
+    h *= 0xc2b2ae35u;
+    h ^= h >> 16u;
+    return h;
+}
+
+// base^exponent, wrapping like u32 multiplication
+fn power(base: u32, exponent: u32) -> u32 {
+    var result = 1u;
+    var square = base;
+    for (var e = exponent; e > 0u; e >>= 1u) {
+        if ((e & 1u) != 0u) {
+            result *= square;
+        }
+        square *= square;
+    }
+    return result;
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn main(
+    @builtin(global_invocation_id) global_id: vec3<u32>,
+    @builtin(num_workgroups) num_workgroups: vec3<u32>,
+    @builtin(local_invocation_index) local_index: u32
+) {
+    // Large grids are dispatched as a 2D array of workgroups
+    let word = global_id.x + global_id.y * num_workgroups.x * WORKGROUP_SIZE;
+    // No early return: every invocation must reach the barrier below
+    var value: u32 = 0u;
+    if (word < uniforms.wordCount) {
+        value = grid[word];
+    }
+
+    if (value != 0u) {
+        let key = mix(word + 0x9e3779b9u);
+        atomicAdd(&groupLow, mix(value ^ key));
+        atomicAdd(&groupHigh, mix((value ^ 0x5bd1e995u) + mix(key)));
+
+        let bits = uniforms.bitsPerCell;
+        let cellsPerWord = 32u / bits;
+        let mask = (1u << bits) - 1u;
+
+        var shapeLow: u32 = 0u;
+        var shapeHigh: u32 = 0u;
+        var origin: array<u32, MAX_DIMENSIONS>;
+
+        // Coordinates of the word's first cell, advanced cell by cell below
+        var coords: array<u32, MAX_DIMENSIONS>;
+        var rest = word * cellsPerWord;
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            coords[d] = rest % axisSize(d);
+            rest = rest / axisSize(d);
+        }
+
+        for (var k: u32 = 0u; k < cellsPerWord; k++) {
+            if (word * cellsPerWord + k >= uniforms.cellCount) {
+                break;
+            }
+
+            let state = (value >> (k * bits)) & mask;
+            if (state != 0u) {
+                let weight = mix(state);
+                var termLow = weight;
+                var termHigh = weight;
+                for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                    termLow *= power(SHAPE_BASES[0][d], coords[d]);
+                    termHigh *= power(SHAPE_BASES[1][d], coords[d]);
+                    origin[d] = max(origin[d], ~coords[d]);
+                }
+                shapeLow += termLow;
+                shapeHigh += termHigh;
+            }
+
+            // Advance coordinates (X fastest)
+            for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                coords[d] += 1u;
+                if (coords[d] < axisSize(d)) {
+                    break;
+                }
+                coords[d] = 0u;
+            }
+        }
+
+        atomicAdd(&groupShapeLow, shapeLow);
+        atomicAdd(&groupShapeHigh, shapeHigh);
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            atomicMax(&groupOrigin[d], origin[d]);
+        }
+    }
+
+    workgroupBarrier();
+
+    if (local_index == 0u) {
+        let low = atomicLoad(&groupLow);
+        let high = atomicLoad(&groupHigh);
+        // Adding zero would only cost an atomic
+        if ((low | high) != 0u) {
+            atomicAdd(&stateHash.low, low);
+            atomicAdd(&stateHash.high, high);
+            atomicAdd(&stateHash.shapeLow, atomicLoad(&groupShapeLow));
+            atomicAdd(&stateHash.shapeHigh, atomicLoad(&groupShapeHigh));
+            for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                atomicMax(&stateHash.invertedOrigin[d], atomicLoad(&groupOrigin[d]));
+            }
+        }
+    }
+}
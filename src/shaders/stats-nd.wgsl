@@ -0,0 +1,153 @@
+// N-dimensional grid statistics reduction
+// Reduces the packed grid to its population, the births and deaths since the
+// previous generation and the per-axis bounding box of the live cells.
+// Only state 1 counts as alive; a cell that starts decaying counts as a death.
+// Each invocation scans one packed word, each workgroup merges its results in
+// workgroup memory and then adds them to `stats` with one set of atomics.
+// GPUSimulation resets `stats` before every pass (see createStatsResetData).
+
+const MAX_DIMENSIONS: u32 = 5u;
+const WORKGROUP_SIZE: u32 = 64u;
+
+override DIMENSIONS: u32 = 3u;
+
+// Leading fields of the compute-nd.wgsl uniforms
+struct Uniforms {
+    gridSize: array<vec4<u32>, 2>,
+    boundaries: array<vec4<u32>, 2>,
+    cellCount: u32,
+    ruleWords: u32,
+    states: u32,
+    neighborCount: u32,
+    bitsPerCell: u32,
+    sourceBits: u32,
+    wordCount: u32,
+}
+
+// population, births, deaths, then the lowest and highest live coordinate per axis
+struct Stats {
+    population: atomic<u32>,
+    births: atomic<u32>,
+    deaths: atomic<u32>,
+    minCoords: array<atomic<u32>, MAX_DIMENSIONS>,
+    maxCoords: array<atomic<u32>, MAX_DIMENSIONS>,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> currentGrid: array<u32>;
+// The previous generation; bound to the current grid when there is none
+@group(0) @binding(2) var<storage, read> previousGrid: array<u32>;
+@group(0) @binding(3) var<storage, read_write> stats: Stats;
+
+var<workgroup> groupPopulation: atomic<u32>;
+var<workgroup> groupBirths: atomic<u32>;
+var<workgroup> groupDeaths: atomic<u32>;
+var<workgroup> groupMin: array<atomic<u32>, MAX_DIMENSIONS>;
+var<workgroup> groupMax: array<atomic<u32>, MAX_DIMENSIONS>;
+
+fn axisSize(axis: u32) -> u32 {
+    return uniforms.gridSize[axis / 4u][axis % 4u];
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE)
+fn main(
+    @builtin(global_invocation_id) global_id: vec3<u32>,
+    @builtin(num_workgroups) num_workgroups: vec3<u32>,
+    @builtin(local_invocation_index) local_index: u32
+) {
+    if (local_index == 0u) {
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            atomicStore(&groupMin[d], 0xffffffffu);
+        }
+    }
+    workgroupBarrier();
+
+    // Large grids are dispatched as a 2D array of workgroups
+    let word = global_id.x + global_id.y * num_workgroups.x * WORKGROUP_SIZE;
+    var current: u32 = 0u;
+    var previous: u32 = 0u;
+    // No early return: every invocation must reach the barrier below
+    if (word < uniforms.wordCount) {
+        current = currentGrid[word];
+        previous = previousGrid[word];
+    }
+
+    // Empty words (the common case for sparse grids) contribute nothing
+    if ((current | previous) != 0u) {
+        let bits = uniforms.bitsPerCell;
+        let cellsPerWord = 32u / bits;
+        let mask = (1u << bits) - 1u;
+
+        var population: u32 = 0u;
+        var births: u32 = 0u;
+        var deaths: u32 = 0u;
+        var lowest: array<u32, MAX_DIMENSIONS>;
+        var highest: array<u32, MAX_DIMENSIONS>;
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            lowest[d] = 0xffffffffu;
+        }
+
+        // Coordinates of the word's first cell, advanced cell by cell below
+        var coords: array<u32, MAX_DIMENSIONS>;
+        var rest = word * cellsPerWord;
+        for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+            coords[d] = rest % axisSize(d);
+            rest = rest / axisSize(d);
+        }
+
+        for (var k: u32 = 0u; k < cellsPerWord; k++) {
+            if (word * cellsPerWord + k >= uniforms.cellCount) {
+                break;
+            }
+
+            let now = (current >> (k * bits)) & mask;
+            let before = (previous >> (k * bits)) & mask;
+            if (now == 1u) {
+                population += 1u;
+                if (before != 1u) {
+                    births += 1u;
+                }
+                for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                    lowest[d] = min(lowest[d], coords[d]);
+                    highest[d] = max(highest[d], coords[d]);
+                }
+            } else if (before == 1u) {
+                deaths += 1u;
+            }
+
+            // Advance coordinates (X fastest)
+            for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                coords[d] += 1u;
+                if (coords[d] < axisSize(d)) {
+                    break;
+                }
+                coords[d] = 0u;
+            }
+        }
+
+        atomicAdd(&groupPopulation, population);
+        atomicAdd(&groupBirths, births);
+        atomicAdd(&groupDeaths, deaths);
+        if (population > 0u) {
+            for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                atomicMin(&groupMin[d], lowest[d]);
+                atomicMax(&groupMax[d], highest[d]);
+            }
+        }
+    }
+
+    workgroupBarrier();
+
+    if (local_index == 0u) {
+        let population = atomicLoad(&groupPopulation);
+        atomicAdd(&stats.population, population);
+        atomicAdd(&stats.births, atomicLoad(&groupBirths));
+        atomicAdd(&stats.deaths, atomicLoad(&groupDeaths));
+        if (population > 0u) {
+            for (var d: u32 = 0u; d < DIMENSIONS; d++) {
+                atomicMin(&stats.minCoords[d], atomicLoad(&groupMin[d]));
+                atomicMax(&stats.maxCoords[d], atomicLoad(&groupMax[d]));
+            }
+        }
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Helpers for the headless checks, which run the CPU reference engine
+ */
+
+import { CPUSimulation } from '../engine/CPUSimulation';
+import { parseRule } from '../engine/rules';
+import { CycleDetector, SettleStatus } from '../utils/cycles';
+import { coordsToIndex, getCellCount } from '../utils/grid';
+import { PackedCells, createPackedCells, setPackedCell } from '../utils/packing';
+
+/** Life's glider, heading (+1, +1) every 4 generations */
+export const GLIDER_2D = [[1, 0], [2, 1], [0, 2], [1, 2], [2, 2]];
+
+/**
+ * A grid holding `cells` at `origin` (centered where omitted), wrapping
+ * around the edges
+ */
+export function createGrid(
+  gridSize: number[],
+  cells: number[][],
+  origin: (number | null)[] = []
+): PackedCells {
+  const grid = createPackedCells(getCellCount(gridSize), 1);
+  const offsets = gridSize.map((size, d) =>
+    origin[d] ?? Math.floor((size - Math.max(1, ...cells.map(cell => cell[d] + 1))) / 2)
+  );
+  for (const cell of cells) {
+    const coords = gridSize.map((size, d) => (((cell[d] + offsets[d]) % size) + size) % size);
+    setPackedCell(grid, coordsToIndex(coords, gridSize), 1);
+  }
+  return grid;
+}
+
+/**
+ * A wrapping CPU engine holding `cells` at `origin` (centered where omitted)
+ */
+export async function createEngine(
+  gridSize: number[],
+  rule: string,
+  cells: number[][],
+  origin: (number | null)[] = []
+): Promise<CPUSimulation> {
+  const engine = new CPUSimulation({ gridSize, rules: parseRule(rule, gridSize.length) });
+  await engine.init(createGrid(gridSize, cells, origin));
+  return engine;
+}
+
+/**
+ * Step an engine one generation at a time, feeding every state hash to a
+ * detector, and return the status after each generation (index 0 being the
+ * starting state)
+ */
+export async function runDetector(engine: CPUSimulation, generations: number): Promise<SettleStatus[]> {
+  const detector = new CycleDetector(engine.getGridSize());
+  engine.setStateHashing(true);
+  const statuses: SettleStatus[] = [];
+  for (let generation = 0; generation <= generations; generation++) {
+    if (generation > 0) engine.step();
+    const { hashes } = await engine.takeStateHashes();
+    for (const hash of hashes) {
+      statuses.push(detector.add(generation, hash));
+    }
+  }
+  return statuses;
+}
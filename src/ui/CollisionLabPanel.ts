@@ -0,0 +1,375 @@
+/**
+ * Collision lab panel: the two patterns with their orientations, the sweep
+ * of offsets and phases, and a sortable catalogue of the results, shown over
+ * the view
+ */
+
+import { Dimension } from '../engine/SimulationEngine';
+import {
+  COLLISION_OUTCOME_LABELS,
+  CollisionOutcome,
+  CollisionResult,
+  MAX_COLLISION_PHASES,
+  formatProducts,
+} from '../engine/collisionLab';
+import { PatternND } from '../patterns';
+import { formatTransform, getOrientations, isRotation } from '../patterns/transforms';
+import { AXIS_NAMES } from '../utils/grid';
+
+/** A library pattern and the index of its orientation in getOrientations */
+export interface CollisionLabPattern {
+  key: string;
+  orientation: number;
+}
+
+export interface CollisionLabRequest {
+  first: CollisionLabPattern;
+  second: CollisionLabPattern;
+  /** Range per axis of the second pattern's lowest corner relative to the first's */
+  offsets: [number, number][];
+  phases: number;
+  generations: number;
+}
+
+export interface CollisionLabPanelConfig {
+  onRun: (request: CollisionLabRequest) => void;
+  onStop: () => void;
+  /** A result row was clicked */
+  onSelect: (result: CollisionResult) => void;
+}
+
+type SortKey = 'index' | 'outcome' | 'reaction' | 'seen' | 'settledAt' | 'finalPopulation';
+
+const COLUMNS: { key: SortKey; label: string; title: string }[] = [
+  { key: 'index', label: 'Offset', title: 'Sweep order: offset of the second pattern, then its phase' },
+  { key: 'outcome', label: 'Outcome', title: 'How the collision ended' },
+  { key: 'reaction', label: 'Products', title: 'Objects left, grouped by reaction' },
+  { key: 'seen', label: 'Seen', title: 'Collisions in the sweep leaving the same products' },
+  { key: 'settledAt', label: 'Settled', title: 'Generation the run became static or periodic' },
+  { key: 'finalPopulation', label: 'Final', title: 'Live cells at the end' },
+];
+
+const OUTCOME_ORDER: CollisionOutcome[] = ['annihilation', 'stable', 'emits', 'active', 'noReaction'];
+
+/** Offset range suggested on the first two axes; the others start at 0 */
+const DEFAULT_OFFSET_RANGE: [number, number] = [-3, 3];
+
+interface ResultRow {
+  index: number;
+  result: CollisionResult;
+}
+
+export class CollisionLabPanel {
+  private container: HTMLElement;
+  private config: CollisionLabPanelConfig;
+  private rows: ResultRow[] = [];
+  /** Collisions per reaction so far */
+  private reactionCounts = new Map<string, number>();
+  private sortKey: SortKey = 'index';
+  private sortDescending = false;
+  private selected: number | null = null;
+  private dimension: Dimension | null = null;
+  private renderScheduled = false;
+
+  private firstSelect!: HTMLSelectElement;
+  private firstOrientationSelect!: HTMLSelectElement;
+  private secondSelect!: HTMLSelectElement;
+  private secondOrientationSelect!: HTMLSelectElement;
+  private offsetControls!: HTMLDivElement;
+  private phasesInput!: HTMLInputElement;
+  private generationsInput!: HTMLInputElement;
+  private runButton!: HTMLButtonElement;
+  private stopButton!: HTMLButtonElement;
+  private statusDisplay!: HTMLDivElement;
+  private tableHead!: HTMLTableSectionElement;
+  private tableBody!: HTMLTableSectionElement;
+
+  constructor(containerId: string, config: CollisionLabPanelConfig) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container ${containerId} not found`);
+    }
+    this.container = container;
+    this.config = config;
+    this.createUI();
+  }
+
+  private createUI(): void {
+    this.container.innerHTML = `
+      <div class="overlay-header">
+        <h3>Collision Lab</h3>
+        <button id="collisionCloseBtn" class="btn" title="Close" style="flex: 0; min-width: 0;">✕</button>
+      </div>
+      <div class="overlay-settings">
+        <div class="input-group">
+          <label for="collisionFirst">First:</label>
+          <select id="collisionFirst"></select>
+          <select id="collisionFirstOrientation" title="Orientation: pattern axis each grid axis reads"></select>
+        </div>
+        <div class="input-group">
+          <label for="collisionSecond">Second:</label>
+          <select id="collisionSecond"></select>
+          <select id="collisionSecondOrientation" title="Orientation: pattern axis each grid axis reads"></select>
+        </div>
+        <div id="collisionOffsets"></div>
+        <div class="input-group">
+          <label for="collisionPhases">Phases:</label>
+          <input type="number" id="collisionPhases" value="4" min="1" max="${MAX_COLLISION_PHASES}" step="1" class="rule-input"
+            title="Generations the second pattern is advanced by, up to its period">
+        </div>
+        <div class="input-group">
+          <label for="collisionGenerations">Generations:</label>
+          <input type="number" id="collisionGenerations" value="256" min="1" max="100000" step="1" class="rule-input"
+            title="Longest run of a collision">
+        </div>
+      </div>
+      <div class="button-group">
+        <button id="collisionRunBtn" class="btn btn-primary">💥 Collide</button>
+        <button id="collisionStopBtn" class="btn btn-danger" disabled>⏹ Stop</button>
+      </div>
+      <div id="collisionStatus" class="overlay-status">
+        Collides under the current rule; click a result to load it.
+      </div>
+      <table class="overlay-table">
+        <thead id="collisionHead"></thead>
+        <tbody id="collisionBody"></tbody>
+      </table>
+    `;
+
+    this.firstSelect = this.getElement('collisionFirst') as HTMLSelectElement;
+    this.firstOrientationSelect = this.getElement('collisionFirstOrientation') as HTMLSelectElement;
+    this.secondSelect = this.getElement('collisionSecond') as HTMLSelectElement;
+    this.secondOrientationSelect = this.getElement('collisionSecondOrientation') as HTMLSelectElement;
+    this.offsetControls = this.getElement('collisionOffsets') as HTMLDivElement;
+    this.phasesInput = this.getElement('collisionPhases') as HTMLInputElement;
+    this.generationsInput = this.getElement('collisionGenerations') as HTMLInputElement;
+    this.runButton = this.getElement('collisionRunBtn') as HTMLButtonElement;
+    this.stopButton = this.getElement('collisionStopBtn') as HTMLButtonElement;
+    this.statusDisplay = this.getElement('collisionStatus') as HTMLDivElement;
+    this.tableHead = this.getElement('collisionHead') as HTMLTableSectionElement;
+    this.tableBody = this.getElement('collisionBody') as HTMLTableSectionElement;
+
+    this.attachEventListeners();
+    this.renderHead();
+  }
+
+  private getElement(id: string): HTMLElement {
+    const element = document.getElementById(id);
+    if (!element) {
+      throw new Error(`Element ${id} not found`);
+    }
+    return element;
+  }
+
+  private attachEventListeners(): void {
+    this.getElement('collisionCloseBtn').addEventListener('click', () => this.close());
+
+    this.runButton.addEventListener('click', () => {
+      if (this.dimension === null || !this.firstSelect.value || !this.secondSelect.value) {
+        this.setStatus('Pick two patterns to collide');
+        return;
+      }
+      const isWhole = (input: HTMLInputElement) => {
+        const valid = input.value !== '' && Number.isInteger(Number(input.value));
+        input.classList.toggle('invalid', !valid);
+        return valid;
+      };
+      const inRange = (input: HTMLInputElement) => {
+        const valid = isWhole(input) && Number(input.value) >= Number(input.min) && Number(input.value) <= Number(input.max);
+        input.classList.toggle('invalid', !valid);
+        return valid;
+      };
+
+      const offsetInputs = Array.from({ length: this.dimension }, (_, axis) => [
+        this.getElement(`collisionOffsetFrom${axis}`) as HTMLInputElement,
+        this.getElement(`collisionOffsetTo${axis}`) as HTMLInputElement,
+      ]);
+      const valid = [
+        ...offsetInputs.flat().map(isWhole),
+        inRange(this.phasesInput),
+        inRange(this.generationsInput),
+      ];
+      if (valid.includes(false)) return;
+
+      this.config.onRun({
+        first: { key: this.firstSelect.value, orientation: Number(this.firstOrientationSelect.value) },
+        second: { key: this.secondSelect.value, orientation: Number(this.secondOrientationSelect.value) },
+        offsets: offsetInputs.map(([from, to]) => [Number(from.value), Number(to.value)]),
+        phases: Number(this.phasesInput.value),
+        generations: Number(this.generationsInput.value),
+      });
+    });
+
+    this.stopButton.addEventListener('click', () => {
+      this.config.onStop();
+    });
+
+    // Header clicks sort; clicking the sorted column again reverses it
+    this.tableHead.addEventListener('click', (e) => {
+      const key = (e.target as HTMLElement).closest('th')?.dataset.key as SortKey | undefined;
+      if (!key) return;
+      this.sortDescending = key === this.sortKey ? !this.sortDescending : false;
+      this.sortKey = key;
+      this.renderHead();
+      this.renderBody();
+    });
+
+    this.tableBody.addEventListener('click', (e) => {
+      const row = (e.target as HTMLElement).closest('tr');
+      if (!row?.dataset.index) return;
+      const index = parseInt(row.dataset.index);
+      const match = this.rows.find(entry => entry.index === index);
+      if (match) {
+        this.selected = index;
+        this.renderBody();
+        this.config.onSelect(match.result);
+      }
+    });
+  }
+
+  open(): void {
+    this.container.style.display = 'flex';
+  }
+
+  close(): void {
+    this.container.style.display = 'none';
+  }
+
+  /**
+   * List the patterns of a dimension, keeping the chosen ones where they are
+   * still listed; the orientations and offset axes follow the dimension
+   */
+  setLibrary(dimension: Dimension, library: Record<string, PatternND>): void {
+    const options = Object.entries(library).map(([key, pattern]) => `
+      <option value="${key}">${pattern.name}</option>`).join('');
+    for (const select of [this.firstSelect, this.secondSelect]) {
+      const chosen = select.value;
+      select.innerHTML = options;
+      if (chosen in library) {
+        select.value = chosen;
+      }
+    }
+    if (dimension === this.dimension) return;
+    this.dimension = dimension;
+
+    const orientations = getOrientations(dimension).map((transform, i) => `
+      <option value="${i}">${formatTransform(transform)}${isRotation(transform) ? '' : ' mirrored'}</option>`).join('');
+    this.firstOrientationSelect.innerHTML = orientations;
+    this.secondOrientationSelect.innerHTML = orientations;
+
+    this.offsetControls.innerHTML = Array.from({ length: dimension }, (_, axis) => {
+      const [from, to] = axis < 2 ? DEFAULT_OFFSET_RANGE : [0, 0];
+      return `
+      <div class="input-group">
+        <label for="collisionOffsetFrom${axis}">${AXIS_NAMES[axis]} offset:</label>
+        <input type="number" id="collisionOffsetFrom${axis}" value="${from}" step="1" class="rule-input">
+        <span>to</span>
+        <input type="number" id="collisionOffsetTo${axis}" value="${to}" step="1" class="rule-input">
+      </div>`;
+    }).join('');
+  }
+
+  setRunning(running: boolean): void {
+    this.runButton.disabled = running;
+    this.stopButton.disabled = !running;
+  }
+
+  setStatus(text: string): void {
+    this.statusDisplay.textContent = text;
+  }
+
+  /**
+   * Distinct reactions among the results shown
+   */
+  getReactionCount(): number {
+    return this.reactionCounts.size;
+  }
+
+  clearResults(): void {
+    this.rows = [];
+    this.reactionCounts.clear();
+    this.selected = null;
+    this.renderBody();
+  }
+
+  /**
+   * Add the result of the collision at `index` in the sweep
+   */
+  addResult(result: CollisionResult, index: number): void {
+    this.rows.push({ index, result });
+    this.reactionCounts.set(result.reaction, (this.reactionCounts.get(result.reaction) ?? 0) + 1);
+    // Results can come in faster than the table is worth redrawing
+    if (!this.renderScheduled) {
+      this.renderScheduled = true;
+      requestAnimationFrame(() => {
+        this.renderScheduled = false;
+        this.renderBody();
+      });
+    }
+  }
+
+  private renderHead(): void {
+    this.tableHead.innerHTML = `
+      <tr>
+        <th data-key="${COLUMNS[0].key}" title="${COLUMNS[0].title}">${COLUMNS[0].label}${this.sortMark(COLUMNS[0].key)}</th>
+        <th title="Generations the second pattern was advanced by">Phase</th>
+        ${COLUMNS.slice(1).map(({ key, label, title }) => `
+        <th data-key="${key}" title="${title}">${label}${this.sortMark(key)}</th>`).join('')}
+      </tr>
+    `;
+  }
+
+  private sortMark(key: SortKey): string {
+    return key === this.sortKey ? (this.sortDescending ? ' ▼' : ' ▲') : '';
+  }
+
+  private renderBody(): void {
+    const sorted = [...this.rows].sort((a, b) => {
+      const order = this.compare(a, b);
+      return this.sortDescending ? -order : order;
+    });
+
+    this.tableBody.innerHTML = sorted.map(({ index, result }) => `
+      <tr data-index="${index}"${index === this.selected ? ' class="selected"' : ''} title="Load this collision">
+        <td class="rule-cell">(${result.offset.join(', ')})</td>
+        <td>${result.phase}</td>
+        <td class="outcome-${result.outcome}">${COLLISION_OUTCOME_LABELS[result.outcome]}</td>
+        <td>${formatProducts(result.products)}</td>
+        <td>${this.reactionCounts.get(result.reaction) ?? 0}</td>
+        <td>${result.settledAt ?? '-'}</td>
+        <td>${result.finalPopulation.toLocaleString()}</td>
+      </tr>`).join('');
+  }
+
+  /**
+   * Order by the sort column, runs without a value last, then by sweep order
+   */
+  private compare(a: ResultRow, b: ResultRow): number {
+    if (this.sortKey === 'reaction' && a.result.reaction !== b.result.reaction) {
+      return a.result.reaction < b.result.reaction ? -1 : 1;
+    }
+
+    const value = (row: ResultRow): number | null => {
+      switch (this.sortKey) {
+        case 'index':
+        case 'reaction':
+          return row.index;
+        case 'outcome':
+          return OUTCOME_ORDER.indexOf(row.result.outcome);
+        case 'seen':
+          return this.reactionCounts.get(row.result.reaction) ?? 0;
+        default:
+          return row.result[this.sortKey];
+      }
+    };
+
+    const first = value(a);
+    const second = value(b);
+    if (first !== second) {
+      if (first === null) return 1;
+      if (second === null) return -1;
+      return first - second;
+    }
+    return a.index - b.index;
+  }
+}
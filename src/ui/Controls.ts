@@ -2,23 +2,113 @@
  * UI Controls for the Game of Life application
  */
 
-import { RenderMode } from '../renderer/VoxelRenderer';
+import { ColorScheme, RenderMode } from '../renderer/VoxelRenderer';
+import { COLOR_GRADIENTS, DEFAULT_GRADIENT, GradientName } from '../renderer/gradients';
+import {
+  ActivityWindow,
+  Dimension,
+  SUPPORTED_DIMENSIONS,
+  SimulationRules,
+  SimulationStats,
+  getMaxNeighbors,
+} from '../engine/SimulationEngine';
+import { RULE_PRESETS, formatRule, parseRule } from '../engine/rules';
+import {
+  MAX_RADIUS,
+  MOORE_NEIGHBORHOOD,
+  Neighborhood,
+  NeighborhoodType,
+  cloneNeighborhood,
+  formatOffsetMask,
+  parseOffsetMask,
+} from '../engine/neighborhoods';
+import { AxisBoundary, BOUNDARY_MODES, BoundaryMode } from '../engine/boundaries';
+import { DEFAULT_HISTORY_BUDGET } from '../engine/history';
+import { AXIS_NAMES } from '../utils/grid';
+import { MAX_SEED, isValidSeed, randomSeed } from '../utils/random';
+import { SettleStatus, formatSettleStatus } from '../utils/cycles';
+import { Connectivity, TrackedObject, getConnectivityOffsets } from '../utils/components';
+import type { UserPattern } from '../patterns/collection';
+import { PatternVerdict, describeVerdict, formatVerdict } from '../engine/patternVerifier';
+import {
+  PatternPlacement,
+  clonePlacement,
+  composeTransforms,
+  defaultPlacement,
+  formatTransform,
+  isIdentityTransform,
+  isRotation,
+  mirror,
+  quarterTurn,
+} from '../patterns/transforms';
+import {
+  SOUP_PATTERN_PREFIX,
+  SOUP_SYMMETRIES,
+  SoupParams,
+  SoupSymmetry,
+  getSoupSymmetries,
+} from '../utils/soup';
 
 export interface ControlsConfig {
   onPlay: () => void;
   onPause: () => void;
   onReset: () => void;
   onStep: () => void;
+  /** Go back one recorded generation */
+  onStepBack: () => void;
+  /** Show the recorded generation at a history position (0 = oldest) */
+  onRewind: (position: number) => void;
+  /** Called with the rewind history budget in megabytes */
+  onHistoryBudgetChange: (megabytes: number) => void;
+  /** Pause once the run is extinct, a still life or an oscillator */
+  onAutoPauseChange: (enabled: boolean) => void;
+  /** Label connected objects and list them */
+  onObjectTrackingChange: (enabled: boolean) => void;
+  onConnectivityChange: (connectivity: Connectivity) => void;
   onSpeedChange: (speed: number) => void;
-  onDimensionChange: (dimension: '3D' | '4D') => void;
+  /** Turbo mode ignores the speed and steps as fast as the frame budget allows */
+  onTurboChange: (enabled: boolean) => void;
+  onDimensionChange: (dimension: Dimension) => void;
   onPatternChange: (pattern: string) => void;
+  /** Check how every listed pattern behaves under the current rule */
+  onVerifyPatterns: () => void;
+  /** Called with the orientation and position patterns are loaded with */
+  onPlacementChange: (placement: PatternPlacement) => void;
+  /** Edit mode: Shift+click in the view toggles cells */
+  onEditModeChange: (enabled: boolean) => void;
+  /** Called with the Z layer of the cursor plane */
+  onEditLayerChange: (layer: number) => void;
+  /** Kill every cell, to draw on an empty grid */
+  onClearCells: () => void;
   onRenderModeChange: (mode: RenderMode) => void;
-  onRulesChange: (surviveMin: number, surviveMax: number, birthMin: number, birthMax: number) => void;
-  onWSliceChange?: (w: number) => void;
+  /** Called with the scheme and the gradient used by the 'age' and 'heatmap' schemes */
+  onColorSchemeChange: (scheme: ColorScheme, gradient: GradientName) => void;
+  /** Called with the generations the heatmap accumulates over */
+  onActivityWindowChange: (window: ActivityWindow) => void;
+  onRulesChange: (rules: SimulationRules) => void;
+  /** Open the rule explorer */
+  onOpenExplorer: () => void;
+  /** Open the pattern search */
+  onOpenSearch: () => void;
+  /** Open the collision lab */
+  onOpenCollisions: () => void;
+  /** Called with the index of the extra axis (0 = W, 1 = V) and its new coordinate */
+  onSliceChange?: (axis: number, value: number) => void;
+  /** Called with the new edge length, applied to every axis */
+  onGridSizeChange: (size: number) => void;
+  onBoundaryChange: (boundaries: AxisBoundary[]) => void;
+  /** Called with new soup parameters; the app rolls the soup right away */
+  onSoupChange: (soup: SoupParams) => void;
   onExport: () => void;
   onImport: (file: File) => void;
 }
 
+/** What 3D connectivities join cells by */
+const CONNECTIVITY_NAMES_3D = ['faces', 'faces, edges', 'faces, edges, corners'];
+
+/** Objects listed in the Objects section, largest first */
+const MAX_LISTED_OBJECTS = 10;
+
 export class Controls {
   private container: HTMLElement;
   private config: ControlsConfig;
@@ -29,23 +119,62 @@ export class Controls {
   private pauseButton!: HTMLButtonElement;
   private resetButton!: HTMLButtonElement;
   private stepButton!: HTMLButtonElement;
+  private stepBackButton!: HTMLButtonElement;
+  private historySlider!: HTMLInputElement;
+  private historyValue!: HTMLSpanElement;
+  private historyBudgetInput!: HTMLInputElement;
   private speedSlider!: HTMLInputElement;
   private speedValue!: HTMLSpanElement;
+  private turboToggle!: HTMLInputElement;
+  private autoPauseToggle!: HTMLInputElement;
   private dimensionSelect!: HTMLSelectElement;
   private patternSelect!: HTMLSelectElement;
+  /** Verdicts shown in the pattern list, by pattern key */
+  private patternVerdicts: Record<string, PatternVerdict> = {};
   private renderModeSelect!: HTMLSelectElement;
+  private colorSchemeSelect!: HTMLSelectElement;
+  private gradientSelect!: HTMLSelectElement;
+  private activityWindowSelect!: HTMLSelectElement;
   private fpsDisplay!: HTMLSpanElement;
   private cellCountDisplay!: HTMLSpanElement;
   private generationDisplay!: HTMLSpanElement;
-  private wSlider?: HTMLInputElement;
-  private wValue?: HTMLSpanElement;
-  private wControls?: HTMLDivElement;
+  private birthsDisplay!: HTMLSpanElement;
+  private deathsDisplay!: HTMLSpanElement;
+  private boundsDisplay!: HTMLSpanElement;
+  private settleDisplay!: HTMLSpanElement;
+  private objectsToggle!: HTMLInputElement;
+  private connectivitySelect!: HTMLSelectElement;
+  private objectCountDisplay!: HTMLSpanElement;
+  private objectList!: HTMLDivElement;
+  private sliceControls!: HTMLDivElement;
+  private editToggle!: HTMLInputElement;
+  private editLayerGroup!: HTMLDivElement;
+  private editLayerSlider!: HTMLInputElement;
+  private editLayerValue!: HTMLSpanElement;
+  private gridSizeInput!: HTMLInputElement;
+  private boundaryControls!: HTMLDivElement;
+
+  // Random soup
+  private soupSeedInput!: HTMLInputElement;
+  private soupDensityInput!: HTMLInputElement;
+  private soupRegionInput!: HTMLInputElement;
+  private soupSymmetrySelect!: HTMLSelectElement;
+
+  // Pattern placement
+  private placement: PatternPlacement = defaultPlacement(3);
+  private orientationDisplay!: HTMLSpanElement;
+  private placementButtons!: HTMLDivElement;
+  private placementOrigin!: HTMLDivElement;
 
-  // Rule editors
-  private surviveMinInput!: HTMLInputElement;
-  private surviveMaxInput!: HTMLInputElement;
-  private birthMinInput!: HTMLInputElement;
-  private birthMaxInput!: HTMLInputElement;
+  // Rule editor
+  private ruleInput!: HTMLInputElement;
+  private rulePresetSelect!: HTMLSelectElement;
+  private ruleError!: HTMLDivElement;
+  private neighborhoodSelect!: HTMLSelectElement;
+  private radiusInput!: HTMLInputElement;
+  private maskInput!: HTMLTextAreaElement;
+  private dimension: Dimension = 3;
+  private neighborhood: Neighborhood = cloneNeighborhood(MOORE_NEIGHBORHOOD);
 
   constructor(containerId: string, config: ControlsConfig) {
     const element = document.getElementById(containerId);
@@ -65,12 +194,32 @@ export class Controls {
           <div class="button-group">
             <button id="playBtn" class="btn btn-primary">▶ Play</button>
             <button id="pauseBtn" class="btn btn-secondary" style="display:none;">⏸ Pause</button>
+            <button id="stepBackBtn" class="btn" disabled>⏮ Back</button>
             <button id="stepBtn" class="btn">⏭ Step</button>
             <button id="resetBtn" class="btn btn-danger">🔄 Reset</button>
           </div>
           <div class="slider-group">
             <label for="speedSlider">Speed: <span id="speedValue">5</span> steps/s</label>
-            <input type="range" id="speedSlider" min="1" max="60" value="5" step="1">
+            <input type="range" id="speedSlider" min="1" max="240" value="5" step="1">
+          </div>
+          <div class="checkbox-group">
+            <label for="turboToggle">
+              <input type="checkbox" id="turboToggle"> Turbo (as fast as possible)
+            </label>
+          </div>
+          <div class="checkbox-group">
+            <label for="autoPauseToggle">
+              <input type="checkbox" id="autoPauseToggle"> Pause when settled
+            </label>
+          </div>
+          <div class="slider-group">
+            <label for="historySlider">Rewind: <span id="historyValue">latest</span></label>
+            <input type="range" id="historySlider" min="0" max="0" value="0" step="1">
+          </div>
+          <div class="input-group">
+            <label for="historyBudgetInput">History MB:</label>
+            <input type="number" id="historyBudgetInput" value="${DEFAULT_HISTORY_BUDGET / (1024 * 1024)}" min="0" max="4096" step="1" class="rule-input"
+              title="Memory kept for past generations; 0 turns rewinding off">
           </div>
         </div>
 
@@ -79,14 +228,14 @@ export class Controls {
           <div class="select-group">
             <label for="dimensionSelect">Dimension:</label>
             <select id="dimensionSelect">
-              <option value="3D" selected>3D</option>
-              <option value="4D">4D</option>
+              ${SUPPORTED_DIMENSIONS.map(d => `
+              <option value="${d}"${d === 3 ? ' selected' : ''}>${d}D</option>`).join('')}
             </select>
           </div>
           <div class="select-group">
             <label for="patternSelect">Pattern:</label>
             <select id="patternSelect">
-              <option value="random">Random</option>
+              ${this.soupPatternOptions(3)}
               <optgroup label="Still Lifes">
                 <option value="block">Block</option>
                 <option value="biBlock">Bi-Block</option>
@@ -132,6 +281,13 @@ export class Controls {
               </optgroup>
             </select>
           </div>
+          <div class="button-group">
+            <button id="verifyPatternsBtn" class="btn" title="Run every listed pattern and mark those not doing what they are described as doing">✔ Verify patterns</button>
+          </div>
+          <div class="input-group">
+            <label for="gridSizeInput">Grid size:</label>
+            <input type="number" id="gridSizeInput" value="40" min="4" max="256" step="1" class="rule-input">
+          </div>
           <div class="select-group">
             <label for="renderModeSelect">Render Mode:</label>
             <select id="renderModeSelect">
@@ -140,26 +296,119 @@ export class Controls {
               <option value="points">Points</option>
             </select>
           </div>
-          <div id="wControls" style="display:none;" class="slider-group">
-            <label for="wSlider">W Slice: <span id="wValue">0</span></label>
-            <input type="range" id="wSlider" min="0" max="31" value="0" step="1">
+          <div class="select-group">
+            <label for="colorSchemeSelect">Color Scheme:</label>
+            <select id="colorSchemeSelect">
+              <option value="default" selected>Position</option>
+              <option value="age">Cell age</option>
+              <option value="heatmap">Heatmap (activity)</option>
+              <option value="objects">Objects (connected cells)</option>
+            </select>
+          </div>
+          <div class="select-group" id="gradientGroup" style="display:none;">
+            <label for="gradientSelect">Gradient (young/active → old/quiet):</label>
+            <select id="gradientSelect">
+              ${Object.entries(COLOR_GRADIENTS).map(([name, gradient]) => `
+              <option value="${name}"${name === DEFAULT_GRADIENT ? ' selected' : ''}>${gradient.label}</option>`).join('')}
+            </select>
+          </div>
+          <div class="select-group" id="activityWindowGroup" style="display:none;">
+            <label for="activityWindowSelect">Activity window:</label>
+            <select id="activityWindowSelect">
+              <option value="cumulative" selected>Cumulative</option>
+              <option value="16">Last ~16 generations</option>
+              <option value="64">Last ~64 generations</option>
+              <option value="256">Last ~256 generations</option>
+            </select>
+          </div>
+          <div id="sliceControls"></div>
+          <div id="boundaryControls"></div>
+        </div>
+
+        <div class="control-section">
+          <h3>Random Soup</h3>
+          <div class="input-group">
+            <label for="soupSeedInput">Seed:</label>
+            <input type="number" id="soupSeedInput" min="0" max="${MAX_SEED}" step="1" class="rule-input rule-string">
+            <button id="newSeedBtn" class="btn" title="Roll a new seed" style="flex: 0; min-width: 0;">🎲</button>
+          </div>
+          <div class="input-group">
+            <label for="soupDensityInput">Density %:</label>
+            <input type="number" id="soupDensityInput" min="0" max="100" step="0.5" class="rule-input">
+          </div>
+          <div class="input-group">
+            <label for="soupRegionInput">Region %:</label>
+            <input type="number" id="soupRegionInput" min="1" max="100" step="1" class="rule-input"
+              title="Share of every axis the soup fills, centered">
+          </div>
+          <div class="select-group">
+            <label for="soupSymmetrySelect">Symmetry:</label>
+            <select id="soupSymmetrySelect"></select>
+          </div>
+        </div>
+
+        <div class="control-section">
+          <h3>Pattern Placement</h3>
+          <div class="input-group">
+            <label>Orientation:</label>
+            <span id="orientationDisplay" class="rule-string"
+              title="Pattern axis each grid axis reads; − reads it backwards"></span>
+          </div>
+          <div id="placementButtons"></div>
+          <div id="placementOrigin"></div>
+          <div class="button-group">
+            <button id="placementResetBtn" class="btn" title="Original orientation, centered">Reset</button>
+            <button id="placePatternBtn" class="btn btn-primary" title="Load the selected pattern again">Place pattern</button>
+          </div>
+        </div>
+
+        <div class="control-section">
+          <h3>Edit Cells</h3>
+          <div class="checkbox-group">
+            <label for="editToggle">
+              <input type="checkbox" id="editToggle"> Edit mode (Shift+click toggles a cell)
+            </label>
+          </div>
+          <div class="slider-group" id="editLayerGroup">
+            <label for="editLayerSlider">Cursor plane Z: <span id="editLayerValue">0</span></label>
+            <input type="range" id="editLayerSlider" min="0" max="0" value="0" step="1"
+              title="Layer where clicks that miss every cell add one">
+          </div>
+          <div class="button-group">
+            <button id="clearCellsBtn" class="btn btn-danger" title="Kill every cell, to draw on an empty grid">🧹 Clear</button>
           </div>
         </div>
 
         <div class="control-section">
           <h3>Rules</h3>
           <div class="rule-inputs">
+            <div class="select-group">
+              <label for="rulePresetSelect">Preset:</label>
+              <select id="rulePresetSelect"></select>
+            </div>
             <div class="input-group">
-              <label for="surviveMin">Survive:</label>
-              <input type="number" id="surviveMin" min="0" max="26" value="5" class="rule-input">
-              <span>to</span>
-              <input type="number" id="surviveMax" min="0" max="26" value="7" class="rule-input">
+              <label for="ruleInput">Rule:</label>
+              <input type="text" id="ruleInput" value="B6/S5-7" class="rule-input rule-string" spellcheck="false">
+            </div>
+            <div class="select-group">
+              <label for="neighborhoodSelect">Neighborhood:</label>
+              <select id="neighborhoodSelect">
+                <option value="moore" selected>Moore</option>
+                <option value="vonNeumann">von Neumann</option>
+                <option value="custom">Custom offsets</option>
+              </select>
             </div>
             <div class="input-group">
-              <label for="birthMin">Birth:</label>
-              <input type="number" id="birthMin" min="0" max="26" value="6" class="rule-input">
-              <span>to</span>
-              <input type="number" id="birthMax" min="0" max="26" value="6" class="rule-input">
+              <label for="radiusInput">Radius:</label>
+              <input type="number" id="radiusInput" value="1" min="1" max="${MAX_RADIUS}" class="rule-input">
+            </div>
+            <textarea id="maskInput" rows="3" class="rule-input rule-mask" spellcheck="false"
+              placeholder="1,0,0; -1,0,0; 0,1,0" style="display:none;"></textarea>
+            <div id="ruleError" class="rule-error"></div>
+            <div class="button-group">
+              <button id="explorerBtn" class="btn" title="Sweep birth/survival ranges and classify the outcomes">🔭 Explore rules</button>
+              <button id="searchBtn" class="btn" title="Evolve oscillators and spaceships under the current rule">🧬 Search patterns</button>
+              <button id="collisionBtn" class="btn" title="Collide two patterns over a range of offsets and phases">💥 Collide patterns</button>
             </div>
           </div>
         </div>
@@ -179,7 +428,39 @@ export class Controls {
               <span class="stat-label">Generation:</span>
               <span id="generationDisplay" class="stat-value">0</span>
             </div>
+            <div class="stat-item">
+              <span class="stat-label">Births / Deaths:</span>
+              <span class="stat-value"><span id="birthsDisplay">0</span> / <span id="deathsDisplay">0</span></span>
+            </div>
+            <div class="stat-item">
+              <span class="stat-label">Bounding box:</span>
+              <span id="boundsDisplay" class="stat-value">-</span>
+            </div>
+            <div class="stat-item">
+              <span class="stat-label">Status:</span>
+              <span id="settleDisplay" class="stat-value">running</span>
+            </div>
+          </div>
+        </div>
+
+        <div class="control-section">
+          <h3>Objects</h3>
+          <div class="checkbox-group">
+            <label for="objectsToggle">
+              <input type="checkbox" id="objectsToggle"> Track objects
+            </label>
+          </div>
+          <div class="select-group">
+            <label for="connectivitySelect">Connectivity:</label>
+            <select id="connectivitySelect"></select>
+          </div>
+          <div class="stats">
+            <div class="stat-item">
+              <span class="stat-label">Objects:</span>
+              <span id="objectCountDisplay" class="stat-value">-</span>
+            </div>
           </div>
+          <div id="objectList" class="object-list"></div>
         </div>
 
         <div class="control-section">
@@ -197,6 +478,7 @@ export class Controls {
             <li><strong>Mouse:</strong> Drag to rotate camera</li>
             <li><strong>Wheel:</strong> Zoom in/out</li>
             <li><strong>Touch:</strong> Drag to rotate</li>
+            <li><strong>Shift+click:</strong> Toggle a cell in edit mode</li>
           </ul>
         </div>
       </div>
@@ -207,22 +489,54 @@ export class Controls {
     this.pauseButton = this.getElement('pauseBtn') as HTMLButtonElement;
     this.resetButton = this.getElement('resetBtn') as HTMLButtonElement;
     this.stepButton = this.getElement('stepBtn') as HTMLButtonElement;
+    this.stepBackButton = this.getElement('stepBackBtn') as HTMLButtonElement;
+    this.historySlider = this.getElement('historySlider') as HTMLInputElement;
+    this.historyValue = this.getElement('historyValue') as HTMLSpanElement;
+    this.historyBudgetInput = this.getElement('historyBudgetInput') as HTMLInputElement;
     this.speedSlider = this.getElement('speedSlider') as HTMLInputElement;
     this.speedValue = this.getElement('speedValue') as HTMLSpanElement;
+    this.turboToggle = this.getElement('turboToggle') as HTMLInputElement;
+    this.autoPauseToggle = this.getElement('autoPauseToggle') as HTMLInputElement;
     this.dimensionSelect = this.getElement('dimensionSelect') as HTMLSelectElement;
     this.patternSelect = this.getElement('patternSelect') as HTMLSelectElement;
     this.renderModeSelect = this.getElement('renderModeSelect') as HTMLSelectElement;
+    this.colorSchemeSelect = this.getElement('colorSchemeSelect') as HTMLSelectElement;
+    this.gradientSelect = this.getElement('gradientSelect') as HTMLSelectElement;
+    this.activityWindowSelect = this.getElement('activityWindowSelect') as HTMLSelectElement;
     this.fpsDisplay = this.getElement('fpsDisplay') as HTMLSpanElement;
     this.cellCountDisplay = this.getElement('cellCountDisplay') as HTMLSpanElement;
     this.generationDisplay = this.getElement('generationDisplay') as HTMLSpanElement;
-    this.wControls = this.getElement('wControls') as HTMLDivElement;
-    this.wSlider = this.getElement('wSlider') as HTMLInputElement;
-    this.wValue = this.getElement('wValue') as HTMLSpanElement;
+    this.birthsDisplay = this.getElement('birthsDisplay') as HTMLSpanElement;
+    this.deathsDisplay = this.getElement('deathsDisplay') as HTMLSpanElement;
+    this.boundsDisplay = this.getElement('boundsDisplay') as HTMLSpanElement;
+    this.settleDisplay = this.getElement('settleDisplay') as HTMLSpanElement;
+    this.objectsToggle = this.getElement('objectsToggle') as HTMLInputElement;
+    this.connectivitySelect = this.getElement('connectivitySelect') as HTMLSelectElement;
+    this.objectCountDisplay = this.getElement('objectCountDisplay') as HTMLSpanElement;
+    this.objectList = this.getElement('objectList') as HTMLDivElement;
+    this.sliceControls = this.getElement('sliceControls') as HTMLDivElement;
+    this.editToggle = this.getElement('editToggle') as HTMLInputElement;
+    this.editLayerGroup = this.getElement('editLayerGroup') as HTMLDivElement;
+    this.editLayerSlider = this.getElement('editLayerSlider') as HTMLInputElement;
+    this.editLayerValue = this.getElement('editLayerValue') as HTMLSpanElement;
+    this.gridSizeInput = this.getElement('gridSizeInput') as HTMLInputElement;
+    this.boundaryControls = this.getElement('boundaryControls') as HTMLDivElement;
+
+    this.soupSeedInput = this.getElement('soupSeedInput') as HTMLInputElement;
+    this.soupDensityInput = this.getElement('soupDensityInput') as HTMLInputElement;
+    this.soupRegionInput = this.getElement('soupRegionInput') as HTMLInputElement;
+    this.soupSymmetrySelect = this.getElement('soupSymmetrySelect') as HTMLSelectElement;
 
-    this.surviveMinInput = this.getElement('surviveMin') as HTMLInputElement;
-    this.surviveMaxInput = this.getElement('surviveMax') as HTMLInputElement;
-    this.birthMinInput = this.getElement('birthMin') as HTMLInputElement;
-    this.birthMaxInput = this.getElement('birthMax') as HTMLInputElement;
+    this.orientationDisplay = this.getElement('orientationDisplay') as HTMLSpanElement;
+    this.placementButtons = this.getElement('placementButtons') as HTMLDivElement;
+    this.placementOrigin = this.getElement('placementOrigin') as HTMLDivElement;
+
+    this.ruleInput = this.getElement('ruleInput') as HTMLInputElement;
+    this.rulePresetSelect = this.getElement('rulePresetSelect') as HTMLSelectElement;
+    this.ruleError = this.getElement('ruleError') as HTMLDivElement;
+    this.neighborhoodSelect = this.getElement('neighborhoodSelect') as HTMLSelectElement;
+    this.radiusInput = this.getElement('radiusInput') as HTMLInputElement;
+    this.maskInput = this.getElement('maskInput') as HTMLTextAreaElement;
 
     this.attachEventListeners();
   }
@@ -259,6 +573,26 @@ export class Controls {
       this.config.onStep();
     });
 
+    // History
+    this.stepBackButton.addEventListener('click', () => {
+      this.pause();
+      this.config.onStepBack();
+    });
+
+    this.historySlider.addEventListener('input', () => {
+      this.pause();
+      this.config.onRewind(parseInt(this.historySlider.value));
+    });
+
+    this.historyBudgetInput.addEventListener('change', () => {
+      const megabytes = parseFloat(this.historyBudgetInput.value);
+      const valid = megabytes >= 0 && megabytes <= parseInt(this.historyBudgetInput.max);
+      this.historyBudgetInput.classList.toggle('invalid', !valid);
+      if (valid) {
+        this.config.onHistoryBudgetChange(megabytes);
+      }
+    });
+
     // Speed control
     this.speedSlider.addEventListener('input', () => {
       const speed = parseInt(this.speedSlider.value);
@@ -266,43 +600,28 @@ export class Controls {
       this.config.onSpeedChange(speed);
     });
 
+    this.turboToggle.addEventListener('change', () => {
+      this.speedSlider.disabled = this.turboToggle.checked;
+      this.config.onTurboChange(this.turboToggle.checked);
+    });
+
+    this.autoPauseToggle.addEventListener('change', () => {
+      this.config.onAutoPauseChange(this.autoPauseToggle.checked);
+    });
+
     // Dimension selector
     this.dimensionSelect.addEventListener('change', () => {
-      const dimension = this.dimensionSelect.value as '3D' | '4D';
+      const dimension = parseInt(this.dimensionSelect.value) as Dimension;
+      this.applyDimension(dimension);
       this.config.onDimensionChange(dimension);
+    });
 
-      // Update pattern list
-      this.updatePatternList(dimension);
-
-      // Show/hide W controls
-      if (this.wControls) {
-        this.wControls.style.display = dimension === '4D' ? 'block' : 'none';
-      }
-
-      // Update rule limits
-      if (dimension === '4D') {
-        this.surviveMinInput.max = '80';
-        this.surviveMaxInput.max = '80';
-        this.birthMinInput.max = '80';
-        this.birthMaxInput.max = '80';
-        // Default 4D rules
-        this.surviveMinInput.value = '7';
-        this.surviveMaxInput.value = '10';
-        this.birthMinInput.value = '6';
-        this.birthMaxInput.value = '9';
-      } else {
-        this.surviveMinInput.max = '26';
-        this.surviveMaxInput.max = '26';
-        this.birthMinInput.max = '26';
-        this.birthMaxInput.max = '26';
-        // Default 3D rules
-        this.surviveMinInput.value = '5';
-        this.surviveMaxInput.value = '7';
-        this.birthMinInput.value = '6';
-        this.birthMaxInput.value = '6';
+    // Grid size
+    this.gridSizeInput.addEventListener('change', () => {
+      const size = parseInt(this.gridSizeInput.value);
+      if (size >= parseInt(this.gridSizeInput.min) && size <= parseInt(this.gridSizeInput.max)) {
+        this.config.onGridSizeChange(size);
       }
-
-      this.onRulesChanged();
     });
 
     // Pattern selector
@@ -310,29 +629,102 @@ export class Controls {
       this.config.onPatternChange(this.patternSelect.value);
     });
 
+    // Random soup: every change rolls a new soup
+    for (const input of [this.soupSeedInput, this.soupDensityInput, this.soupRegionInput, this.soupSymmetrySelect]) {
+      input.addEventListener('change', () => this.onSoupChanged());
+    }
+    this.getElement('newSeedBtn').addEventListener('click', () => {
+      this.soupSeedInput.value = randomSeed().toString();
+      this.onSoupChanged();
+    });
+
+    // Pattern placement: turns and mirrors apply on top of the current orientation
+    this.placementButtons.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('button');
+      if (!button) return;
+      const { transform } = this.placement;
+      const step = button.dataset.action === 'turn'
+        ? quarterTurn(this.dimension, Number(button.dataset.from), Number(button.dataset.to))
+        : mirror(this.dimension, Number(button.dataset.axis));
+      this.placement.transform = composeTransforms(transform, step);
+      this.showOrientation();
+      this.config.onPlacementChange(clonePlacement(this.placement));
+    });
+    this.getElement('placementResetBtn').addEventListener('click', () => {
+      this.setPlacement(defaultPlacement(this.dimension));
+      this.config.onPlacementChange(clonePlacement(this.placement));
+    });
+    this.getElement('verifyPatternsBtn').addEventListener('click', () => {
+      this.config.onVerifyPatterns();
+    });
+    this.getElement('placePatternBtn').addEventListener('click', () => {
+      this.config.onPatternChange(this.patternSelect.value);
+    });
+
+    // Cell editing
+    this.editToggle.addEventListener('change', () => {
+      this.config.onEditModeChange(this.editToggle.checked);
+    });
+    this.editLayerSlider.addEventListener('input', () => {
+      const layer = parseInt(this.editLayerSlider.value);
+      this.editLayerValue.textContent = layer.toString();
+      this.config.onEditLayerChange(layer);
+    });
+    this.getElement('clearCellsBtn').addEventListener('click', () => {
+      this.config.onClearCells();
+    });
+
     // Render mode selector
     this.renderModeSelect.addEventListener('change', () => {
       this.config.onRenderModeChange(this.renderModeSelect.value as RenderMode);
     });
 
-    // W slider for 4D
-    if (this.wSlider && this.config.onWSliceChange) {
-      this.wSlider.addEventListener('input', () => {
-        const w = parseInt(this.wSlider!.value);
-        if (this.wValue) {
-          this.wValue.textContent = w.toString();
-        }
-        if (this.config.onWSliceChange) {
-          this.config.onWSliceChange(w);
-        }
-      });
-    }
+    // Color scheme, gradient and activity window
+    const onColorSchemeChanged = () => {
+      const scheme = this.colorSchemeSelect.value as ColorScheme;
+      this.getElement('gradientGroup').style.display = scheme === 'age' || scheme === 'heatmap' ? 'block' : 'none';
+      this.getElement('activityWindowGroup').style.display = scheme === 'heatmap' ? 'block' : 'none';
+      this.config.onColorSchemeChange(scheme, this.gradientSelect.value as GradientName);
+    };
+    this.colorSchemeSelect.addEventListener('change', onColorSchemeChanged);
+    this.gradientSelect.addEventListener('change', onColorSchemeChanged);
+    this.activityWindowSelect.addEventListener('change', () => {
+      const value = this.activityWindowSelect.value;
+      this.config.onActivityWindowChange(value === 'cumulative' ? 'cumulative' : parseInt(value));
+    });
+
+    // Objects
+    this.objectsToggle.addEventListener('change', () => {
+      this.config.onObjectTrackingChange(this.objectsToggle.checked);
+    });
+    this.connectivitySelect.addEventListener('change', () => {
+      this.config.onConnectivityChange(parseInt(this.connectivitySelect.value));
+    });
+
+    // Rule input and presets
+    this.ruleInput.addEventListener('change', () => this.onRulesChanged());
+    this.rulePresetSelect.addEventListener('change', () => {
+      if (this.rulePresetSelect.value) {
+        // Presets are written for the Moore neighborhood unless they name one
+        this.ruleInput.value = this.rulePresetSelect.value;
+        this.onRulesChanged(MOORE_NEIGHBORHOOD);
+      }
+    });
 
-    // Rule inputs
-    this.surviveMinInput.addEventListener('change', () => this.onRulesChanged());
-    this.surviveMaxInput.addEventListener('change', () => this.onRulesChanged());
-    this.birthMinInput.addEventListener('change', () => this.onRulesChanged());
-    this.birthMaxInput.addEventListener('change', () => this.onRulesChanged());
+    // Neighborhood editor
+    this.neighborhoodSelect.addEventListener('change', () => this.onNeighborhoodChanged());
+    this.radiusInput.addEventListener('change', () => this.onNeighborhoodChanged());
+    this.maskInput.addEventListener('change', () => this.onNeighborhoodChanged());
+
+    this.getElement('explorerBtn').addEventListener('click', () => {
+      this.config.onOpenExplorer();
+    });
+    this.getElement('searchBtn').addEventListener('click', () => {
+      this.config.onOpenSearch();
+    });
+    this.getElement('collisionBtn').addEventListener('click', () => {
+      this.config.onOpenCollisions();
+    });
 
     // Export/Import
     const exportBtn = this.getElement('exportBtn');
@@ -355,10 +747,53 @@ export class Controls {
     });
   }
 
-  private updatePatternList(dimension: '3D' | '4D'): void {
-    if (dimension === '4D') {
-      this.patternSelect.innerHTML = `
+  private applyDimension(dimension: Dimension): void {
+    // Update pattern list and the symmetries offered for soups
+    this.updatePatternList(dimension);
+    this.applyPatternVerdicts();
+    this.soupSymmetrySelect.innerHTML = getSoupSymmetries(dimension).map(symmetry => `
+      <option value="${symmetry}">${SOUP_SYMMETRIES[symmetry].label}</option>`).join('');
+
+    // Connectivities by neighbor count: faces, then edges, ... up to corners
+    this.connectivitySelect.innerHTML = Array.from({ length: dimension }, (_, i) => `
+      <option value="${i + 1}">${getConnectivityOffsets(i + 1, dimension).length} neighbors${dimension === 3 ? ` (${CONNECTIVITY_NAMES_3D[i]})` : ''}</option>`).join('');
+    this.connectivitySelect.value = dimension.toString();
+
+    // Update rule limits
+    this.dimension = dimension;
+    this.updateRuleLimits();
+    this.maskInput.placeholder = [1, -1].map(sign =>
+      Array.from({ length: dimension }, (_, d) => (d === 0 ? sign : 0)).join(',')
+    ).join('; ');
+    this.rulePresetSelect.innerHTML = `
+      <option value="">Custom</option>
+      ${(RULE_PRESETS[dimension] ?? []).map(preset => `
+      <option value="${preset.rule}">${preset.name} (${preset.rule})</option>`).join('')}
+    `;
+  }
+
+  /**
+   * Random entries at the top of the pattern list: the plain soup, then a
+   * soup per symmetry available in the dimension
+   */
+  private soupPatternOptions(dimension: Dimension): string {
+    return `
         <option value="random">Random</option>
+        <optgroup label="Symmetric Soups">
+          ${getSoupSymmetries(dimension).filter(symmetry => symmetry !== 'none').map(symmetry => `
+          <option value="${SOUP_PATTERN_PREFIX}${symmetry}">${SOUP_SYMMETRIES[symmetry].label}</option>`).join('')}
+        </optgroup>`;
+  }
+
+  private updatePatternList(dimension: Dimension): void {
+    if (dimension === 2 || dimension === 5) {
+      // No pattern library yet - random soups only
+      this.patternSelect.innerHTML = `
+        ${this.soupPatternOptions(dimension)}
+      `;
+    } else if (dimension === 4) {
+      this.patternSelect.innerHTML = `
+        ${this.soupPatternOptions(dimension)}
         <optgroup label="Basic Shapes">
           <option value="tesseract">Tesseract (Hypercube)</option>
           <option value="hypersphere">Hypersphere</option>
@@ -393,7 +828,7 @@ export class Controls {
       `;
     } else {
       this.patternSelect.innerHTML = `
-        <option value="random">Random</option>
+        ${this.soupPatternOptions(dimension)}
         <optgroup label="Still Lifes">
           <option value="block">Block</option>
           <option value="biBlock">Bi-Block</option>
@@ -441,25 +876,406 @@ export class Controls {
     }
   }
 
-  private onRulesChanged(): void {
-    const surviveMin = parseInt(this.surviveMinInput.value);
-    const surviveMax = parseInt(this.surviveMaxInput.value);
-    const birthMin = parseInt(this.birthMinInput.value);
-    const birthMax = parseInt(this.birthMaxInput.value);
+  private updateRuleLimits(): void {
+    const maxNeighbors = getMaxNeighbors(this.dimension, this.neighborhood);
+    this.ruleInput.title = `Neighbor counts 0-${maxNeighbors}, e.g. B5,8/S4,6,9, B6/S5-7 or 4/4/5/M`;
+  }
+
+  private onRulesChanged(defaultNeighborhood: Neighborhood = this.neighborhood): void {
+    try {
+      // A rule string without a neighborhood part keeps the current one
+      const rules = parseRule(this.ruleInput.value, this.dimension, defaultNeighborhood);
+      this.showRuleError(null);
+      this.showNeighborhood(rules.neighborhood);
+      this.selectRulePreset(rules);
+      this.config.onRulesChange(rules);
+    } catch (error) {
+      this.showRuleError((error as Error).message);
+    }
+  }
+
+  /**
+   * Read the soup inputs, flagging the invalid ones
+   */
+  private onSoupChanged(): void {
+    const seed = Number(this.soupSeedInput.value);
+    const density = parseFloat(this.soupDensityInput.value) / 100;
+    const region = parseFloat(this.soupRegionInput.value) / 100;
+
+    const seedValid = this.soupSeedInput.value !== '' && isValidSeed(seed);
+    const densityValid = density >= 0 && density <= 1;
+    const regionValid = region > 0 && region <= 1;
+    this.soupSeedInput.classList.toggle('invalid', !seedValid);
+    this.soupDensityInput.classList.toggle('invalid', !densityValid);
+    this.soupRegionInput.classList.toggle('invalid', !regionValid);
+    if (!seedValid || !densityValid || !regionValid) return;
 
-    this.config.onRulesChange(surviveMin, surviveMax, birthMin, birthMax);
+    const symmetry = this.soupSymmetrySelect.value as SoupSymmetry;
+    this.patternSelect.value = symmetry === 'none' ? 'random' : SOUP_PATTERN_PREFIX + symmetry;
+    this.config.onSoupChange({
+      seed,
+      density,
+      region,
+      symmetry,
+    });
   }
 
-  updateStats(fps: number, cellCount: number, generation: number): void {
+  /**
+   * Apply the neighborhood editor to the current rule, keeping its counts
+   */
+  private onNeighborhoodChanged(): void {
+    const type = this.neighborhoodSelect.value as NeighborhoodType;
+    this.radiusInput.disabled = type === 'custom';
+    this.maskInput.style.display = type === 'custom' ? '' : 'none';
+
+    try {
+      const radius = parseInt(this.radiusInput.value);
+      if (!(radius >= 1 && radius <= MAX_RADIUS)) {
+        throw new Error(`Neighborhood radius must be between 1 and ${MAX_RADIUS}`);
+      }
+
+      const neighborhood: Neighborhood = type === 'custom'
+        ? { type, radius, offsets: parseOffsetMask(this.maskInput.value, this.dimension) }
+        : { type, radius };
+
+      const rules = parseRule(this.ruleInput.value, this.dimension, this.neighborhood);
+      const maxNeighbors = getMaxNeighbors(this.dimension, neighborhood);
+      const tooLarge = [...rules.birth, ...rules.survive].find(n => n > maxNeighbors);
+      if (tooLarge !== undefined) {
+        throw new Error(`Neighbor count ${tooLarge} exceeds the maximum of ${maxNeighbors}`);
+      }
+
+      rules.neighborhood = neighborhood;
+      this.neighborhood = cloneNeighborhood(neighborhood);
+      this.updateRuleLimits();
+      this.ruleInput.value = formatRule(rules, this.dimension);
+      this.showRuleError(null);
+      this.selectRulePreset(rules);
+      this.config.onRulesChange(rules);
+    } catch (error) {
+      this.showRuleError((error as Error).message);
+    }
+  }
+
+  /**
+   * Sync the neighborhood editor with the given neighborhood
+   */
+  private showNeighborhood(neighborhood: Neighborhood): void {
+    this.neighborhood = cloneNeighborhood(neighborhood);
+    this.neighborhoodSelect.value = neighborhood.type;
+    this.radiusInput.value = neighborhood.radius.toString();
+    this.radiusInput.disabled = neighborhood.type === 'custom';
+    this.maskInput.style.display = neighborhood.type === 'custom' ? '' : 'none';
+    if (neighborhood.offsets) {
+      this.maskInput.value = formatOffsetMask(neighborhood.offsets);
+    }
+    this.updateRuleLimits();
+  }
+
+  /**
+   * Select the preset matching the given rules, or "Custom"
+   */
+  private selectRulePreset(rules: SimulationRules): void {
+    const formatted = formatRule(rules, this.dimension);
+    const match = Array.from(this.rulePresetSelect.options).find(option =>
+      option.value && formatRule(parseRule(option.value, this.dimension), this.dimension) === formatted
+    );
+    this.rulePresetSelect.value = match?.value ?? '';
+  }
+
+  private showRuleError(message: string | null): void {
+    this.ruleInput.classList.toggle('invalid', message !== null);
+    this.ruleError.textContent = message ?? '';
+  }
+
+  /**
+   * Show the recorded history and where the current generation sits in it
+   */
+  updateHistory(position: number, length: number): void {
+    const behind = length - 1 - position;
+    this.historySlider.max = Math.max(0, length - 1).toString();
+    this.historySlider.value = position.toString();
+    this.historySlider.disabled = length < 2;
+    this.historyValue.textContent = behind > 0 ? `${behind} back of ${length - 1}` : 'latest';
+    this.stepBackButton.disabled = position === 0;
+  }
+
+  updateStats(fps: number, generation: number, stats: SimulationStats | null): void {
     this.fpsDisplay.textContent = fps.toString();
-    this.cellCountDisplay.textContent = cellCount.toLocaleString();
     this.generationDisplay.textContent = generation.toString();
+    if (!stats) return;
+
+    this.cellCountDisplay.textContent = stats.population.toLocaleString();
+    this.birthsDisplay.textContent = stats.births.toLocaleString();
+    this.deathsDisplay.textContent = stats.deaths.toLocaleString();
+
+    // Extent per axis, with the coordinate ranges in the tooltip
+    const bounds = stats.bounds;
+    this.boundsDisplay.textContent = bounds
+      ? bounds.min.map((low, d) => bounds.max[d] - low + 1).join('×')
+      : '-';
+    this.boundsDisplay.title = bounds
+      ? bounds.min.map((low, d) => `${AXIS_NAMES[d]}: ${low}-${bounds.max[d]}`).join(', ')
+      : '';
   }
 
-  setWSliderMax(max: number): void {
-    if (this.wSlider) {
-      this.wSlider.max = (max - 1).toString();
+  /**
+   * Show whether the run has settled, with the generation it settled at in the tooltip
+   */
+  updateSettleStatus(status: SettleStatus): void {
+    this.settleDisplay.textContent = formatSettleStatus(status);
+    this.settleDisplay.title = status.kind === 'running' ? '' : `Since generation ${status.since}`;
+  }
+
+  /**
+   * List the largest objects, or clear the list when objects are not tracked
+   */
+  updateObjects(objects: TrackedObject[] | null): void {
+    if (!objects) {
+      this.objectCountDisplay.textContent = '-';
+      this.objectList.innerHTML = '';
+      return;
     }
+
+    this.objectCountDisplay.textContent = objects.length.toLocaleString();
+    const largest = [...objects].sort((a, b) => b.size - a.size).slice(0, MAX_LISTED_OBJECTS);
+    this.objectList.innerHTML = largest.map(object => {
+      const extent = object.min.map((low, d) => object.max[d] - low + 1).join('×');
+      const box = object.min.map((low, d) => `${AXIS_NAMES[d]}: ${low}-${object.max[d]}`).join(', ');
+      const centroid = object.centroid.map(coord => coord.toFixed(1)).join(', ');
+      return `
+        <div class="object-item" title="${box}">
+          <span>#${object.id}</span>
+          <span>${object.size.toLocaleString()} cells</span>
+          <span>${extent}</span>
+          <span>(${centroid})</span>
+        </div>`;
+    }).join('');
+  }
+
+  /**
+   * Sync the connectivity selector without notifying the app
+   */
+  setConnectivity(connectivity: Connectivity): void {
+    this.connectivitySelect.value = connectivity.toString();
+  }
+
+  /**
+   * Show the grid's edge length and the largest size offered for its dimension
+   */
+  setGridSize(size: number, maxSize: number): void {
+    this.gridSizeInput.max = maxSize.toString();
+    this.gridSizeInput.value = size.toString();
+    this.gridSizeInput.title = `Cells per axis, 4-${maxSize}`;
+  }
+
+  /**
+   * Rebuild the slice sliders for the axes beyond Z (W in 4D, W and V in 5D)
+   */
+  setSliceAxes(gridSize: number[]): void {
+    this.sliceControls.innerHTML = gridSize.slice(3).map((size, i) => `
+      <div class="slider-group">
+        <label for="sliceSlider${i}">${AXIS_NAMES[i + 3]} Slice: <span id="sliceValue${i}">0</span></label>
+        <input type="range" id="sliceSlider${i}" min="0" max="${size - 1}" value="0" step="1">
+      </div>
+    `).join('');
+
+    gridSize.slice(3).forEach((_, i) => {
+      const slider = this.getElement(`sliceSlider${i}`) as HTMLInputElement;
+      const value = this.getElement(`sliceValue${i}`) as HTMLSpanElement;
+      slider.addEventListener('input', () => {
+        const coord = parseInt(slider.value);
+        value.textContent = coord.toString();
+        this.config.onSliceChange?.(i, coord);
+      });
+    });
+  }
+
+  /**
+   * Show the cursor plane's layer out of the view's depth; flat views have
+   * a single layer and no slider
+   */
+  setEditLayer(layer: number, depth: number): void {
+    this.editLayerSlider.max = (depth - 1).toString();
+    this.editLayerSlider.value = layer.toString();
+    this.editLayerValue.textContent = layer.toString();
+    this.editLayerGroup.style.display = depth > 1 ? '' : 'none';
+  }
+
+  /**
+   * Rebuild the per-axis boundary selectors. Twisted axes get a second
+   * selector for the axis they mirror.
+   */
+  setBoundaries(boundaries: AxisBoundary[]): void {
+    const labels: Record<BoundaryMode, string> = {
+      periodic: 'Periodic',
+      dead: 'Dead wall',
+      reflective: 'Reflective',
+      twisted: 'Twisted',
+    };
+
+    this.boundaryControls.innerHTML = boundaries.map((boundary, axis) => `
+      <div class="input-group">
+        <label for="boundarySelect${axis}">${AXIS_NAMES[axis]} edge:</label>
+        <select id="boundarySelect${axis}">
+          ${BOUNDARY_MODES.map(mode => `
+          <option value="${mode}"${mode === boundary.mode ? ' selected' : ''}>${labels[mode]}</option>`).join('')}
+        </select>
+        <select id="boundaryFlip${axis}" title="Axis mirrored on wrap"${boundary.mode === 'twisted' ? '' : ' style="display:none;"'}>
+          ${boundaries.map((_, other) => other === axis ? '' : `
+          <option value="${other}"${other === boundary.flipAxis ? ' selected' : ''}>flips ${AXIS_NAMES[other]}</option>`).join('')}
+        </select>
+      </div>
+    `).join('');
+
+    const readBoundaries = (): AxisBoundary[] => boundaries.map((_, axis) => {
+      const mode = (this.getElement(`boundarySelect${axis}`) as HTMLSelectElement).value as BoundaryMode;
+      const flip = this.getElement(`boundaryFlip${axis}`) as HTMLSelectElement;
+      flip.style.display = mode === 'twisted' ? '' : 'none';
+      return mode === 'twisted' ? { mode, flipAxis: parseInt(flip.value) } : { mode };
+    });
+
+    boundaries.forEach((_, axis) => {
+      for (const id of [`boundarySelect${axis}`, `boundaryFlip${axis}`]) {
+        this.getElement(id).addEventListener('change', () => {
+          this.config.onBoundaryChange(readBoundaries());
+        });
+      }
+    });
+  }
+
+  /**
+   * List the user's collection for the current dimension at the end of the
+   * pattern list
+   */
+  setUserPatterns(patterns: Record<string, UserPattern>): void {
+    const selected = this.patternSelect.value;
+    this.patternSelect.querySelector('optgroup[data-user]')?.remove();
+    const entries = Object.entries(patterns);
+    if (entries.length === 0) return;
+
+    const group = document.createElement('optgroup');
+    group.label = 'My Patterns';
+    group.dataset.user = '';
+    group.innerHTML = entries.map(([key, pattern]) => `
+      <option value="${key}">${pattern.name} (${pattern.rules})</option>`).join('');
+    this.patternSelect.appendChild(group);
+    this.patternSelect.value = selected;
+    this.applyPatternVerdicts();
+  }
+
+  /**
+   * Annotate the pattern list with how each pattern behaves, flagging those
+   * that do not do what they are described as doing
+   */
+  setPatternVerdicts(verdicts: Record<string, PatternVerdict>): void {
+    this.patternVerdicts = verdicts;
+    this.applyPatternVerdicts();
+  }
+
+  private applyPatternVerdicts(): void {
+    for (const option of Array.from(this.patternSelect.options)) {
+      // Keep the plain name to annotate again
+      const label = option.dataset.label ?? option.textContent ?? '';
+      option.dataset.label = label;
+
+      const verdict = this.patternVerdicts[option.value];
+      option.textContent = verdict
+        ? `${verdict.matches === false ? '⚠ ' : ''}${label} — ${formatVerdict(verdict)}`
+        : label;
+      option.title = verdict ? describeVerdict(verdict) : '';
+      option.classList.toggle('verdict-failed', verdict?.matches === false);
+    }
+  }
+
+  /**
+   * Sync the pattern selector without notifying the app
+   */
+  setPattern(name: string): void {
+    this.patternSelect.value = name;
+  }
+
+  /**
+   * Show the parameters of the current dimension's soup
+   */
+  setSoup(soup: SoupParams): void {
+    this.soupSeedInput.value = soup.seed.toString();
+    // Rounded so that e.g. 0.03 does not show as 3.0000000000000004
+    this.soupDensityInput.value = parseFloat((soup.density * 100).toFixed(4)).toString();
+    this.soupRegionInput.value = parseFloat((soup.region * 100).toFixed(4)).toString();
+    this.soupSymmetrySelect.value = soup.symmetry;
+    for (const input of [this.soupSeedInput, this.soupDensityInput, this.soupRegionInput]) {
+      input.classList.remove('invalid');
+    }
+  }
+
+  /**
+   * Show the orientation and position patterns are loaded with, rebuilding
+   * the per-axis controls
+   */
+  setPlacement(placement: PatternPlacement): void {
+    this.placement = clonePlacement(placement);
+    const dimensions = placement.origin.length;
+    const planes = Array.from({ length: dimensions }, (_, from) =>
+      Array.from({ length: dimensions - from - 1 }, (_, i) => [from, from + i + 1])
+    ).flat();
+
+    this.placementButtons.innerHTML = `
+      <div class="button-group">
+        ${planes.map(([from, to]) => `
+        <button class="btn" data-action="turn" data-from="${from}" data-to="${to}"
+          title="Quarter turn taking ${AXIS_NAMES[from]} onto ${AXIS_NAMES[to]}" style="min-width: 0;">⟳ ${AXIS_NAMES[from]}${AXIS_NAMES[to]}</button>`).join('')}
+      </div>
+      <div class="button-group" style="margin-top: 8px;">
+        ${placement.origin.map((_, axis) => `
+        <button class="btn" data-action="mirror" data-axis="${axis}"
+          title="Mirror along ${AXIS_NAMES[axis]}" style="min-width: 0;">⇋ ${AXIS_NAMES[axis]}</button>`).join('')}
+      </div>
+    `;
+    this.placementOrigin.innerHTML = placement.origin.map((origin, axis) => `
+      <div class="input-group">
+        <label for="placementOrigin${axis}">${AXIS_NAMES[axis]} position:</label>
+        <input type="number" id="placementOrigin${axis}" step="1" class="rule-input" placeholder="center"
+          value="${origin ?? ''}" title="Grid coordinate of the pattern's lowest corner, wrapping around; empty centers it">
+      </div>
+    `).join('');
+
+    placement.origin.forEach((_, axis) => {
+      const input = this.getElement(`placementOrigin${axis}`) as HTMLInputElement;
+      input.addEventListener('change', () => {
+        const value = Number(input.value);
+        const valid = input.value === '' || Number.isInteger(value);
+        input.classList.toggle('invalid', !valid);
+        if (!valid) return;
+        this.placement.origin[axis] = input.value === '' ? null : value;
+        this.config.onPlacementChange(clonePlacement(this.placement));
+      });
+    });
+    this.showOrientation();
+  }
+
+  private showOrientation(): void {
+    const { transform } = this.placement;
+    const kind = isIdentityTransform(transform) ? 'original' : isRotation(transform) ? 'rotation' : 'reflection';
+    this.orientationDisplay.textContent = `${formatTransform(transform)} ${kind}`;
+  }
+
+  /**
+   * Show the rules currently applied by the engine
+   */
+  setRules(rules: SimulationRules): void {
+    this.showNeighborhood(rules.neighborhood);
+    this.ruleInput.value = formatRule(rules, this.dimension);
+    this.showRuleError(null);
+    this.selectRulePreset(rules);
+  }
+
+  /**
+   * Sync the dimension selector without notifying the app (e.g. after an import)
+   */
+  setDimension(dimension: Dimension): void {
+    this.dimensionSelect.value = dimension.toString();
+    this.applyDimension(dimension);
   }
 
   pause(): void {
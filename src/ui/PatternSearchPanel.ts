@@ -0,0 +1,234 @@
+/**
+ * Pattern search panel: search settings, progress and the user's pattern
+ * collection, shown over the view
+ */
+
+import { Dimension } from '../engine/SimulationEngine';
+import { MAX_SEARCH_GENERATIONS } from '../engine/patternSearch';
+import { UserPattern } from '../patterns/collection';
+import { MAX_SEED, isValidSeed, randomSeed } from '../utils/random';
+
+export interface PatternSearchRequest {
+  seedSize: number;
+  generations: number;
+  populationSize: number;
+  seed: number;
+}
+
+export interface PatternSearchPanelConfig {
+  onRun: (request: PatternSearchRequest) => void;
+  onStop: () => void;
+  /** Load a collection entry, by its pattern list key */
+  onLoad: (key: string) => void;
+  onRemove: (key: string) => void;
+}
+
+/** Seed box edge per dimension by default; the box holds edge^n cells */
+const DEFAULT_SEED_SIZES: Record<Dimension, number> = {
+  2: 5,
+  3: 4,
+  4: 3,
+  5: 3,
+};
+
+/** Largest seed box edge per dimension */
+const MAX_SEED_SIZES: Record<Dimension, number> = {
+  2: 16,
+  3: 8,
+  4: 5,
+  5: 4,
+};
+
+export class PatternSearchPanel {
+  private container: HTMLElement;
+  private config: PatternSearchPanelConfig;
+  /** Collection entries saved since the panel was created */
+  private newKeys = new Set<string>();
+  private dimension: Dimension | null = null;
+
+  private seedSizeInput!: HTMLInputElement;
+  private generationsInput!: HTMLInputElement;
+  private populationInput!: HTMLInputElement;
+  private seedInput!: HTMLInputElement;
+  private runButton!: HTMLButtonElement;
+  private stopButton!: HTMLButtonElement;
+  private statusDisplay!: HTMLDivElement;
+  private collectionBody!: HTMLTableSectionElement;
+
+  constructor(containerId: string, config: PatternSearchPanelConfig) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container ${containerId} not found`);
+    }
+    this.container = container;
+    this.config = config;
+    this.createUI();
+  }
+
+  private createUI(): void {
+    this.container.innerHTML = `
+      <div class="overlay-header">
+        <h3>Pattern Search</h3>
+        <button id="searchCloseBtn" class="btn" title="Close" style="flex: 0; min-width: 0;">✕</button>
+      </div>
+      <div class="overlay-settings">
+        <div class="input-group">
+          <label for="searchSeedSize">Seed box:</label>
+          <input type="number" id="searchSeedSize" min="1" step="1" class="rule-input"
+            title="Edge of the box seeds are rolled and mutated in">
+        </div>
+        <div class="input-group">
+          <label for="searchGenerations">Generations:</label>
+          <input type="number" id="searchGenerations" value="128" min="1" max="${MAX_SEARCH_GENERATIONS}" step="1" class="rule-input"
+            title="Generations each candidate runs for">
+        </div>
+        <div class="input-group">
+          <label for="searchPopulation">Population:</label>
+          <input type="number" id="searchPopulation" value="24" min="4" max="1000" step="1" class="rule-input"
+            title="Candidates per round">
+        </div>
+        <div class="input-group">
+          <label for="searchSeed">Seed:</label>
+          <input type="number" id="searchSeed" min="0" max="${MAX_SEED}" step="1" class="rule-input rule-string">
+          <button id="searchNewSeedBtn" class="btn" title="Roll a new seed" style="flex: 0; min-width: 0;">🎲</button>
+        </div>
+      </div>
+      <div class="button-group">
+        <button id="searchRunBtn" class="btn btn-primary">🧬 Search</button>
+        <button id="searchStopBtn" class="btn btn-danger" disabled>⏹ Stop</button>
+      </div>
+      <div id="searchStatus" class="overlay-status">
+        Searches under the current rule; verified oscillators and spaceships are saved below.
+      </div>
+      <table class="overlay-table">
+        <thead>
+          <tr>
+            <th>Pattern</th>
+            <th>Rule</th>
+            <th>Cells</th>
+            <th>Size</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody id="searchCollection"></tbody>
+      </table>
+    `;
+
+    this.seedSizeInput = this.getElement('searchSeedSize') as HTMLInputElement;
+    this.generationsInput = this.getElement('searchGenerations') as HTMLInputElement;
+    this.populationInput = this.getElement('searchPopulation') as HTMLInputElement;
+    this.seedInput = this.getElement('searchSeed') as HTMLInputElement;
+    this.runButton = this.getElement('searchRunBtn') as HTMLButtonElement;
+    this.stopButton = this.getElement('searchStopBtn') as HTMLButtonElement;
+    this.statusDisplay = this.getElement('searchStatus') as HTMLDivElement;
+    this.collectionBody = this.getElement('searchCollection') as HTMLTableSectionElement;
+    this.seedInput.value = randomSeed().toString();
+
+    this.attachEventListeners();
+  }
+
+  private getElement(id: string): HTMLElement {
+    const element = document.getElementById(id);
+    if (!element) {
+      throw new Error(`Element ${id} not found`);
+    }
+    return element;
+  }
+
+  private attachEventListeners(): void {
+    this.getElement('searchCloseBtn').addEventListener('click', () => this.close());
+    this.getElement('searchNewSeedBtn').addEventListener('click', () => {
+      this.seedInput.value = randomSeed().toString();
+    });
+
+    this.runButton.addEventListener('click', () => {
+      const inRange = (input: HTMLInputElement) => {
+        const value = Number(input.value);
+        const valid = Number.isInteger(value) && value >= Number(input.min) && value <= Number(input.max);
+        input.classList.toggle('invalid', !valid);
+        return valid;
+      };
+      const seed = Number(this.seedInput.value);
+      const seedValid = this.seedInput.value !== '' && isValidSeed(seed);
+      this.seedInput.classList.toggle('invalid', !seedValid);
+      const valid = [this.seedSizeInput, this.generationsInput, this.populationInput].map(inRange);
+      if (!seedValid || valid.includes(false)) return;
+
+      this.config.onRun({
+        seedSize: Number(this.seedSizeInput.value),
+        generations: Number(this.generationsInput.value),
+        populationSize: Number(this.populationInput.value),
+        seed,
+      });
+    });
+
+    this.stopButton.addEventListener('click', () => {
+      this.config.onStop();
+    });
+
+    this.collectionBody.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest('button');
+      const key = button?.closest('tr')?.dataset.key;
+      if (!button || !key) return;
+      if (button.dataset.action === 'load') {
+        this.config.onLoad(key);
+      } else if (button.dataset.action === 'remove') {
+        this.config.onRemove(key);
+      }
+    });
+  }
+
+  open(): void {
+    this.container.style.display = 'flex';
+  }
+
+  close(): void {
+    this.container.style.display = 'none';
+  }
+
+  /**
+   * Bound the seed box to the dimension, suggesting its default size when
+   * the dimension changes
+   */
+  setDimension(dimension: Dimension): void {
+    if (dimension === this.dimension) return;
+    this.dimension = dimension;
+    this.seedSizeInput.max = MAX_SEED_SIZES[dimension].toString();
+    this.seedSizeInput.value = DEFAULT_SEED_SIZES[dimension].toString();
+    this.seedSizeInput.classList.remove('invalid');
+  }
+
+  setRunning(running: boolean): void {
+    this.runButton.disabled = running;
+    this.stopButton.disabled = !running;
+  }
+
+  setStatus(text: string): void {
+    this.statusDisplay.textContent = text;
+  }
+
+  /**
+   * List the collection of the current dimension, newest first; `saved`
+   * marks an entry as found in this session
+   */
+  setCollection(patterns: Record<string, UserPattern>, saved?: string): void {
+    if (saved) {
+      this.newKeys.add(saved);
+    }
+
+    const entries = Object.entries(patterns).sort(([, a], [, b]) => b.timestamp - a.timestamp);
+    this.collectionBody.innerHTML = entries.length === 0
+      ? '<tr><td colspan="5">No patterns collected in this dimension yet</td></tr>'
+      : entries.map(([key, pattern]) => `
+        <tr data-key="${key}"${this.newKeys.has(key) ? ' class="new"' : ''} title="${pattern.description}">
+          <td>${pattern.name}</td>
+          <td class="rule-cell">${pattern.rules}</td>
+          <td>${pattern.cells.length}</td>
+          <td>${pattern.size.join('×')}</td>
+          <td>
+            <button class="btn" data-action="load" style="min-width: 0; padding: 4px 8px;">Load</button>
+            <button class="btn" data-action="remove" title="Remove from the collection" style="min-width: 0; padding: 4px 8px;">✕</button>
+          </td>
+        </tr>`).join('');
+  }
+}
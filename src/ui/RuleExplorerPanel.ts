@@ -0,0 +1,337 @@
+/**
+ * Rule explorer panel: sweep settings, progress and a sortable table of the
+ * outcomes, shown over the view
+ */
+
+import { Dimension, SimulationRules, getMaxNeighbors } from '../engine/SimulationEngine';
+import { RULE_OUTCOME_LABELS, RuleExploration, RuleOutcome } from '../engine/ruleExplorer';
+
+/** Ranges and run length of a sweep; the neighborhood is the current rule's */
+export interface RuleExplorerRequest {
+  birth: [number, number];
+  survive: [number, number];
+  generations: number;
+  /** Edge length of the explored grids */
+  size: number;
+}
+
+export interface RuleExplorerPanelConfig {
+  onRun: (request: RuleExplorerRequest) => void;
+  onStop: () => void;
+  /** A result row was clicked */
+  onSelect: (result: RuleExploration) => void;
+}
+
+type SortKey = 'index' | 'outcome' | 'settledAt' | 'period' | 'finalPopulation' | 'peakPopulation';
+
+const COLUMNS: { key: SortKey; label: string; title: string }[] = [
+  { key: 'index', label: 'Rule', title: 'Sweep order' },
+  { key: 'outcome', label: 'Outcome', title: 'How the run ended' },
+  { key: 'settledAt', label: 'Settled', title: 'Generation the run became static or periodic' },
+  { key: 'period', label: 'Period', title: 'Period of a periodic run' },
+  { key: 'finalPopulation', label: 'Final', title: 'Live cells at the end' },
+  { key: 'peakPopulation', label: 'Peak', title: 'Most live cells sampled' },
+];
+
+const OUTCOME_ORDER: RuleOutcome[] = ['diesOut', 'static', 'periodic', 'chaotic', 'explodes'];
+
+/** Edge length explored per dimension by default, small enough for quick sweeps */
+const DEFAULT_EXPLORER_SIZES: Record<Dimension, number> = {
+  2: 64,
+  3: 24,
+  4: 12,
+  5: 8,
+};
+
+const SPARKLINE_WIDTH = 96;
+const SPARKLINE_HEIGHT = 20;
+
+interface ResultRow {
+  index: number;
+  result: RuleExploration;
+}
+
+export class RuleExplorerPanel {
+  private container: HTMLElement;
+  private config: RuleExplorerPanelConfig;
+  private rows: ResultRow[] = [];
+  private sortKey: SortKey = 'index';
+  private sortDescending = false;
+  private selected: number | null = null;
+  /** Generations of the sweep shown, the x range of the population curves */
+  private generations = 1;
+  private renderScheduled = false;
+
+  private birthFromInput!: HTMLInputElement;
+  private birthToInput!: HTMLInputElement;
+  private surviveFromInput!: HTMLInputElement;
+  private surviveToInput!: HTMLInputElement;
+  private generationsInput!: HTMLInputElement;
+  private sizeInput!: HTMLInputElement;
+  private runButton!: HTMLButtonElement;
+  private stopButton!: HTMLButtonElement;
+  private statusDisplay!: HTMLDivElement;
+  private tableHead!: HTMLTableSectionElement;
+  private tableBody!: HTMLTableSectionElement;
+
+  constructor(containerId: string, config: RuleExplorerPanelConfig) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container ${containerId} not found`);
+    }
+    this.container = container;
+    this.config = config;
+    this.createUI();
+  }
+
+  private createUI(): void {
+    this.container.innerHTML = `
+      <div class="overlay-header">
+        <h3>Rule Explorer</h3>
+        <button id="explorerCloseBtn" class="btn" title="Close" style="flex: 0; min-width: 0;">✕</button>
+      </div>
+      <div class="overlay-settings">
+        <div class="input-group">
+          <label for="explorerBirthFrom">Birth:</label>
+          <input type="number" id="explorerBirthFrom" min="0" step="1" class="rule-input">
+          <span>to</span>
+          <input type="number" id="explorerBirthTo" min="0" step="1" class="rule-input">
+        </div>
+        <div class="input-group">
+          <label for="explorerSurviveFrom">Survive:</label>
+          <input type="number" id="explorerSurviveFrom" min="0" step="1" class="rule-input">
+          <span>to</span>
+          <input type="number" id="explorerSurviveTo" min="0" step="1" class="rule-input">
+        </div>
+        <div class="input-group">
+          <label for="explorerGenerations">Generations:</label>
+          <input type="number" id="explorerGenerations" value="200" min="1" max="100000" step="1" class="rule-input">
+        </div>
+        <div class="input-group">
+          <label for="explorerSize">Grid size:</label>
+          <input type="number" id="explorerSize" min="4" max="256" step="1" class="rule-input"
+            title="Cells per axis of the explored grids">
+        </div>
+      </div>
+      <div class="button-group">
+        <button id="explorerRunBtn" class="btn btn-primary">🔭 Explore</button>
+        <button id="explorerStopBtn" class="btn btn-danger" disabled>⏹ Stop</button>
+      </div>
+      <div id="explorerStatus" class="overlay-status"></div>
+      <table class="overlay-table">
+        <thead id="explorerHead"></thead>
+        <tbody id="explorerBody"></tbody>
+      </table>
+    `;
+
+    this.birthFromInput = this.getElement('explorerBirthFrom') as HTMLInputElement;
+    this.birthToInput = this.getElement('explorerBirthTo') as HTMLInputElement;
+    this.surviveFromInput = this.getElement('explorerSurviveFrom') as HTMLInputElement;
+    this.surviveToInput = this.getElement('explorerSurviveTo') as HTMLInputElement;
+    this.generationsInput = this.getElement('explorerGenerations') as HTMLInputElement;
+    this.sizeInput = this.getElement('explorerSize') as HTMLInputElement;
+    this.runButton = this.getElement('explorerRunBtn') as HTMLButtonElement;
+    this.stopButton = this.getElement('explorerStopBtn') as HTMLButtonElement;
+    this.statusDisplay = this.getElement('explorerStatus') as HTMLDivElement;
+    this.tableHead = this.getElement('explorerHead') as HTMLTableSectionElement;
+    this.tableBody = this.getElement('explorerBody') as HTMLTableSectionElement;
+
+    this.attachEventListeners();
+    this.renderHead();
+  }
+
+  private getElement(id: string): HTMLElement {
+    const element = document.getElementById(id);
+    if (!element) {
+      throw new Error(`Element ${id} not found`);
+    }
+    return element;
+  }
+
+  private attachEventListeners(): void {
+    this.getElement('explorerCloseBtn').addEventListener('click', () => this.close());
+
+    this.runButton.addEventListener('click', () => {
+      const read = (input: HTMLInputElement) => Number(input.value);
+      const generations = read(this.generationsInput);
+      const size = read(this.sizeInput);
+      if (!Number.isInteger(generations) || generations < 1) {
+        this.setStatus('Generations must be a positive whole number');
+        return;
+      }
+      if (!Number.isInteger(size) || size < parseInt(this.sizeInput.min) || size > parseInt(this.sizeInput.max)) {
+        this.setStatus(`Grid size must be between ${this.sizeInput.min} and ${this.sizeInput.max}`);
+        return;
+      }
+
+      this.config.onRun({
+        birth: [read(this.birthFromInput), read(this.birthToInput)],
+        survive: [read(this.surviveFromInput), read(this.surviveToInput)],
+        generations,
+        size,
+      });
+    });
+
+    this.stopButton.addEventListener('click', () => {
+      this.config.onStop();
+    });
+
+    // Header clicks sort; clicking the sorted column again reverses it
+    this.tableHead.addEventListener('click', (e) => {
+      const key = (e.target as HTMLElement).closest('th')?.dataset.key as SortKey | undefined;
+      if (!key) return;
+      this.sortDescending = key === this.sortKey ? !this.sortDescending : false;
+      this.sortKey = key;
+      this.renderHead();
+      this.renderBody();
+    });
+
+    this.tableBody.addEventListener('click', (e) => {
+      const row = (e.target as HTMLElement).closest('tr');
+      if (!row?.dataset.index) return;
+      const index = parseInt(row.dataset.index);
+      const match = this.rows.find(entry => entry.index === index);
+      if (match) {
+        this.selected = index;
+        this.renderBody();
+        this.config.onSelect(match.result);
+      }
+    });
+  }
+
+  open(): void {
+    this.container.style.display = 'flex';
+  }
+
+  close(): void {
+    this.container.style.display = 'none';
+  }
+
+  /**
+   * Limit the ranges to the neighborhood of `rules` and the grid to
+   * `maxSize`, and unless a sweep is shown, suggest ranges one count around
+   * the rules and a grid size
+   */
+  setDimension(dimension: Dimension, rules: SimulationRules, maxSize: number): void {
+    const maxNeighbors = getMaxNeighbors(dimension, rules.neighborhood);
+    const inputs = [this.birthFromInput, this.birthToInput, this.surviveFromInput, this.surviveToInput];
+    for (const input of inputs) {
+      input.max = maxNeighbors.toString();
+    }
+    this.sizeInput.max = maxSize.toString();
+    if (this.rows.length > 0) return;
+
+    const around = (counts: number[]) => counts.length > 0
+      ? [Math.max(0, Math.min(...counts) - 1), Math.min(maxNeighbors, Math.max(...counts) + 1)]
+      : [0, Math.min(maxNeighbors, 2)];
+    const [birthFrom, birthTo] = around(rules.birth);
+    const [surviveFrom, surviveTo] = around(rules.survive);
+    this.birthFromInput.value = birthFrom.toString();
+    this.birthToInput.value = birthTo.toString();
+    this.surviveFromInput.value = surviveFrom.toString();
+    this.surviveToInput.value = surviveTo.toString();
+    this.sizeInput.value = Math.min(DEFAULT_EXPLORER_SIZES[dimension], maxSize).toString();
+  }
+
+  setRunning(running: boolean): void {
+    this.runButton.disabled = running;
+    this.stopButton.disabled = !running;
+  }
+
+  setStatus(text: string): void {
+    this.statusDisplay.textContent = text;
+  }
+
+  /**
+   * Drop the shown results ahead of a sweep over `generations` generations
+   */
+  clearResults(generations: number): void {
+    this.rows = [];
+    this.selected = null;
+    this.generations = generations;
+    this.renderBody();
+  }
+
+  /**
+   * Add the result of the rule at `index` in the sweep
+   */
+  addResult(result: RuleExploration, index: number): void {
+    this.rows.push({ index, result });
+    // Results can come in faster than the table is worth redrawing
+    if (!this.renderScheduled) {
+      this.renderScheduled = true;
+      requestAnimationFrame(() => {
+        this.renderScheduled = false;
+        this.renderBody();
+      });
+    }
+  }
+
+  private renderHead(): void {
+    this.tableHead.innerHTML = `
+      <tr>
+        ${COLUMNS.map(({ key, label, title }) => `
+        <th data-key="${key}" title="${title}">${label}${key === this.sortKey ? (this.sortDescending ? ' ▼' : ' ▲') : ''}</th>`).join('')}
+        <th title="Population over the run">Population</th>
+      </tr>
+    `;
+  }
+
+  private renderBody(): void {
+    const sorted = [...this.rows].sort((a, b) => {
+      const order = this.compare(a, b);
+      return this.sortDescending ? -order : order;
+    });
+
+    this.tableBody.innerHTML = sorted.map(({ index, result }) => `
+      <tr data-index="${index}"${index === this.selected ? ' class="selected"' : ''} title="Load ${result.rule}">
+        <td class="rule-cell">${result.rule}</td>
+        <td class="outcome-${result.outcome}">${RULE_OUTCOME_LABELS[result.outcome]}</td>
+        <td>${result.settledAt ?? '-'}</td>
+        <td>${result.period ?? '-'}</td>
+        <td>${result.finalPopulation.toLocaleString()}</td>
+        <td>${result.peakPopulation.toLocaleString()}</td>
+        <td class="outcome-${result.outcome}">${this.sparkline(result)}</td>
+      </tr>`).join('');
+  }
+
+  /**
+   * Order by the sort column, runs without a value last, then by sweep order
+   */
+  private compare(a: ResultRow, b: ResultRow): number {
+    const value = (row: ResultRow): number | null => {
+      switch (this.sortKey) {
+        case 'index':
+          return row.index;
+        case 'outcome':
+          return OUTCOME_ORDER.indexOf(row.result.outcome);
+        default:
+          return row.result[this.sortKey];
+      }
+    };
+
+    const first = value(a);
+    const second = value(b);
+    if (first !== second) {
+      if (first === null) return 1;
+      if (second === null) return -1;
+      return first - second;
+    }
+    return a.index - b.index;
+  }
+
+  /**
+   * Population curve scaled to the run's peak, over the sweep's generations
+   * so that runs stopping early end early
+   */
+  private sparkline(result: RuleExploration): string {
+    const { populations, sampleInterval, peakPopulation } = result;
+    const points = populations.map((population, i) => {
+      const x = (Math.min(i * sampleInterval, this.generations) / this.generations) * SPARKLINE_WIDTH;
+      const y = SPARKLINE_HEIGHT - (population / Math.max(1, peakPopulation)) * (SPARKLINE_HEIGHT - 1);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+    return `<svg width="${SPARKLINE_WIDTH}" height="${SPARKLINE_HEIGHT}" viewBox="0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}">` +
+      `<polyline points="${points.join(' ')}" fill="none" stroke="currentColor" stroke-width="1.5"/></svg>`;
+  }
+}
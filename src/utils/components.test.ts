@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { defaultBoundaries } from '../engine/boundaries';
+import { createGrid } from '../test/helpers';
+import { labelObjects } from './components';
+
+describe('labelObjects', () => {
+  it('splits cells into objects under the chosen connectivity', () => {
+    const cells = [[1, 1], [2, 2], [5, 5], [5, 6]];
+    const moore = labelObjects(createGrid([8, 8], cells, [0, 0]), [8, 8], defaultBoundaries(2), 2);
+    expect(moore.objects.map(object => object.size).sort()).toEqual([2, 2]);
+
+    const faces = labelObjects(createGrid([8, 8], cells, [0, 0]), [8, 8], defaultBoundaries(2), 1);
+    expect(faces.objects.map(object => object.size).sort()).toEqual([1, 1, 2]);
+  });
+
+  it('keeps an object straddling a wrapping edge whole', () => {
+    const { objects, labels } = labelObjects(createGrid([8, 8], [[7, 3], [0, 3], [1, 3]], [0, 0]), [8, 8], defaultBoundaries(2), 2);
+    expect(objects).toHaveLength(1);
+    expect(objects[0].min).toEqual([7, 3]);
+    expect(objects[0].max).toEqual([9, 3]);
+    expect(labels[3 * 8 + 7]).toBe(labels[3 * 8]);
+  });
+});
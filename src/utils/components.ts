@@ -0,0 +1,223 @@
+/**
+ * Connected components ("objects") of the live cells, and their identities
+ * across generations
+ * Two live cells belong to the same object when they are neighbors under the
+ * chosen connectivity and the grid's boundaries, so an object straddling a
+ * wrapping edge stays whole. Only state 1 counts; dying Generations cells are
+ * left out, as in the statistics.
+ */
+
+import { AxisBoundary, createNeighborResolver } from '../engine/boundaries';
+import { getCellCount, getStrides } from './grid';
+import { PackedCells, unpackCells } from './packing';
+
+/**
+ * The most axes along which two connected cells may differ: 1 joins cells
+ * sharing a face (6 neighbors in 3D), 2 also an edge (18), 3 also a corner (26)
+ */
+export type Connectivity = number;
+
+/** Connectivity under which Life's own Moore neighbors are connected */
+export function getDefaultConnectivity(dimensions: number): Connectivity {
+  return dimensions;
+}
+
+/**
+ * Offsets to the cells connected to a cell
+ */
+export function getConnectivityOffsets(connectivity: Connectivity, dimensions: number): number[][] {
+  const offsets: number[][] = [];
+  const total = Math.pow(3, dimensions);
+  for (let i = 0; i < total; i++) {
+    const offset: number[] = [];
+    let rest = i;
+    for (let d = 0; d < dimensions; d++) {
+      offset.push((rest % 3) - 1);
+      rest = Math.floor(rest / 3);
+    }
+    const axes = offset.filter(delta => delta !== 0).length;
+    if (axes > 0 && axes <= connectivity) {
+      offsets.push(offset);
+    }
+  }
+  return offsets;
+}
+
+export interface GridObject {
+  /** Live cells in the object */
+  size: number;
+  /** Lowest coordinate per axis, within the grid */
+  min: number[];
+  /** Highest coordinate per axis; past the far edge when the object wraps around it */
+  max: number[];
+  /** Mean cell coordinate per axis, within the grid */
+  centroid: number[];
+}
+
+export interface ObjectLabels {
+  gridSize: number[];
+  /** Axes whose boundaries wrap, along which distances are taken the short way around */
+  wraps: boolean[];
+  /** Per cell, 1 + the index of its object in `objects`; 0 for cells in no object */
+  labels: Uint32Array;
+  objects: GridObject[];
+}
+
+/**
+ * Split the live cells of a grid into objects by flood fill. Coordinates are
+ * followed across wrapping edges without wrapping them, so bounding boxes and
+ * centroids of objects crossing an edge come out whole.
+ */
+export function labelObjects(
+  state: PackedCells,
+  gridSize: readonly number[],
+  boundaries: readonly AxisBoundary[],
+  connectivity: Connectivity
+): ObjectLabels {
+  const dimensions = gridSize.length;
+  const cellCount = getCellCount(gridSize);
+  const strides = getStrides(gridSize);
+  const cells = unpackCells(state, 0, cellCount);
+  const labels = new Uint32Array(cellCount);
+  const offsets = getConnectivityOffsets(connectivity, dimensions);
+  const neighborIndex = createNeighborResolver(gridSize, boundaries);
+  // Index steps for cells away from the faces, where no boundary applies
+  const steps = offsets.map(offset => offset.reduce((total, delta, d) => total + delta * strides[d], 0));
+  const objects: GridObject[] = [];
+
+  // Cell index followed by its unwrapped coordinates, per pending cell
+  const stack: number[] = [];
+  const coords = new Array<number>(dimensions).fill(0);
+  const unwrapped = new Array<number>(dimensions).fill(0);
+
+  for (let start = 0; start < cellCount; start++) {
+    if (cells[start] !== 1 || labels[start] !== 0) continue;
+
+    const label = objects.length + 1;
+    const min = new Array<number>(dimensions).fill(Infinity);
+    const max = new Array<number>(dimensions).fill(-Infinity);
+    const sum = new Array<number>(dimensions).fill(0);
+    let size = 0;
+
+    labels[start] = label;
+    stack.push(start, ...strides.map((stride, d) => Math.floor(start / stride) % gridSize[d]));
+    while (stack.length > 0) {
+      const top = stack.length - dimensions - 1;
+      const index = stack[top];
+      for (let d = 0; d < dimensions; d++) {
+        unwrapped[d] = stack[top + 1 + d];
+      }
+      stack.length = top;
+      size++;
+      let interior = true;
+      for (let d = 0; d < dimensions; d++) {
+        coords[d] = Math.floor(index / strides[d]) % gridSize[d];
+        interior = interior && coords[d] > 0 && coords[d] < gridSize[d] - 1;
+        min[d] = Math.min(min[d], unwrapped[d]);
+        max[d] = Math.max(max[d], unwrapped[d]);
+        sum[d] += unwrapped[d];
+      }
+
+      for (let n = 0; n < offsets.length; n++) {
+        const offset = offsets[n];
+        const neighbor = interior ? index + steps[n] : neighborIndex(coords, offset);
+        if (neighbor < 0 || cells[neighbor] !== 1 || labels[neighbor] !== 0) continue;
+
+        labels[neighbor] = label;
+        stack.push(neighbor);
+        for (let d = 0; d < dimensions; d++) {
+          stack.push(unwrapped[d] + offset[d]);
+        }
+      }
+    }
+
+    // Shift the box so that it starts within the grid
+    const shifts = min.map((low, d) => Math.floor(low / gridSize[d]) * gridSize[d]);
+    objects.push({
+      size,
+      min: min.map((low, d) => low - shifts[d]),
+      max: max.map((high, d) => high - shifts[d]),
+      centroid: sum.map((total, d) => {
+        const mean = total / size;
+        return ((mean % gridSize[d]) + gridSize[d]) % gridSize[d];
+      }),
+    });
+  }
+
+  return {
+    gridSize: [...gridSize],
+    wraps: boundaries.map(boundary => boundary.mode === 'periodic' || boundary.mode === 'twisted'),
+    labels,
+    objects,
+  };
+}
+
+export interface TrackedObject extends GridObject {
+  /** Stays with the object across generations; never reused within a run */
+  id: number;
+}
+
+/**
+ * Follows objects from one labeling to the next. Each object takes the id of
+ * the nearest previous object it could have come from, each previous id going
+ * to one object at most: when objects merge the result keeps the nearest id,
+ * and when one splits the nearest piece keeps it and the others get new ones.
+ */
+export class ObjectTracker {
+  private previous: TrackedObject[] = [];
+  private generation = 0;
+  private nextId = 1;
+
+  clear(): void {
+    this.previous = [];
+    this.generation = 0;
+    this.nextId = 1;
+  }
+
+  /**
+   * Assign ids to the objects of `analysis`, taken at `generation`. Nothing
+   * travels faster than `reach` cells (the neighborhood's reach) per generation.
+   */
+  track(analysis: ObjectLabels, generation: number, reach: number): TrackedObject[] {
+    const { gridSize, wraps, objects } = analysis;
+    const travel = reach * Math.max(0, generation - this.generation);
+
+    // Distance along an axis, the short way around when the axis wraps
+    const axisDistance = (a: number, b: number, d: number) => {
+      const delta = Math.abs(a - b);
+      return wraps[d] ? Math.min(delta, gridSize[d] - delta) : delta;
+    };
+    const extent = (object: GridObject, d: number) => object.max[d] - object.min[d] + 1;
+
+    // Candidate pairs: centroids close enough for one object to have become the other
+    const pairs: { current: number; previous: number; distance: number }[] = [];
+    objects.forEach((object, current) => {
+      this.previous.forEach((before, previous) => {
+        let distance = 0;
+        for (let d = 0; d < gridSize.length; d++) {
+          const delta = axisDistance(object.centroid[d], before.centroid[d], d);
+          if (delta > travel + (extent(object, d) + extent(before, d)) / 2) return;
+          distance += delta * delta;
+        }
+        pairs.push({ current, previous, distance });
+      });
+    });
+    pairs.sort((a, b) => a.distance - b.distance);
+
+    const ids = new Array<number>(objects.length).fill(0);
+    const taken = new Set<number>();
+    for (const { current, previous } of pairs) {
+      if (ids[current] !== 0 || taken.has(previous)) continue;
+      ids[current] = this.previous[previous].id;
+      taken.add(previous);
+    }
+
+    const tracked = objects.map((object, i) => ({
+      ...object,
+      id: ids[i] !== 0 ? ids[i] : this.nextId++,
+    }));
+    this.previous = tracked;
+    this.generation = generation;
+    return tracked;
+  }
+}
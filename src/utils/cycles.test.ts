@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { GLIDER_2D, createEngine, runDetector } from '../test/helpers';
+import { formatSpeed } from './cycles';
+
+describe('CycleDetector', () => {
+  it('recognizes a still life', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', [[0, 0], [1, 0], [0, 1], [1, 1]]);
+    const statuses = await runDetector(engine, 2);
+    expect(statuses[1]).toEqual({ kind: 'stillLife', since: 0 });
+  });
+
+  it('recognizes an oscillator', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', [[0, 0], [1, 0], [2, 0]]);
+    const statuses = await runDetector(engine, 4);
+    expect(statuses[2]).toEqual({ kind: 'oscillator', period: 2, since: 0 });
+  });
+
+  it('recognizes extinction', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', [[0, 0]]);
+    const statuses = await runDetector(engine, 2);
+    expect(statuses[1]).toEqual({ kind: 'extinct', since: 1 });
+  });
+
+  it('recognizes a spaceship', async () => {
+    const engine = await createEngine([16, 16], 'B3/S23', GLIDER_2D, [4, 4]);
+    const statuses = await runDetector(engine, 8);
+    expect(statuses[4]).toEqual({ kind: 'spaceship', period: 4, displacement: [1, 1], since: 0 });
+  });
+
+  it('keeps a spaceship once it has lapped the wrapping grid', async () => {
+    const engine = await createEngine([8, 8], 'B3/S23', GLIDER_2D, [2, 2]);
+    const statuses = await runDetector(engine, 80);
+    expect(statuses[4]).toMatchObject({ kind: 'spaceship', period: 4, displacement: [1, 1] });
+    for (const status of statuses.slice(4)) {
+      expect(status).toMatchObject({ kind: 'spaceship', period: 4, displacement: [1, 1] });
+    }
+  });
+});
+
+describe('formatSpeed', () => {
+  it('reduces the fraction of c', () => {
+    expect(formatSpeed([1, 1], 4)).toBe('c/4');
+    expect(formatSpeed([2, 0], 4)).toBe('c/2');
+    expect(formatSpeed([0, 2], 5)).toBe('2c/5');
+    expect(formatSpeed([-1, 0], 1)).toBe('c');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Recognizes when a run settles, from the state hash of each generation
+ * A deterministic run that returns to an earlier state repeats from there
+ * forever, so the first repeated hash gives the cycle's start and period.
+ * A shape that recurs at another position is reported as a spaceship until
+ * a shape recurs at another velocity (it may still crash into something), so
+ * that status is not final. Shapes split across a wrapping edge are new and
+ * do not count against it, nor does a wrapping grid bringing it back to an
+ * earlier state.
+ */
+
+import { EMPTY_STATE_HASH, STATE_HASH_CAPACITY, StateHash } from './stateHash';
+
+export type SettleStatus =
+  | { kind: 'running' }
+  | { kind: 'extinct'; since: number }
+  | { kind: 'stillLife'; since: number }
+  | { kind: 'oscillator'; period: number; since: number }
+  | { kind: 'spaceship'; period: number; displacement: number[]; since: number };
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Speed of a spaceship as a fraction of c (one cell per generation): the
+ * largest displacement along any axis over the period, e.g. "c/4" or "2c/5"
+ */
+export function formatSpeed(displacement: readonly number[], period: number): string {
+  const distance = Math.max(...displacement.map(Math.abs));
+  const divisor = gcd(distance, period);
+  const numerator = distance / divisor === 1 ? 'c' : `${distance / divisor}c`;
+  return period / divisor === 1 ? numerator : `${numerator}/${period / divisor}`;
+}
+
+export function formatSettleStatus(status: SettleStatus): string {
+  switch (status.kind) {
+    case 'running':
+      return 'running';
+    case 'extinct':
+      return 'extinct';
+    case 'stillLife':
+      return 'still life';
+    case 'oscillator':
+      return `period-${status.period} oscillator`;
+    case 'spaceship':
+      return `${formatSpeed(status.displacement, status.period)} spaceship, ` +
+        `(${status.displacement.join(', ')}) per ${status.period}`;
+  }
+}
+
+interface Sighting {
+  generation: number;
+  origin: number[];
+}
+
+export class CycleDetector {
+  /** Generation each remembered state was seen at */
+  private states = new Map<string, number>();
+  /** Latest generation and position each remembered shape was seen at */
+  private shapes = new Map<string, Sighting>();
+  /** Remembered hashes in the order they were added, as a ring */
+  private order: StateHash[] = [];
+  private added = 0;
+  private lastGeneration = 0;
+  private status: SettleStatus = { kind: 'running' };
+
+  /**
+   * @param gridSize Displacements are taken the short way around each axis
+   * @param capacity Generations remembered, and so the longest period recognized
+   */
+  constructor(private gridSize: readonly number[], private capacity = STATE_HASH_CAPACITY) {}
+
+  clear(): void {
+    this.states.clear();
+    this.shapes.clear();
+    this.order = [];
+    this.added = 0;
+    this.status = { kind: 'running' };
+  }
+
+  getStatus(): SettleStatus {
+    return this.status;
+  }
+
+  /**
+   * Add the hash of a generation. Generations are added in order; after a
+   * gap (hashes dropped by the engine) detection starts over.
+   */
+  add(generation: number, hash: StateHash): SettleStatus {
+    if (this.added > 0 && generation !== this.lastGeneration + 1) {
+      this.clear();
+    }
+    this.lastGeneration = generation;
+    const status = this.status;
+    if (status.kind !== 'running' && status.kind !== 'spaceship') return status;
+
+    if (hash.state === EMPTY_STATE_HASH) {
+      this.status = { kind: 'extinct', since: generation };
+      return this.status;
+    }
+
+    const sighting = this.shapes.get(hash.shape);
+    const elapsed = sighting ? generation - sighting.generation : 0;
+    const displacement = sighting
+      ? hash.origin.map((coord, d) => this.shortest(coord - sighting.origin[d], d))
+      : [];
+
+    if (status.kind === 'spaceship') {
+      // Compared around each axis, so that a shape back after whole laps still counts
+      const consistent = !sighting || hash.origin.every((coord, d) => {
+        const expected = status.displacement[d] * elapsed / status.period;
+        return Number.isInteger(expected) && this.shortest(coord - sighting.origin[d] - expected, d) === 0;
+      });
+      if (consistent) {
+        // Starting out split across an edge, the first sighting may span several periods
+        if (sighting && elapsed < status.period) {
+          this.status = { ...status, period: elapsed, displacement };
+        }
+        this.remember(generation, hash);
+        return this.status;
+      }
+      this.status = { kind: 'running' };
+    }
+
+    const previous = this.states.get(hash.state);
+    if (previous === generation - 1) {
+      this.status = { kind: 'stillLife', since: previous };
+      return this.status;
+    } else if (previous !== undefined) {
+      this.status = { kind: 'oscillator', period: generation - previous, since: previous };
+      return this.status;
+    } else if (sighting && displacement.some(delta => delta !== 0)) {
+      this.status = { kind: 'spaceship', period: elapsed, displacement, since: sighting.generation };
+    }
+
+    this.remember(generation, hash);
+    return this.status;
+  }
+
+  /** Offset along an axis taken the short way around, in (-size/2, size/2] */
+  private shortest(delta: number, axis: number): number {
+    const size = this.gridSize[axis];
+    const wrapped = ((delta % size) + size) % size;
+    return wrapped > size / 2 ? wrapped - size : wrapped;
+  }
+
+  private remember(generation: number, hash: StateHash): void {
+    // Forget the oldest generation once the ring is full, unless its hashes were seen again since
+    const slot = this.added % this.capacity;
+    const oldest = this.order[slot];
+    if (oldest !== undefined) {
+      const expired = generation - this.capacity;
+      if (this.states.get(oldest.state) === expired) {
+        this.states.delete(oldest.state);
+      }
+      if (this.shapes.get(oldest.shape)?.generation === expired) {
+        this.shapes.delete(oldest.shape);
+      }
+    }
+    this.order[slot] = hash;
+    this.states.set(hash.state, generation);
+    this.shapes.set(hash.shape, { generation, origin: hash.origin });
+    this.added++;
+  }
+}
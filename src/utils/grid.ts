@@ -0,0 +1,77 @@
+/**
+ * N-dimensional grid helpers shared by the engines, patterns and renderer
+ * Cells are stored with the first axis varying fastest (x, then y, z, w, v)
+ */
+
+import { PackedCells, unpackCells } from './packing';
+
+export const AXIS_NAMES = ['X', 'Y', 'Z', 'W', 'V'];
+
+export function getCellCount(gridSize: readonly number[]): number {
+  return gridSize.reduce((total, size) => total * size, 1);
+}
+
+export function getStrides(gridSize: readonly number[]): number[] {
+  const strides: number[] = [];
+  let stride = 1;
+  for (const size of gridSize) {
+    strides.push(stride);
+    stride *= size;
+  }
+  return strides;
+}
+
+export function coordsToIndex(coords: readonly number[], gridSize: readonly number[]): number {
+  let index = 0;
+  let stride = 1;
+  for (let d = 0; d < gridSize.length; d++) {
+    index += coords[d] * stride;
+    stride *= gridSize[d];
+  }
+  return index;
+}
+
+export function indexToCoords(index: number, gridSize: readonly number[]): number[] {
+  const coords: number[] = [];
+  let rest = index;
+  for (const size of gridSize) {
+    coords.push(rest % size);
+    rest = Math.floor(rest / size);
+  }
+  return coords;
+}
+
+/**
+ * Size of the 3D volume shown by the renderer. 2D grids are shown as a
+ * single layer, higher dimensions as a 3D slice through the extra axes.
+ */
+export function get3DViewSize(gridSize: readonly number[]): [number, number, number] {
+  return [gridSize[0], gridSize[1], gridSize[2] ?? 1];
+}
+
+/**
+ * Index of the first cell of the 3D slice at the given coordinates of the
+ * axes beyond Z. The slice is contiguous, so only its start depends on them.
+ */
+export function getSliceStart(gridSize: readonly number[], sliceCoords: readonly number[] = []): number {
+  const strides = getStrides(gridSize);
+  let start = 0;
+  for (let d = 3; d < gridSize.length; d++) {
+    const coord = Math.max(0, Math.min(sliceCoords[d - 3] ?? 0, gridSize[d] - 1));
+    start += coord * strides[d];
+  }
+  return start;
+}
+
+/**
+ * Unpack the 3D slice at the given coordinates of the axes beyond Z
+ * (W for 4D, W and V for 5D). Grids with three or fewer axes are unpacked whole.
+ */
+export function extract3DSlice(
+  state: PackedCells,
+  gridSize: readonly number[],
+  sliceCoords: readonly number[] = []
+): Uint8Array {
+  const sliceSize = getCellCount(get3DViewSize(gridSize));
+  return unpackCells(state, getSliceStart(gridSize, sliceCoords), sliceSize);
+}
@@ -0,0 +1,106 @@
+/**
+ * Compact list of the non-dead cells in the rendered 3D view (plus, while
+ * activity is tracked, the dead cells with heat for the heatmap)
+ * The GPU engine builds it in compact-nd.wgsl; collectLiveCells is the CPU
+ * mirror, including the cell colors
+ */
+
+/** Upper bound on listed (and drawn) cells; large views would otherwise allocate per-cell buffers */
+export const MAX_LIVE_CELLS = 1 << 20;
+
+/**
+ * Floats per entry: x, y, z (in cells, within the 3D view), r, g, b, the
+ * cell state, its age (generations survived, at most MAX_AGE) and its heat
+ * (0 unless activity is tracked). Dead cells have color 0.
+ */
+export const LIVE_CELL_STRIDE = 9;
+
+/** Least heat for a dead cell to be listed */
+export const MIN_HEAT = 0.05;
+
+/** Ages saturate here (MAX_AGE in the compute shaders) */
+export const MAX_AGE = 255;
+
+export interface LiveCells {
+  count: number;
+  /** `count` entries of LIVE_CELL_STRIDE floats */
+  data: Float32Array;
+}
+
+function hueToRgb(p: number, q: number, t: number): number {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * 6 * (2 / 3 - t);
+  return p;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const q = l <= 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return [hueToRgb(p, q, h + 1 / 3), hueToRgb(p, q, h), hueToRgb(p, q, h - 1 / 3)];
+}
+
+/**
+ * Live cells are colored by position; dying Generations states fade from
+ * orange to dark red as they approach death. Matches cellColor in compact-nd.wgsl.
+ */
+export function getCellColor(
+  x: number,
+  y: number,
+  z: number,
+  state: number,
+  viewSize: readonly number[],
+  states: number
+): [number, number, number] {
+  if (state === 1) {
+    const hue = (x / viewSize[0] + y / viewSize[1] + z / viewSize[2]) / 3;
+    return hslToRgb(hue * 0.3 + 0.5, 0.8, 0.6);
+  }
+
+  const decay = (state - 1) / Math.max(1, states - 1);
+  return hslToRgb(0.08 * (1 - decay), 0.9, 0.55 - 0.3 * decay);
+}
+
+/**
+ * Distinct color per tracked object id; successive ids step around the hue
+ * circle by the golden ratio so neighbors in id stay apart in color
+ */
+export function getObjectColor(id: number): [number, number, number] {
+  const hue = (id * 0.6180339887) % 1;
+  return hslToRgb(hue, 0.75, 0.55 + 0.1 * ((id >> 3) % 2));
+}
+
+/**
+ * List the non-dead cells of an unpacked 3D view (x fastest) with their
+ * ages, and with `heat` also the dead cells with at least MIN_HEAT, keeping
+ * at most MAX_LIVE_CELLS of them
+ */
+export function collectLiveCells(
+  cells: Uint8Array,
+  ages: Uint8Array,
+  viewSize: readonly [number, number, number],
+  states: number,
+  heat: Float32Array | null = null
+): LiveCells {
+  const entries: number[] = [];
+  let count = 0;
+  let index = 0;
+
+  for (let z = 0; z < viewSize[2]; z++) {
+    for (let y = 0; y < viewSize[1]; y++) {
+      for (let x = 0; x < viewSize[0]; x++, index++) {
+        const state = cells[index];
+        const cellHeat = heat ? heat[index] : 0;
+        if ((state !== 0 || cellHeat >= MIN_HEAT) && count < MAX_LIVE_CELLS) {
+          const color = state !== 0 ? getCellColor(x, y, z, state, viewSize, states) : [0, 0, 0];
+          entries.push(x, y, z, ...color, state, ages[index], cellHeat);
+          count++;
+        }
+      }
+    }
+  }
+
+  return { count, data: Float32Array.from(entries) };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countCells,
+  createPackedCells,
+  getBitsPerCell,
+  getPackedCell,
+  packCells,
+  repackCells,
+  setPackedCell,
+  unpackCells,
+} from './packing';
+
+describe('packing', () => {
+  it('picks the narrowest cell width holding every state', () => {
+    expect([2, 3, 4, 5, 16, 17, 256].map(getBitsPerCell)).toEqual([1, 2, 2, 4, 4, 8, 8]);
+  });
+
+  it.each([1, 2, 4, 8])('keeps neighboring cells apart at %i bits per cell', (bits) => {
+    const count = 100;
+    const packed = createPackedCells(count, bits);
+    const values = Array.from({ length: count }, (_, i) => (i * 7) % (1 << bits));
+    values.forEach((value, i) => setPackedCell(packed, i, value));
+    values.forEach((value, i) => expect(getPackedCell(packed, i)).toBe(value));
+    expect(Array.from(unpackCells(packed, 0, count))).toEqual(values);
+  });
+
+  it('stores values that do not fit as dead', () => {
+    const packed = packCells([1, 2, 3, 4], 2);
+    expect(Array.from(unpackCells(packed, 0, 4))).toEqual([1, 2, 3, 0]);
+  });
+
+  it('repacks and counts', () => {
+    const packed = packCells([1, 0, 2, 1, 1], 2);
+    const narrow = repackCells(packed, 5, 1);
+    expect(Array.from(unpackCells(narrow, 0, 5))).toEqual([1, 0, 0, 1, 1]);
+    expect(countCells(narrow, 5)).toBe(3);
+    expect(countCells(packed, 5, 2)).toBe(1);
+  });
+});
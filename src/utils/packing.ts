@@ -0,0 +1,111 @@
+/**
+ * Bit-packed cell storage
+ *
+ * Cells are packed into u32 words with a power-of-two number of bits per
+ * cell, so no cell straddles a word: 1 bit (32 cells per word) for plain
+ * birth/survival rules, 2, 4 or 8 bits for Generations rules. Cell i lives in
+ * word i / cellsPerWord at bit (i % cellsPerWord) * bitsPerCell.
+ */
+
+export interface PackedCells {
+  /** Bits per cell: 1, 2, 4 or 8 */
+  bitsPerCell: number;
+  data: Uint32Array;
+}
+
+/** Smallest supported cell width that can hold state values 0..states-1 */
+export function getBitsPerCell(states: number): number {
+  let bits = 1;
+  while (bits < 8 && (1 << bits) < states) {
+    bits *= 2;
+  }
+  return bits;
+}
+
+export function getCellsPerWord(bitsPerCell: number): number {
+  return 32 / bitsPerCell;
+}
+
+export function getPackedWordCount(cellCount: number, bitsPerCell: number): number {
+  return Math.ceil(cellCount / getCellsPerWord(bitsPerCell));
+}
+
+export function createPackedCells(cellCount: number, bitsPerCell: number): PackedCells {
+  return { bitsPerCell, data: new Uint32Array(getPackedWordCount(cellCount, bitsPerCell)) };
+}
+
+export function getPackedCell(packed: PackedCells, index: number): number {
+  const { bitsPerCell, data } = packed;
+  const cellsPerWord = 32 / bitsPerCell;
+  const shift = (index % cellsPerWord) * bitsPerCell;
+  return (data[Math.floor(index / cellsPerWord)] >>> shift) & ((1 << bitsPerCell) - 1);
+}
+
+export function setPackedCell(packed: PackedCells, index: number, value: number): void {
+  const { bitsPerCell, data } = packed;
+  const cellsPerWord = 32 / bitsPerCell;
+  const word = Math.floor(index / cellsPerWord);
+  const shift = (index % cellsPerWord) * bitsPerCell;
+  const mask = ((1 << bitsPerCell) - 1) << shift;
+  data[word] = (data[word] & ~mask) | ((value << shift) & mask);
+}
+
+/**
+ * Pack one value per cell. Values that do not fit are stored as dead.
+ */
+export function packCells(cells: ArrayLike<number>, bitsPerCell: number): PackedCells {
+  const packed = createPackedCells(cells.length, bitsPerCell);
+  const limit = 1 << bitsPerCell;
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i] !== 0 && cells[i] < limit) {
+      setPackedCell(packed, i, cells[i]);
+    }
+  }
+  return packed;
+}
+
+/**
+ * Unpack `count` cells starting at `start` into one byte per cell
+ */
+export function unpackCells(packed: PackedCells, start: number, count: number): Uint8Array {
+  const cells = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    cells[i] = getPackedCell(packed, start + i);
+  }
+  return cells;
+}
+
+/**
+ * Convert packed cells to another cell width (values that do not fit become dead)
+ */
+export function repackCells(packed: PackedCells, cellCount: number, bitsPerCell: number): PackedCells {
+  if (packed.bitsPerCell === bitsPerCell) {
+    return packed;
+  }
+  return packCells(unpackCells(packed, 0, cellCount), bitsPerCell);
+}
+
+/**
+ * Count the cells holding `value` (1 = alive by default)
+ */
+export function countCells(packed: PackedCells, cellCount: number, value = 1): number {
+  let count = 0;
+
+  if (packed.bitsPerCell === 1 && value === 1) {
+    // Popcount whole words; bits past cellCount are always zero
+    for (let i = 0; i < packed.data.length; i++) {
+      let word = packed.data[i];
+      word = word - ((word >>> 1) & 0x55555555);
+      word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+      count += Math.imul((word + (word >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+    }
+    return count;
+  }
+
+  for (let i = 0; i < cellCount; i++) {
+    if (getPackedCell(packed, i) === value) {
+      count++;
+    }
+  }
+  return count;
+}
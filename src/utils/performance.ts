@@ -90,3 +90,19 @@ export class MemoryMonitor {
     return null;
   }
 }
+
+/**
+ * Resolve in a later task, so that input and rendering get a turn. Long
+ * loops over the CPU engine, whose promises settle at once, await this to
+ * stay responsive. A message is not throttled the way a zero timeout is.
+ */
+export function nextTask(): Promise<void> {
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => {
+      channel.port1.close();
+      resolve();
+    };
+    channel.port2.postMessage(null);
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Seeded pseudo-random numbers, so that random soups and generated patterns
+ * can be reproduced from their seed
+ */
+
+/** Seeds are unsigned 32-bit integers */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Mulberry32 generator: returns floats in [0, 1), the same sequence for the
+ * same seed on every platform
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh seed for a new soup. This is the only unseeded source; everything
+ * random is derived from the seed it returns.
+ */
+export function randomSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+export function isValidSeed(seed: unknown): seed is number {
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+}
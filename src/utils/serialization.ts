@@ -2,28 +2,40 @@
  * State serialization utilities for save/load functionality
  */
 
+import { formatRule, rulesFromRanges } from '../engine/rules';
+import { MOORE_NEIGHBORHOOD, Neighborhood, cloneNeighborhood } from '../engine/neighborhoods';
+import { AxisBoundary, resolveBoundaries } from '../engine/boundaries';
+import { PackedCells, getBitsPerCell, packCells } from './packing';
+import { SoupParams, validateSoup } from './soup';
+
 export interface SerializedState {
   version: number;
-  dimensions: 3 | 4;
+  dimensions: number;
   gridSize: number[];
-  data: Uint32Array;
-  rules: {
-    surviveMin: number;
-    surviveMax: number;
-    birthMin: number;
-    birthMax: number;
-  };
+  /** Bit-packed cells */
+  data: PackedCells;
+  /** Rule string, e.g. "B6/S5-7" */
+  rules: string;
+  /** Neighborhood the rule string is parsed against (needed for custom offsets) */
+  neighborhood: Neighborhood;
+  /** Boundary condition per axis */
+  boundaries: AxisBoundary[];
+  /** Soup the run started from, absent for patterns and drawn states */
+  soup?: SoupParams;
   timestamp: number;
 }
 
 export class StateSerializer {
-  private static VERSION = 1;
+  private static VERSION = 3;
 
   static serialize(
-    dimensions: 3 | 4,
+    dimensions: number,
     gridSize: number[],
-    data: Uint32Array,
-    rules: { surviveMin: number; surviveMax: number; birthMin: number; birthMax: number }
+    data: PackedCells,
+    rules: string,
+    neighborhood: Neighborhood,
+    boundaries: AxisBoundary[],
+    soup?: SoupParams
   ): string {
     const state: SerializedState = {
       version: this.VERSION,
@@ -31,6 +43,9 @@ export class StateSerializer {
       gridSize,
       data,
       rules,
+      neighborhood,
+      boundaries,
+      soup,
       timestamp: Date.now(),
     };
 
@@ -39,8 +54,12 @@ export class StateSerializer {
       version: state.version,
       dimensions: state.dimensions,
       gridSize: state.gridSize,
-      data: Array.from(state.data), // Convert to regular array for JSON
+      bitsPerCell: state.data.bitsPerCell,
+      data: Array.from(state.data.data), // Convert to regular array for JSON
       rules: state.rules,
+      neighborhood: state.neighborhood,
+      boundaries: state.boundaries,
+      soup: state.soup,
       timestamp: state.timestamp,
     };
 
@@ -50,26 +69,58 @@ export class StateSerializer {
   static deserialize(serialized: string): SerializedState {
     const jsonObj = JSON.parse(serialized);
 
-    if (jsonObj.version !== this.VERSION) {
+    let rules: string;
+    let data: PackedCells;
+    if (jsonObj.version === this.VERSION) {
+      rules = jsonObj.rules;
+      data = { bitsPerCell: jsonObj.bitsPerCell, data: new Uint32Array(jsonObj.data) };
+    } else if (jsonObj.version === 2) {
+      rules = jsonObj.rules;
+      data = this.packLegacyData(jsonObj.data);
+    } else if (jsonObj.version === 1) {
+      // Version 1 stored survive/birth min-max bounds
+      const { surviveMin, surviveMax, birthMin, birthMax } = jsonObj.rules;
+      rules = formatRule(
+        rulesFromRanges(surviveMin, surviveMax, birthMin, birthMax),
+        jsonObj.dimensions
+      );
+      data = this.packLegacyData(jsonObj.data);
+    } else {
       throw new Error(`Unsupported version: ${jsonObj.version}`);
     }
 
     return {
-      version: jsonObj.version,
+      version: this.VERSION,
       dimensions: jsonObj.dimensions,
       gridSize: jsonObj.gridSize,
-      data: new Uint32Array(jsonObj.data),
-      rules: jsonObj.rules,
+      data,
+      rules,
+      // States saved before neighborhoods were selectable use Moore
+      neighborhood: cloneNeighborhood(jsonObj.neighborhood ?? MOORE_NEIGHBORHOOD),
+      // Older states have no boundaries and were always toroidal
+      boundaries: resolveBoundaries(jsonObj.boundaries, jsonObj.dimensions),
+      soup: jsonObj.soup === undefined ? undefined : validateSoup(jsonObj.soup),
       timestamp: jsonObj.timestamp,
     };
   }
 
+  /**
+   * Versions 1 and 2 stored one u32 per cell
+   */
+  private static packLegacyData(cells: number[]): PackedCells {
+    const maxState = cells.reduce((max, cell) => Math.max(max, cell), 0);
+    return packCells(cells, getBitsPerCell(maxState + 1));
+  }
+
   static downloadState(state: SerializedState, filename?: string): void {
     const json = this.serialize(
       state.dimensions,
       state.gridSize,
       state.data,
-      state.rules
+      state.rules,
+      state.neighborhood,
+      state.boundaries,
+      state.soup
     );
 
     const blob = new Blob([json], { type: 'application/json' });
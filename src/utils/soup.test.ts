@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { CPUSimulation } from '../engine/CPUSimulation';
+import { parseRule } from '../engine/rules';
+import { getCellCount, indexToCoords } from './grid';
+import { PackedCells, countCells, getPackedCell } from './packing';
+import { SoupParams, SoupSymmetry, createSoup, getSoupRegion } from './soup';
+
+const SOUP: SoupParams = { seed: 1234, density: 0.4, region: 1, symmetry: 'none' };
+
+/**
+ * A wrapping CPU engine started from a soup
+ */
+async function createSoupEngine(gridSize: number[], rule: string, soup: SoupParams): Promise<CPUSimulation> {
+  const engine = new CPUSimulation({ gridSize, rules: parseRule(rule, gridSize.length) });
+  await engine.init(createSoup(gridSize, soup));
+  return engine;
+}
+
+/** Where a symmetry map takes the cell at `coords`, given the soup region */
+type RegionMap = (coords: number[], start: number[], size: number[]) => number[];
+
+function mirror(...axes: number[]): RegionMap {
+  return (coords, start, size) =>
+    coords.map((coord, d) => (axes.includes(d) ? 2 * start[d] + size[d] - 1 - coord : coord));
+}
+
+/** Quarter turn in the plane of axes a and b: (a, b) -> (-b, a) */
+function quarterTurn(a: number, b: number): RegionMap {
+  return (coords, start, size) => {
+    const image = [...coords];
+    image[a] = start[a] + size[b] - 1 - (coords[b] - start[b]);
+    image[b] = start[b] + (coords[a] - start[a]);
+    return image;
+  };
+}
+
+function liveCoords(state: PackedCells, gridSize: number[]): number[][] {
+  const coords: number[][] = [];
+  for (let i = 0; i < getCellCount(gridSize); i++) {
+    if (getPackedCell(state, i)) coords.push(indexToCoords(i, gridSize));
+  }
+  return coords;
+}
+
+describe('createSoup', () => {
+  it('rolls the same run from the same seed', async () => {
+    const [first, second, other] = await Promise.all([
+      createSoupEngine([16, 16], 'B3/S23', SOUP),
+      createSoupEngine([16, 16], 'B3/S23', SOUP),
+      createSoupEngine([16, 16], 'B3/S23', { ...SOUP, seed: 4321 }),
+    ]);
+    expect(await first.getState()).toEqual(await second.getState());
+    expect(await first.getState()).not.toEqual(await other.getState());
+
+    first.stepMany(10);
+    second.stepMany(10);
+    expect(await first.getState()).toEqual(await second.getState());
+  });
+
+  it('rolls about the requested density', () => {
+    const live = countCells(createSoup([32, 32], SOUP), 32 * 32);
+    expect(live / (32 * 32)).toBeGreaterThan(0.3);
+    expect(live / (32 * 32)).toBeLessThan(0.5);
+  });
+
+  it('keeps to the centered region', async () => {
+    const engine = await createSoupEngine([16, 12, 8], 'B6/S5-7', { ...SOUP, region: 0.5 });
+    const cells = liveCoords(await engine.getState(), [16, 12, 8]);
+    expect(cells.length).toBeGreaterThan(0);
+    for (const coords of cells) {
+      expect(coords[0]).toBeGreaterThanOrEqual(4);
+      expect(coords[0]).toBeLessThan(12);
+      expect(coords[1]).toBeGreaterThanOrEqual(3);
+      expect(coords[1]).toBeLessThan(9);
+      expect(coords[2]).toBeGreaterThanOrEqual(2);
+      expect(coords[2]).toBeLessThan(6);
+    }
+  });
+});
+
+describe('symmetric soups', () => {
+  // Regions as rolled: rotations shorten the turned axes to the shorter one
+  const cases: { symmetry: SoupSymmetry; gridSize: number[]; start: number[]; size: number[]; maps: RegionMap[] }[] = [
+    { symmetry: 'mirrorX', gridSize: [16, 10], start: [0, 0], size: [16, 10], maps: [mirror(0)] },
+    { symmetry: 'mirrorXY', gridSize: [16, 10], start: [0, 0], size: [16, 10], maps: [mirror(0), mirror(1)] },
+    { symmetry: 'rotate180Z', gridSize: [16, 10], start: [0, 0], size: [16, 10], maps: [mirror(0, 1)] },
+    { symmetry: 'rotate90Z', gridSize: [16, 10], start: [3, 0], size: [10, 10], maps: [quarterTurn(0, 1)] },
+    { symmetry: 'inversion', gridSize: [10, 8, 6], start: [0, 0, 0], size: [10, 8, 6], maps: [mirror(0, 1, 2)] },
+    {
+      symmetry: 'mirrorXYZ',
+      gridSize: [10, 8, 6],
+      start: [0, 0, 0],
+      size: [10, 8, 6],
+      maps: [mirror(0), mirror(1), mirror(2)],
+    },
+    {
+      symmetry: 'mirrorXYZW',
+      gridSize: [6, 6, 6, 6],
+      start: [0, 0, 0, 0],
+      size: [6, 6, 6, 6],
+      maps: [mirror(0), mirror(1), mirror(2), mirror(3)],
+    },
+    { symmetry: 'rotate180ZW', gridSize: [6, 6, 8, 6], start: [0, 0, 0, 0], size: [6, 6, 8, 6], maps: [mirror(2, 3)] },
+    { symmetry: 'rotate90ZW', gridSize: [6, 6, 8, 6], start: [0, 0, 1, 0], size: [6, 6, 6, 6], maps: [quarterTurn(2, 3)] },
+  ];
+
+  it.each(cases)('rolls a soup $symmetry leaves unchanged', ({ symmetry, gridSize, start, size, maps }) => {
+    const soup = createSoup(gridSize, { ...SOUP, symmetry });
+    const cells = liveCoords(soup, gridSize);
+    const live = new Set(cells.map(coords => coords.join()));
+    expect(cells.length).toBeGreaterThan(0);
+    for (const map of maps) {
+      for (const coords of cells) {
+        expect(coords.every((coord, d) => coord >= start[d] && coord < start[d] + size[d])).toBe(true);
+        expect(live.has(map(coords, start, size).join())).toBe(true);
+      }
+    }
+  });
+
+  it.each([
+    { symmetry: 'mirrorXY', gridSize: [16, 16], rule: 'B3/S23', maps: [mirror(0), mirror(1)] },
+    { symmetry: 'rotate90Z', gridSize: [16, 16], rule: 'B3/S23', maps: [quarterTurn(0, 1)] },
+    { symmetry: 'inversion', gridSize: [8, 8, 8], rule: 'B6/S5-7', maps: [mirror(0, 1, 2)] },
+    { symmetry: 'rotate90ZW', gridSize: [6, 6, 6, 6], rule: 'B6-9/S7-10', maps: [quarterTurn(2, 3)] },
+  ] as { symmetry: SoupSymmetry; gridSize: number[]; rule: string; maps: RegionMap[] }[])(
+    'keeps $symmetry while the engine steps',
+    async ({ symmetry, gridSize, rule, maps }) => {
+      const engine = await createSoupEngine(gridSize, rule, { ...SOUP, region: 0.75, symmetry });
+      engine.stepMany(4);
+      const cells = liveCoords(await engine.getState(), gridSize);
+      const live = new Set(cells.map(coords => coords.join()));
+      expect(cells.length).toBeGreaterThan(0);
+      // The maps about the region are symmetries of the whole wrapping grid
+      const { start, size } = getSoupRegion(gridSize, 0.75);
+      for (const map of maps) {
+        for (const coords of cells) {
+          const image = map(coords, start, size).map((coord, d) => (coord + gridSize[d]) % gridSize[d]);
+          expect(live.has(image.join())).toBe(true);
+        }
+      }
+    }
+  );
+});
@@ -0,0 +1,255 @@
+/**
+ * Seeded random soups. A soup is fully described by its SoupParams, so the
+ * same parameters always produce the same grid.
+ */
+
+import { getCellCount, getStrides } from './grid';
+import { PackedCells, createPackedCells, getPackedCell, setPackedCell } from './packing';
+import { createRandom, isValidSeed } from './random';
+
+export type SoupSymmetry =
+  | 'none'
+  | 'mirrorX'
+  | 'mirrorXY'
+  | 'mirrorXYZ'
+  | 'mirrorXYZW'
+  | 'rotate180Z'
+  | 'rotate90Z'
+  | 'rotate180ZW'
+  | 'rotate90ZW'
+  | 'inversion';
+
+export interface SoupParams {
+  /** Seed of the generator the cells are rolled with */
+  seed: number;
+  /** Fraction of the cells in the region that start alive */
+  density: number;
+  /** Fraction of every axis covered by the soup, centered; 1 fills the grid */
+  region: number;
+  symmetry: SoupSymmetry;
+}
+
+/**
+ * Signed axis permutation within the soup region: the image of a cell takes
+ * its coordinate on axis d from axis `from[d]`, mirrored where `flip[d]` is set
+ */
+interface AxisMap {
+  from: number[];
+  flip: boolean[];
+}
+
+function identityMap(dimensions: number): AxisMap {
+  return {
+    from: Array.from({ length: dimensions }, (_, d) => d),
+    flip: new Array<boolean>(dimensions).fill(false),
+  };
+}
+
+function mirrorMap(dimensions: number, axes: number[]): AxisMap {
+  const map = identityMap(dimensions);
+  for (const axis of axes) {
+    map.flip[axis] = true;
+  }
+  return map;
+}
+
+/** Quarter turn in the plane of axes a and b: (a, b) -> (-b, a) */
+function quarterTurnMap(dimensions: number, a: number, b: number): AxisMap {
+  const map = identityMap(dimensions);
+  map.from[a] = b;
+  map.flip[a] = true;
+  map.from[b] = a;
+  return map;
+}
+
+/** `first` applied after `second` */
+function composeMaps(first: AxisMap, second: AxisMap): AxisMap {
+  return {
+    from: first.from.map(axis => second.from[axis]),
+    flip: first.flip.map((flip, d) => flip !== second.flip[first.from[d]]),
+  };
+}
+
+interface SymmetryInfo {
+  label: string;
+  /** Fewest grid axes the symmetry needs */
+  minDimensions: number;
+  /** Maps generating the symmetry group */
+  generators: (dimensions: number) => AxisMap[];
+}
+
+export const SOUP_SYMMETRIES: Record<SoupSymmetry, SymmetryInfo> = {
+  none: { label: 'None', minDimensions: 2, generators: () => [] },
+  mirrorX: {
+    label: 'Mirror X',
+    minDimensions: 2,
+    generators: n => [mirrorMap(n, [0])],
+  },
+  mirrorXY: {
+    label: 'Mirror X, Y',
+    minDimensions: 2,
+    generators: n => [mirrorMap(n, [0]), mirrorMap(n, [1])],
+  },
+  mirrorXYZ: {
+    label: 'Mirror X, Y, Z',
+    minDimensions: 3,
+    generators: n => [0, 1, 2].map(axis => mirrorMap(n, [axis])),
+  },
+  mirrorXYZW: {
+    label: 'Mirror X, Y, Z, W',
+    minDimensions: 4,
+    generators: n => [0, 1, 2, 3].map(axis => mirrorMap(n, [axis])),
+  },
+  rotate180Z: {
+    label: '180° rotation about Z',
+    minDimensions: 2,
+    generators: n => [mirrorMap(n, [0, 1])],
+  },
+  rotate90Z: {
+    label: '90° rotation about Z',
+    minDimensions: 2,
+    generators: n => [quarterTurnMap(n, 0, 1)],
+  },
+  rotate180ZW: {
+    label: '180° rotation in Z-W',
+    minDimensions: 4,
+    generators: n => [mirrorMap(n, [2, 3])],
+  },
+  rotate90ZW: {
+    label: '90° rotation in Z-W',
+    minDimensions: 4,
+    generators: n => [quarterTurnMap(n, 2, 3)],
+  },
+  inversion: {
+    label: 'Point inversion',
+    minDimensions: 2,
+    generators: n => [mirrorMap(n, Array.from({ length: n }, (_, d) => d))],
+  },
+};
+
+/** Pattern dropdown entries for symmetric soups are this prefix plus the symmetry */
+export const SOUP_PATTERN_PREFIX = 'soup:';
+
+export function getSoupSymmetries(dimensions: number): SoupSymmetry[] {
+  return (Object.keys(SOUP_SYMMETRIES) as SoupSymmetry[])
+    .filter(symmetry => SOUP_SYMMETRIES[symmetry].minDimensions <= dimensions);
+}
+
+/**
+ * Every map of the group generated by the symmetry, the identity included
+ */
+function getSymmetryGroup(symmetry: SoupSymmetry, dimensions: number): AxisMap[] {
+  const { minDimensions, generators } = SOUP_SYMMETRIES[symmetry];
+  if (dimensions < minDimensions) {
+    throw new Error(`Symmetry "${symmetry}" needs at least ${minDimensions} dimensions`);
+  }
+
+  const group = [identityMap(dimensions)];
+  const keys = new Set(group.map(map => JSON.stringify(map)));
+  for (let i = 0; i < group.length; i++) {
+    for (const generator of generators(dimensions)) {
+      const map = composeMaps(generator, group[i]);
+      const key = JSON.stringify(map);
+      if (!keys.has(key)) {
+        keys.add(key);
+        group.push(map);
+      }
+    }
+  }
+  return group;
+}
+
+/**
+ * Box the soup is rolled in: `size` cells per axis starting at `start`
+ */
+export function getSoupRegion(
+  gridSize: readonly number[],
+  region: number
+): { start: number[]; size: number[] } {
+  const size = gridSize.map(extent => Math.max(1, Math.min(Math.round(extent * region), extent)));
+  const start = gridSize.map((extent, d) => Math.floor((extent - size[d]) / 2));
+  return { start, size };
+}
+
+/**
+ * Roll a soup with one bit per cell. With a symmetry, only the first cell of
+ * each orbit under the symmetry group is rolled and the rest copy it.
+ */
+export function createSoup(gridSize: readonly number[], soup: SoupParams): PackedCells {
+  const dimensions = gridSize.length;
+  const grid = createPackedCells(getCellCount(gridSize), 1);
+  const random = createRandom(soup.seed);
+  const group = getSymmetryGroup(soup.symmetry, dimensions);
+  const { size } = getSoupRegion(gridSize, soup.region);
+
+  // Rotations swap axes, so the region must be as long on both of them
+  for (const map of group) {
+    map.from.forEach((axis, d) => {
+      size[d] = size[axis] = Math.min(size[d], size[axis]);
+    });
+  }
+  const start = gridSize.map((extent, d) => Math.floor((extent - size[d]) / 2));
+  const strides = getStrides(gridSize);
+
+  // offsets[g][e][v]: index contribution of region coordinate v on axis e under map g
+  const offsets = group.map(({ from, flip }) => size.map((_, e) => {
+    const d = from.indexOf(e);
+    return Int32Array.from({ length: size[e] }, (_, v) =>
+      (start[d] + (flip[d] ? size[d] - 1 - v : v)) * strides[d]
+    );
+  }));
+  const local = size.map(() => 0);
+  const regionCells = getCellCount(size);
+
+  for (let i = 0; i < regionCells; i++) {
+    let index = 0;
+    for (let e = 0; e < dimensions; e++) {
+      index += offsets[0][e][local[e]];
+    }
+
+    // Orbit members with lower indices are already set; the first cell of
+    // each orbit is rolled
+    let source = index;
+    for (let g = 1; g < group.length && source === index; g++) {
+      let image = 0;
+      for (let e = 0; e < dimensions; e++) {
+        image += offsets[g][e][local[e]];
+      }
+      source = Math.min(source, image);
+    }
+
+    const alive = source === index ? random() < soup.density : getPackedCell(grid, source) !== 0;
+    if (alive) {
+      setPackedCell(grid, index, 1);
+    }
+
+    // Advance the region coordinates, x fastest
+    for (let d = 0; d < dimensions; d++) {
+      if (++local[d] < size[d]) break;
+      local[d] = 0;
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Validate soup parameters read from a file
+ */
+export function validateSoup(value: unknown): SoupParams {
+  const { seed, density, region, symmetry } = (value ?? {}) as Record<string, unknown>;
+  if (!isValidSeed(seed)) {
+    throw new Error(`Invalid soup seed ${seed}`);
+  }
+  if (typeof density !== 'number' || !(density >= 0 && density <= 1)) {
+    throw new Error(`Invalid soup density ${density}`);
+  }
+  if (typeof region !== 'number' || !(region > 0 && region <= 1)) {
+    throw new Error(`Invalid soup region ${region}`);
+  }
+  if (typeof symmetry !== 'string' || !Object.keys(SOUP_SYMMETRIES).includes(symmetry)) {
+    throw new Error(`Unknown soup symmetry "${symmetry}"`);
+  }
+
+  return { seed, density, region, symmetry: symmetry as SoupSymmetry };
+}
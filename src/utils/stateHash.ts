@@ -0,0 +1,170 @@
+/**
+ * 64-bit hashes of whole grid states, for recognizing a state seen before
+ * Each non-zero packed word contributes a hash of its index and value, and
+ * the contributions are summed (mod 2^32, in two independent lanes), so the
+ * GPU can combine them with atomics in any order. Matches hash-nd.wgsl.
+ *
+ * Alongside, a shape hash recognizes the same cells at another position:
+ * each non-dead cell contributes a weight times a product of per-axis base
+ * powers of its coordinates, so moving the pattern by t multiplies the sum
+ * by the bases to the power t. Dividing out the powers of the lowest
+ * non-dead coordinate (the origin) leaves a hash that ignores position.
+ * Patterns split across a wrapping edge get a different origin and shape.
+ */
+
+import { getStrides } from './grid';
+
+/** Largest dimension the shaders handle (MAX_DIMENSIONS in hash-nd.wgsl) */
+const MAX_DIMENSIONS = 5;
+
+/**
+ * Words per generation as the GPU accumulates them: the state hash (low,
+ * high), the shape hash before normalization (low, high) and the origin,
+ * stored bitwise inverted so an all-zero accumulator means no cells
+ */
+export const STATE_HASH_WORDS = 4 + MAX_DIMENSIONS;
+
+/** Per-axis bases of the two shape hash lanes (odd, so invertible mod 2^32) */
+const SHAPE_BASES = [
+  [0x9e3779b1, 0x85ebca6b, 0xc2b2ae35, 0x27d4eb2f, 0x165667b1],
+  [0x7feb352d, 0x846ca68b, 0x5bd1e995, 0xcc9e2d51, 0x1b873593],
+];
+
+/** Hashes an engine keeps between two reads; older ones are dropped */
+export const STATE_HASH_CAPACITY = 4096;
+
+/** Hash of one generation */
+export interface StateHash {
+  /** Hash of the whole grid */
+  state: string;
+  /** Hash of the non-dead cells relative to `origin`; equal for moved copies */
+  shape: string;
+  /** Lowest non-dead coordinate per axis, all 0 for an empty grid */
+  origin: number[];
+}
+
+/**
+ * Hashes of the generations stepped since the previous read
+ */
+export interface StateHashes {
+  /**
+   * The sequence started over before these hashes (reset, rewind, rule or
+   * boundary change), so earlier hashes no longer describe the same run
+   */
+  restarted: boolean;
+  /** Oldest first; the last one is the current generation */
+  hashes: StateHash[];
+}
+
+/** Murmur3 finalizer */
+function mix(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** base^exponent mod 2^32 */
+function power(base: number, exponent: number): number {
+  let result = 1;
+  let square = base;
+  for (let e = exponent; e > 0; e >>>= 1) {
+    if (e & 1) {
+      result = Math.imul(result, square);
+    }
+    square = Math.imul(square, square);
+  }
+  return result >>> 0;
+}
+
+/** Inverse of an odd number mod 2^32 (Newton's iteration doubles the correct bits) */
+function inverse(value: number): number {
+  let x = value;
+  for (let i = 0; i < 5; i++) {
+    x = Math.imul(x, 2 - Math.imul(value, x));
+  }
+  return x >>> 0;
+}
+
+const SHAPE_INVERSES = SHAPE_BASES.map(bases => bases.map(inverse));
+
+function formatHash(low: number, high: number): string {
+  return (high >>> 0).toString(16).padStart(8, '0') + (low >>> 0).toString(16).padStart(8, '0');
+}
+
+/** State hash of the empty grid: no word contributes */
+export const EMPTY_STATE_HASH = formatHash(0, 0);
+
+/**
+ * Accumulate the hash words of a packed grid the way hash-nd.wgsl does; the
+ * same cells packed at a different width hash differently
+ */
+export function accumulateStateHash(
+  words: Uint32Array,
+  bitsPerCell: number,
+  gridSize: readonly number[]
+): Uint32Array {
+  const accumulated = new Uint32Array(STATE_HASH_WORDS);
+  const cellsPerWord = 32 / bitsPerCell;
+  const mask = (1 << bitsPerCell) - 1;
+  const cellCount = gridSize.reduce((total, size) => total * size, 1);
+  const strides = getStrides(gridSize);
+
+  for (let i = 0; i < words.length; i++) {
+    const value = words[i];
+    if (value === 0) continue;
+
+    const key = mix(i + 0x9e3779b9);
+    accumulated[0] += mix(value ^ key);
+    accumulated[1] += mix((value ^ 0x5bd1e995) + mix(key));
+
+    for (let k = 0; k < cellsPerWord; k++) {
+      const index = i * cellsPerWord + k;
+      const state = (value >>> (k * bitsPerCell)) & mask;
+      if (index >= cellCount || state === 0) continue;
+
+      const coords = strides.map((stride, d) => Math.floor(index / stride) % gridSize[d]);
+      const weight = mix(state);
+      for (let lane = 0; lane < 2; lane++) {
+        let term = weight;
+        coords.forEach((coord, d) => {
+          term = Math.imul(term, power(SHAPE_BASES[lane][d], coord));
+        });
+        accumulated[2 + lane] += term;
+      }
+      coords.forEach((coord, d) => {
+        accumulated[4 + d] = Math.max(accumulated[4 + d], ~coord >>> 0);
+      });
+    }
+  }
+  return accumulated;
+}
+
+/**
+ * Turn the accumulated words at `offset` into a StateHash, normalizing the
+ * shape hash to the origin
+ */
+export function decodeStateHash(data: Uint32Array, offset: number, dimensions: number): StateHash {
+  const empty = data[offset + 4] === 0;
+  const origin: number[] = [];
+  for (let d = 0; d < dimensions; d++) {
+    origin.push(empty ? 0 : ~data[offset + 4 + d] >>> 0);
+  }
+
+  const shape = [data[offset + 2], data[offset + 3]].map((raw, lane) => {
+    let normalized = raw;
+    for (let d = 0; d < dimensions; d++) {
+      normalized = Math.imul(normalized, power(SHAPE_INVERSES[lane][d], origin[d]));
+    }
+    return normalized;
+  });
+
+  return {
+    state: formatHash(data[offset], data[offset + 1]),
+    shape: formatHash(shape[0], shape[1]),
+    origin,
+  };
+}
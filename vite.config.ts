@@ -7,7 +7,13 @@ export default defineConfig({
   },
   build: {
     target: 'esnext',
-    minify: 'esbuild'
+    minify: 'esbuild',
+    rollupOptions: {
+      input: {
+        main: 'index.html',
+        benchmark: 'benchmark.html'
+      }
+    }
   },
   assetsInclude: ['**/*.wgsl']
 });